@@ -0,0 +1,111 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  ParseIntPipe,
+  Post,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import { RequirePermissions } from 'src/auth/permissions.decorator';
+import { PermissionsGuard } from 'src/auth/guard/permissions.guard';
+import { JwtAuthGuard } from 'src/auth/guard/jwt-auth.guard';
+import { User } from 'src/auth/auth.decorator';
+import { AuthUser } from 'src/auth/types/auth.type';
+import { Permission } from 'src/roles/types/roles.type';
+import { ApiKeysService } from 'src/api-keys/api-keys.service';
+import { CreateApiKeyDto } from 'src/api-keys/types/api-keys.type';
+
+@RequirePermissions(Permission.API_KEYS_MANAGE_ANY)
+@UseGuards(PermissionsGuard)
+@UseGuards(JwtAuthGuard)
+@Controller('admin/api-keys')
+export class AdminApiKeysController {
+  private readonly logger = new Logger(AdminApiKeysController.name);
+  constructor(private _apiKeysService: ApiKeysService) {}
+
+  @Get('/')
+  async listApiKeys(@User() admin: AuthUser) {
+    this.logger.log(`Listing API keys for admin: ${admin.email}`);
+    try {
+      return await this._apiKeysService.findAll();
+    } catch (error) {
+      this.logger.error(
+        `Listing API keys failed for admin: ${admin.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @Post('/')
+  /**
+   * Creates an API key for an internal service. The key is only returned in this response.
+   *
+   * @param {CreateApiKeyDto} createApiKeyDto - The name, scopes and optional expiry of the key.
+   * @param {AuthUser} admin - The authenticated admin.
+   *
+   * @returns {Promise<IssuedApiKey>} Resolves with the stored key and the plaintext key.
+   *
+   * @throws {BadRequestException} Throws if the expiry is in the past.
+   */
+  async createApiKey(
+    @Body(new ValidationPipe({ transform: true }))
+    createApiKeyDto: CreateApiKeyDto,
+    @User() admin: AuthUser
+  ) {
+    this.logger.log(
+      `Creating API key ${createApiKeyDto.name} by admin: ${admin.email}`
+    );
+    try {
+      return await this._apiKeysService.create(createApiKeyDto, admin.userId);
+    } catch (error) {
+      this.logger.error(
+        `Creating API key ${createApiKeyDto.name} failed by admin: ${admin.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('/:id/rotate')
+  async rotateApiKey(
+    @Param('id', ParseIntPipe) id: number,
+    @User() admin: AuthUser
+  ) {
+    this.logger.log(`Rotating API key ${id} by admin: ${admin.email}`);
+    try {
+      return await this._apiKeysService.rotate(id);
+    } catch (error) {
+      this.logger.error(
+        `Rotating API key ${id} failed by admin: ${admin.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @Delete('/:id')
+  async revokeApiKey(
+    @Param('id', ParseIntPipe) id: number,
+    @User() admin: AuthUser
+  ) {
+    this.logger.log(`Revoking API key ${id} by admin: ${admin.email}`);
+    try {
+      await this._apiKeysService.revoke(id);
+      return { message: 'API key revoked successfully' };
+    } catch (error) {
+      this.logger.error(
+        `Revoking API key ${id} failed by admin: ${admin.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import {
+  Controller,
+  Get,
+  Logger,
+  Query,
+  StreamableFile,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import { Readable } from 'stream';
+import { RequirePermissions } from 'src/auth/permissions.decorator';
+import { PermissionsGuard } from 'src/auth/guard/permissions.guard';
+import { JwtAuthGuard } from 'src/auth/guard/jwt-auth.guard';
+import { User } from 'src/auth/auth.decorator';
+import { AuthUser } from 'src/auth/types/auth.type';
+import { Permission } from 'src/roles/types/roles.type';
+import { AuditService } from 'src/audit/audit.service';
+import {
+  ExportAuditQueryDto,
+  ListAuditQueryDto,
+} from 'src/audit/types/audit.type';
+import {
+  AUDIT_CSV_HEADER,
+  toCsvRow,
+  toNdjsonRow,
+} from 'src/audit/utils/export';
+
+@RequirePermissions(Permission.AUDIT_READ_ANY)
+@UseGuards(PermissionsGuard)
+@UseGuards(JwtAuthGuard)
+@Controller('admin/audit')
+export class AdminAuditController {
+  private readonly logger = new Logger(AdminAuditController.name);
+  constructor(private _auditService: AuditService) {}
+
+  @Get('/')
+  async listEntries(
+    @Query(new ValidationPipe({ transform: true })) query: ListAuditQueryDto,
+    @User() admin: AuthUser
+  ) {
+    this.logger.log(`Listing audit entries for admin: ${admin.email}`);
+    try {
+      return await this._auditService.findAll(query);
+    } catch (error) {
+      this.logger.error(
+        `Listing audit entries failed for admin: ${admin.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @Get('/export')
+  /**
+   * Streams every entry matching the filters, oldest first, as CSV or newline delimited JSON.
+   *
+   * @param {ExportAuditQueryDto} query - The filters and the `csv` or `ndjson` format.
+   * @param {AuthUser} admin - The authenticated admin.
+   *
+   * @returns {StreamableFile} The export, sent as an attachment.
+   */
+  exportEntries(
+    @Query(new ValidationPipe({ transform: true })) query: ExportAuditQueryDto,
+    @User() admin: AuthUser
+  ): StreamableFile {
+    this.logger.log(
+      `Exporting audit entries as ${query.format} for admin: ${admin.email}`
+    );
+    const { format, ...filters } = query;
+    const entries = this._auditService.export(filters);
+    const toRow = format === 'csv' ? toCsvRow : toNdjsonRow;
+    async function* rows() {
+      if (format === 'csv') {
+        yield AUDIT_CSV_HEADER;
+      }
+      for await (const batch of entries) {
+        yield batch.map(toRow).join('');
+      }
+    }
+    return new StreamableFile(Readable.from(rows()), {
+      type: format === 'csv' ? 'text/csv' : 'application/x-ndjson',
+      disposition: `attachment; filename="audit.${format}"`,
+    });
+  }
+}
@@ -0,0 +1,50 @@
+import {
+  Controller,
+  Get,
+  Logger,
+  Query,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import { RequirePermissions } from 'src/auth/permissions.decorator';
+import { PermissionsGuard } from 'src/auth/guard/permissions.guard';
+import { JwtAuthGuard } from 'src/auth/guard/jwt-auth.guard';
+import { User } from 'src/auth/auth.decorator';
+import { AuthUser } from 'src/auth/types/auth.type';
+import { Permission } from 'src/roles/types/roles.type';
+import { PrivacyService } from 'src/privacy/privacy.service';
+import { ListErasuresQueryDto } from 'src/privacy/types/privacy.type';
+
+@RequirePermissions(Permission.AUDIT_READ_ANY)
+@UseGuards(PermissionsGuard)
+@UseGuards(JwtAuthGuard)
+@Controller('admin/erasures')
+export class AdminErasuresController {
+  private readonly logger = new Logger(AdminErasuresController.name);
+  constructor(private _privacyService: PrivacyService) {}
+
+  @Get('/')
+  /**
+   * Lists completed erasures for compliance reporting, most recent first.
+   *
+   * @param {ListErasuresQueryDto} query - The pagination options and the user, reason and completion time filters.
+   * @param {AuthUser} admin - The authenticated admin.
+   *
+   * @returns {Promise<Paginated<ErasureRecord>>} Resolves with the requested page.
+   */
+  async listErasures(
+    @Query(new ValidationPipe({ transform: true })) query: ListErasuresQueryDto,
+    @User() admin: AuthUser
+  ) {
+    this.logger.log(`Listing erasures for admin: ${admin.email}`);
+    try {
+      return await this._privacyService.findErasures(query);
+    } catch (error) {
+      this.logger.error(
+        `Listing erasures failed for admin: ${admin.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import { RequirePermissions } from 'src/auth/permissions.decorator';
+import { PermissionsGuard } from 'src/auth/guard/permissions.guard';
+import { JwtAuthGuard } from 'src/auth/guard/jwt-auth.guard';
+import { User } from 'src/auth/auth.decorator';
+import { AuthUser } from 'src/auth/types/auth.type';
+import { Permission } from 'src/roles/types/roles.type';
+import { OutboxService } from 'src/outbox/outbox.service';
+import { ListOutboxQueryDto } from 'src/outbox/types/outbox.type';
+
+@RequirePermissions(Permission.OUTBOX_MANAGE_ANY)
+@UseGuards(PermissionsGuard)
+@UseGuards(JwtAuthGuard)
+@Controller('admin/outbox')
+export class AdminOutboxController {
+  private readonly logger = new Logger(AdminOutboxController.name);
+  constructor(private _outboxService: OutboxService) {}
+
+  @Get('/')
+  async listEvents(
+    @Query(new ValidationPipe({ transform: true })) query: ListOutboxQueryDto,
+    @User() admin: AuthUser
+  ) {
+    this.logger.log(`Listing outbox events for admin: ${admin.email}`);
+    try {
+      return await this._outboxService.findAll(query);
+    } catch (error) {
+      this.logger.error(
+        `Listing outbox events failed for admin: ${admin.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('/:id/replay')
+  async replayEvent(
+    @Param('id', ParseIntPipe) id: number,
+    @User() admin: AuthUser
+  ) {
+    this.logger.log(`Replaying outbox event ${id} by admin: ${admin.email}`);
+    try {
+      return await this._outboxService.replay(id);
+    } catch (error) {
+      this.logger.error(
+        `Replaying outbox event ${id} failed by admin: ${admin.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Logger,
+  Param,
+  Put,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import { RequirePermissions } from 'src/auth/permissions.decorator';
+import { PermissionsGuard } from 'src/auth/guard/permissions.guard';
+import { JwtAuthGuard } from 'src/auth/guard/jwt-auth.guard';
+import { User } from 'src/auth/auth.decorator';
+import { AuthUser } from 'src/auth/types/auth.type';
+import { RolesService } from 'src/roles/roles.service';
+import {
+  Permission,
+  RoleNameDto,
+  UpsertRoleDto,
+} from 'src/roles/types/roles.type';
+
+@RequirePermissions(Permission.ROLES_MANAGE_ANY)
+@UseGuards(PermissionsGuard)
+@UseGuards(JwtAuthGuard)
+@Controller('admin/roles')
+export class AdminRolesController {
+  private readonly logger = new Logger(AdminRolesController.name);
+  constructor(private _rolesService: RolesService) {}
+
+  @Get('/')
+  async listRoles(@User() admin: AuthUser) {
+    this.logger.log(`Listing roles for admin: ${admin.email}`);
+    try {
+      return await this._rolesService.findAll();
+    } catch (error) {
+      this.logger.error(
+        `Listing roles failed for admin: ${admin.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @Get('/permissions')
+  listPermissions() {
+    return Object.values(Permission);
+  }
+
+  @Put('/:name')
+  async upsertRole(
+    @Param(new ValidationPipe()) { name }: RoleNameDto,
+    @Body(new ValidationPipe()) upsertRoleDto: UpsertRoleDto,
+    @User() admin: AuthUser
+  ) {
+    this.logger.log(`Saving role ${name} by admin: ${admin.email}`);
+    try {
+      return await this._rolesService.upsert(name, upsertRoleDto);
+    } catch (error) {
+      this.logger.error(
+        `Saving role ${name} failed by admin: ${admin.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @Delete('/:name')
+  async deleteRole(@Param('name') name: string, @User() admin: AuthUser) {
+    this.logger.log(`Deleting role ${name} by admin: ${admin.email}`);
+    try {
+      await this._rolesService.delete(name);
+      return { message: 'Role deleted successfully' };
+    } catch (error) {
+      this.logger.error(
+        `Deleting role ${name} failed by admin: ${admin.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+}
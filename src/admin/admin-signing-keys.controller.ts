@@ -0,0 +1,79 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { RequirePermissions } from 'src/auth/permissions.decorator';
+import { PermissionsGuard } from 'src/auth/guard/permissions.guard';
+import { JwtAuthGuard } from 'src/auth/guard/jwt-auth.guard';
+import { User } from 'src/auth/auth.decorator';
+import { AuthUser } from 'src/auth/types/auth.type';
+import { Permission } from 'src/roles/types/roles.type';
+import { SigningKeysService } from 'src/signing-keys/signing-keys.service';
+
+@RequirePermissions(Permission.SIGNING_KEYS_MANAGE_ANY)
+@UseGuards(PermissionsGuard)
+@UseGuards(JwtAuthGuard)
+@Controller('admin/signing-keys')
+export class AdminSigningKeysController {
+  private readonly logger = new Logger(AdminSigningKeysController.name);
+  constructor(private _signingKeysService: SigningKeysService) {}
+
+  @Get('/')
+  async listSigningKeys(@User() admin: AuthUser) {
+    this.logger.log(`Listing signing keys for admin: ${admin.email}`);
+    try {
+      return await this._signingKeysService.findAll();
+    } catch (error) {
+      this.logger.error(
+        `Listing signing keys failed for admin: ${admin.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('/rotate')
+  /**
+   * Publishes a new signing key, which takes over after the activation delay. Tokens
+   * signed with the previous key stay valid until the retention ends.
+   *
+   * @param {AuthUser} admin - The authenticated admin.
+   *
+   * @returns {Promise<Omit<SigningKey, 'privateKey'>>} Resolves with the new key, without its private key.
+   */
+  async rotateSigningKey(@User() admin: AuthUser) {
+    this.logger.log(`Rotating signing key by admin: ${admin.email}`);
+    try {
+      return await this._signingKeysService.rotate();
+    } catch (error) {
+      this.logger.error(
+        `Rotating signing key failed by admin: ${admin.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @Delete('/:kid')
+  async revokeSigningKey(@Param('kid') kid: string, @User() admin: AuthUser) {
+    this.logger.log(`Revoking signing key ${kid} by admin: ${admin.email}`);
+    try {
+      await this._signingKeysService.revoke(kid);
+      return { message: 'Signing key revoked successfully' };
+    } catch (error) {
+      this.logger.error(
+        `Revoking signing key ${kid} failed by admin: ${admin.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+}
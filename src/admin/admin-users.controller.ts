@@ -0,0 +1,174 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiBody } from '@nestjs/swagger';
+import { RequirePermissions } from 'src/auth/permissions.decorator';
+import { PermissionsGuard } from 'src/auth/guard/permissions.guard';
+import { JwtAuthGuard } from 'src/auth/guard/jwt-auth.guard';
+import { ClientInfo, User } from 'src/auth/auth.decorator';
+import { SessionClient } from 'src/sessions/types/sessions.type';
+import { AuthUser } from 'src/auth/types/auth.type';
+import {
+  ListUsersQueryDto,
+  UpdateRolesDto,
+  UpdateStatusDto,
+} from 'src/users/types/users.type';
+import {
+  UpdateRolesSwagger,
+  UpdateStatusSwagger,
+} from 'src/swagger/user.swagger';
+import { AdminUsersService } from './admin-users.service';
+import { Permission } from 'src/roles/types/roles.type';
+
+@RequirePermissions(Permission.USERS_MANAGE_ANY)
+@UseGuards(PermissionsGuard)
+@UseGuards(JwtAuthGuard)
+@Controller('admin/users')
+export class AdminUsersController {
+  private readonly logger = new Logger(AdminUsersController.name);
+  constructor(private _adminUsersService: AdminUsersService) {}
+
+  @RequirePermissions(Permission.USERS_READ_ANY)
+  @Get('/')
+  async listUsers(
+    @Query(new ValidationPipe({ transform: true })) query: ListUsersQueryDto,
+    @User() admin: AuthUser
+  ) {
+    this.logger.log(`Listing users for admin: ${admin.email}`);
+    try {
+      return await this._adminUsersService.list(query);
+    } catch (error) {
+      this.logger.error(
+        `Listing users failed for admin: ${admin.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @Put('/:id/roles')
+  @ApiBody({ type: UpdateRolesSwagger })
+  async changeRoles(
+    @Param('id', ParseIntPipe) id: number,
+    @Body(new ValidationPipe()) updateRolesDto: UpdateRolesDto,
+    @User() admin: AuthUser,
+    @ClientInfo() client: SessionClient
+  ) {
+    this.logger.log(`Changing roles of user ${id} by admin: ${admin.email}`);
+    try {
+      return await this._adminUsersService.changeRoles(
+        admin,
+        id,
+        updateRolesDto.roles,
+        client
+      );
+    } catch (error) {
+      this.logger.error(
+        `Changing roles of user ${id} failed by admin: ${admin.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @Patch('/:id/status')
+  @ApiBody({ type: UpdateStatusSwagger })
+  async setStatus(
+    @Param('id', ParseIntPipe) id: number,
+    @Body(new ValidationPipe()) updateStatusDto: UpdateStatusDto,
+    @User() admin: AuthUser,
+    @ClientInfo() client: SessionClient
+  ) {
+    this.logger.log(`Changing status of user ${id} by admin: ${admin.email}`);
+    try {
+      return await this._adminUsersService.setStatus(
+        admin,
+        id,
+        updateStatusDto.isActive,
+        client
+      );
+    } catch (error) {
+      this.logger.error(
+        `Changing status of user ${id} failed by admin: ${admin.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('/:id/password-reset')
+  async forcePasswordReset(
+    @Param('id', ParseIntPipe) id: number,
+    @User() admin: AuthUser,
+    @ClientInfo() client: SessionClient
+  ) {
+    this.logger.log(
+      `Forcing password reset of user ${id} by admin: ${admin.email}`
+    );
+    try {
+      await this._adminUsersService.forcePasswordReset(admin, id, client);
+      return { message: 'Password reset forced successfully' };
+    } catch (error) {
+      this.logger.error(
+        `Forcing password reset of user ${id} failed by admin: ${admin.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('/:id/unlock')
+  async unlockUser(
+    @Param('id', ParseIntPipe) id: number,
+    @User() admin: AuthUser,
+    @ClientInfo() client: SessionClient
+  ) {
+    this.logger.log(`Unlocking user ${id} by admin: ${admin.email}`);
+    try {
+      await this._adminUsersService.unlock(admin, id, client);
+      return { message: 'User unlocked successfully' };
+    } catch (error) {
+      this.logger.error(
+        `Unlocking user ${id} failed by admin: ${admin.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @RequirePermissions(Permission.USERS_DELETE_ANY)
+  @Delete('/:id')
+  async deleteUser(
+    @Param('id', ParseIntPipe) id: number,
+    @User() admin: AuthUser,
+    @ClientInfo() client: SessionClient
+  ) {
+    this.logger.log(`Deleting user ${id} by admin: ${admin.email}`);
+    try {
+      await this._adminUsersService.delete(admin, id, client);
+      return { message: 'User deleted successfully' };
+    } catch (error) {
+      this.logger.error(
+        `Deleting user ${id} failed by admin: ${admin.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+}
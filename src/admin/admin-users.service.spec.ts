@@ -0,0 +1,161 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { AdminUsersService } from './admin-users.service';
+import { UsersService } from 'src/users/users.service';
+import { SessionsService } from 'src/sessions/sessions.service';
+import { AuthService } from 'src/auth/auth.service';
+import { RolesService } from 'src/roles/roles.service';
+import { Role } from 'src/users/types/users.type';
+import { AuditService } from 'src/audit/audit.service';
+import { AuditAction, AuditOutcome } from 'src/audit/types/audit.type';
+import { PrivacyService } from 'src/privacy/privacy.service';
+
+describe('AdminUsersService', () => {
+  let service: AdminUsersService;
+  let usersService: Record<string, jest.Mock>;
+  let sessionsService: Record<string, jest.Mock>;
+  let rolesService: { findUnknown: jest.Mock };
+  let auditService: { record: jest.Mock; recordFailure: jest.Mock };
+  let privacyService: { erase: jest.Mock };
+  let authService: { forcePasswordReset: jest.Mock };
+  const admin = {
+    userId: 1,
+    email: 'admin@gmail.com',
+    roles: [Role.ADMIN],
+    permissions: [],
+    sessionId: 'session',
+  };
+
+  beforeEach(async () => {
+    usersService = {
+      updateRoles: jest.fn(),
+      setActive: jest.fn(),
+      unlock: jest.fn(),
+    };
+    authService = { forcePasswordReset: jest.fn() };
+    sessionsService = { revokeAllForUser: jest.fn() };
+    rolesService = { findUnknown: jest.fn(() => Promise.resolve([])) };
+    auditService = { record: jest.fn(), recordFailure: jest.fn() };
+    privacyService = { erase: jest.fn() };
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AdminUsersService,
+        { provide: UsersService, useValue: usersService },
+        { provide: SessionsService, useValue: sessionsService },
+        { provide: AuthService, useValue: authService },
+        { provide: RolesService, useValue: rolesService },
+        { provide: AuditService, useValue: auditService },
+        { provide: PrivacyService, useValue: privacyService },
+      ],
+    }).compile();
+
+    service = module.get<AdminUsersService>(AdminUsersService);
+  });
+
+  it('should not let admins change their own role, status or account', async () => {
+    await expect(service.changeRoles(admin, 1, [Role.USER])).rejects.toThrow(
+      ForbiddenException
+    );
+    await expect(service.setStatus(admin, 1, false)).rejects.toThrow(
+      ForbiddenException
+    );
+    await expect(service.delete(admin, 1)).rejects.toThrow(ForbiddenException);
+    expect(usersService.updateRoles).not.toHaveBeenCalled();
+  });
+
+  it('should only assign defined roles', async () => {
+    rolesService.findUnknown.mockResolvedValueOnce(['auditor']);
+
+    await expect(
+      service.changeRoles(admin, 2, [Role.USER, 'auditor'])
+    ).rejects.toThrow(BadRequestException);
+    expect(usersService.updateRoles).not.toHaveBeenCalled();
+
+    await service.changeRoles(admin, 2, [Role.USER, Role.ADMIN]);
+    expect(usersService.updateRoles).toHaveBeenCalledWith(2, [
+      Role.USER,
+      Role.ADMIN,
+    ]);
+  });
+
+  it('should audit role changes, including rejected ones', async () => {
+    await expect(service.changeRoles(admin, 1, [Role.USER])).rejects.toThrow(
+      ForbiddenException
+    );
+    expect(auditService.recordFailure).toHaveBeenCalledWith(
+      expect.objectContaining({ action: AuditAction.ROLE_CHANGE, targetId: 1 }),
+      expect.any(ForbiddenException)
+    );
+
+    await service.changeRoles(admin, 2, [Role.ADMIN]);
+    expect(auditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: AuditAction.ROLE_CHANGE,
+        outcome: AuditOutcome.SUCCESS,
+        actorId: admin.userId,
+        targetId: 2,
+        details: { roles: [Role.ADMIN] },
+      })
+    );
+  });
+
+  it('should revoke all sessions when deactivating a user', async () => {
+    await service.setStatus(admin, 2, false);
+
+    expect(usersService.setActive).toHaveBeenCalledWith(2, false);
+    expect(sessionsService.revokeAllForUser).toHaveBeenCalledWith(2);
+  });
+
+  it('should audit status changes, forced password resets and unlocks', async () => {
+    await service.setStatus(admin, 2, false);
+    await service.forcePasswordReset(admin, 2);
+    await service.unlock(admin, 2);
+
+    for (const action of [
+      AuditAction.STATUS_CHANGE,
+      AuditAction.PASSWORD_RESET_FORCE,
+      AuditAction.UNLOCK,
+    ]) {
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action,
+          outcome: AuditOutcome.SUCCESS,
+          actorId: admin.userId,
+          targetId: 2,
+        })
+      );
+    }
+  });
+
+  it('should audit rejected status changes', async () => {
+    await expect(service.setStatus(admin, 1, false)).rejects.toThrow(
+      ForbiddenException
+    );
+
+    expect(auditService.recordFailure).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: AuditAction.STATUS_CHANGE,
+        details: { isActive: false },
+      }),
+      expect.any(ForbiddenException)
+    );
+  });
+
+  it('should keep sessions when activating a user', async () => {
+    await service.setStatus(admin, 2, true);
+
+    expect(sessionsService.revokeAllForUser).not.toHaveBeenCalled();
+  });
+
+  it('should erase deleted users on behalf of the admin', async () => {
+    await service.delete(admin, 2);
+
+    expect(privacyService.erase).toHaveBeenCalledWith(2, {
+      reason: 'admin',
+      requestedBy: admin.userId,
+    });
+    expect(auditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({ action: AuditAction.DELETE, targetId: 2 })
+    );
+  });
+});
@@ -0,0 +1,185 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { AuthService } from 'src/auth/auth.service';
+import { AuthUser } from 'src/auth/types/auth.type';
+import { SessionsService } from 'src/sessions/sessions.service';
+import { ListUsersQueryDto, Paginated } from 'src/users/types/users.type';
+import { SafeUser, UsersService } from 'src/users/users.service';
+import { RolesService } from 'src/roles/roles.service';
+import { SessionClient } from 'src/sessions/types/sessions.type';
+import { AuditService } from 'src/audit/audit.service';
+import { AuditAction, AuditOutcome } from 'src/audit/types/audit.type';
+import { PrivacyService } from 'src/privacy/privacy.service';
+
+@Injectable()
+export class AdminUsersService {
+  private readonly logger = new Logger(AdminUsersService.name);
+
+  constructor(
+    private _usersService: UsersService,
+    private _sessionsService: SessionsService,
+    private _authService: AuthService,
+    private _rolesService: RolesService,
+    private _auditService: AuditService,
+    private _privacyService: PrivacyService
+  ) {}
+
+  async list(query: ListUsersQueryDto): Promise<Paginated<SafeUser>> {
+    return await this._usersService.findAll(query);
+  }
+
+  async changeRoles(
+    admin: AuthUser,
+    id: number,
+    roles: string[],
+    client?: SessionClient
+  ): Promise<SafeUser> {
+    const audit = {
+      action: AuditAction.ROLE_CHANGE,
+      actorId: admin.userId,
+      targetId: Number(id),
+      client,
+      details: { roles },
+    };
+    try {
+      this.assertNotSelf(admin, id);
+      const unknown = await this._rolesService.findUnknown(roles);
+      if (unknown.length) {
+        throw new BadRequestException(`Unknown roles: ${unknown.join(', ')}`);
+      }
+      this.logger.log(`Changing roles of user ${id} to ${roles.join(', ')}`);
+      const user = await this._usersService.updateRoles(id, roles);
+      await this._auditService.record({
+        ...audit,
+        outcome: AuditOutcome.SUCCESS,
+      });
+      return user;
+    } catch (error) {
+      await this._auditService.recordFailure(audit, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Activates or deactivates an account. Deactivating also revokes every session.
+   */
+  async setStatus(
+    admin: AuthUser,
+    id: number,
+    isActive: boolean,
+    client?: SessionClient
+  ): Promise<SafeUser> {
+    const audit = {
+      action: AuditAction.STATUS_CHANGE,
+      actorId: admin.userId,
+      targetId: Number(id),
+      client,
+      details: { isActive },
+    };
+    try {
+      this.assertNotSelf(admin, id);
+      this.logger.log(`Setting active state of user ${id} to ${isActive}`);
+      const user = await this._usersService.setActive(id, isActive);
+      if (!isActive) {
+        await this._sessionsService.revokeAllForUser(id);
+      }
+      await this._auditService.record({
+        ...audit,
+        outcome: AuditOutcome.SUCCESS,
+      });
+      return user;
+    } catch (error) {
+      await this._auditService.recordFailure(audit, error);
+      throw error;
+    }
+  }
+
+  async forcePasswordReset(
+    admin: AuthUser,
+    id: number,
+    client?: SessionClient
+  ): Promise<void> {
+    const audit = {
+      action: AuditAction.PASSWORD_RESET_FORCE,
+      actorId: admin.userId,
+      targetId: Number(id),
+      client,
+    };
+    try {
+      await this._authService.forcePasswordReset(id);
+      await this._auditService.record({
+        ...audit,
+        outcome: AuditOutcome.SUCCESS,
+      });
+    } catch (error) {
+      await this._auditService.recordFailure(audit, error);
+      throw error;
+    }
+  }
+
+  async unlock(
+    admin: AuthUser,
+    id: number,
+    client?: SessionClient
+  ): Promise<void> {
+    const audit = {
+      action: AuditAction.UNLOCK,
+      actorId: admin.userId,
+      targetId: Number(id),
+      client,
+    };
+    try {
+      this.logger.log(`Unlocking user ${id}`);
+      await this._usersService.unlock(id);
+      await this._auditService.record({
+        ...audit,
+        outcome: AuditOutcome.SUCCESS,
+      });
+    } catch (error) {
+      await this._auditService.recordFailure(audit, error);
+      throw error;
+    }
+  }
+
+  async delete(
+    admin: AuthUser,
+    id: number,
+    client?: SessionClient
+  ): Promise<void> {
+    const audit = {
+      action: AuditAction.DELETE,
+      actorId: admin.userId,
+      targetId: Number(id),
+      client,
+      details: { reason: 'admin' },
+    };
+    try {
+      this.assertNotSelf(admin, id);
+      this.logger.log(`Erasing user ${id}`);
+      await this._privacyService.erase(id, {
+        reason: 'admin',
+        requestedBy: admin.userId,
+      });
+      await this._auditService.record({
+        ...audit,
+        outcome: AuditOutcome.SUCCESS,
+      });
+    } catch (error) {
+      await this._auditService.recordFailure(audit, error);
+      throw error;
+    }
+  }
+
+  // Keeps admins from locking themselves out, another admin has to do it
+  private assertNotSelf(admin: AuthUser, id: number): void {
+    if (Number(admin.userId) === Number(id)) {
+      throw new ForbiddenException(
+        'You cannot perform this action on yourself'
+      );
+    }
+  }
+}
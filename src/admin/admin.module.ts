@@ -0,0 +1,43 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from 'src/auth/auth.module';
+import { SessionsModule } from 'src/sessions/sessions.module';
+import { UsersModule } from 'src/users/users.module';
+import { AdminUsersController } from './admin-users.controller';
+import { AdminUsersService } from './admin-users.service';
+import { OutboxModule } from 'src/outbox/outbox.module';
+import { AdminOutboxController } from './admin-outbox.controller';
+import { RolesModule } from 'src/roles/roles.module';
+import { AdminRolesController } from './admin-roles.controller';
+import { ApiKeysModule } from 'src/api-keys/api-keys.module';
+import { AdminApiKeysController } from './admin-api-keys.controller';
+import { AuditModule } from 'src/audit/audit.module';
+import { AdminAuditController } from './admin-audit.controller';
+import { SigningKeysModule } from 'src/signing-keys/signing-keys.module';
+import { AdminSigningKeysController } from './admin-signing-keys.controller';
+import { PrivacyModule } from 'src/privacy/privacy.module';
+import { AdminErasuresController } from './admin-erasures.controller';
+
+@Module({
+  imports: [
+    UsersModule,
+    SessionsModule,
+    AuthModule,
+    OutboxModule,
+    RolesModule,
+    ApiKeysModule,
+    AuditModule,
+    SigningKeysModule,
+    PrivacyModule,
+  ],
+  providers: [AdminUsersService],
+  controllers: [
+    AdminUsersController,
+    AdminOutboxController,
+    AdminRolesController,
+    AdminApiKeysController,
+    AdminAuditController,
+    AdminSigningKeysController,
+    AdminErasuresController,
+  ],
+})
+export class AdminModule {}
@@ -0,0 +1,41 @@
+import { Entity, Column, PrimaryGeneratedColumn, Index } from 'typeorm';
+
+@Entity()
+export class ApiKey {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  name: string;
+
+  // Leading part of the key, shown in listings so a key can be recognised
+  @Index({ unique: true })
+  @Column()
+  prefix: string;
+
+  // sha256 of the secret part, the key itself is never stored
+  @Column({ select: false })
+  keyHash: string;
+
+  @Column('text', { array: true, default: '{}' })
+  scopes: string[];
+
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastUsedAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  // Id of the admin who created the key
+  @Column()
+  createdBy: number;
+
+  @Column()
+  createdAt: Date;
+
+  @Column()
+  updatedAt: Date;
+}
@@ -0,0 +1,111 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  BadRequestException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKey } from './api-keys.entity';
+import { Permission } from 'src/roles/types/roles.type';
+
+describe('ApiKeysService', () => {
+  let service: ApiKeysService;
+  let stored: ApiKey | undefined;
+  let repository: Record<string, jest.Mock>;
+
+  const create = () =>
+    service.create({ name: 'billing', scopes: [Permission.USERS_READ_ANY] }, 1);
+
+  beforeEach(async () => {
+    stored = undefined;
+    repository = {
+      create: jest.fn((values: ApiKey) => values),
+      save: jest.fn((apiKey: ApiKey) => {
+        stored = { ...apiKey, id: 7 };
+        return Promise.resolve(stored);
+      }),
+      findOne: jest.fn(({ where }: { where: Partial<ApiKey> }) =>
+        Promise.resolve(
+          stored &&
+            (where.prefix ?? stored.prefix) === stored.prefix &&
+            (where.id ?? stored.id) === stored.id
+            ? { ...stored }
+            : null
+        )
+      ),
+      update: jest.fn((id: number, values: Partial<ApiKey>) => {
+        stored = { ...stored!, ...values };
+        return Promise.resolve();
+      }),
+    };
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeysService,
+        { provide: getRepositoryToken(ApiKey), useValue: repository },
+      ],
+    }).compile();
+
+    service = module.get<ApiKeysService>(ApiKeysService);
+  });
+
+  it('should store only the hash and a visible prefix', async () => {
+    const { apiKey, key } = await create();
+
+    expect(key.startsWith(`${apiKey.prefix}.`)).toBe(true);
+    expect(apiKey).not.toHaveProperty('keyHash');
+    expect(stored!.keyHash).not.toContain(key.split('.')[1]);
+  });
+
+  it('should resolve a key to a principal with its scopes', async () => {
+    const { key } = await create();
+
+    await expect(service.authenticate(key)).resolves.toEqual({
+      apiKeyId: 7,
+      name: 'billing',
+      permissions: [Permission.USERS_READ_ANY],
+    });
+    expect(stored!.lastUsedAt).toBeInstanceOf(Date);
+  });
+
+  it('should reject wrong, revoked and expired keys', async () => {
+    const { key } = await create();
+
+    await expect(service.authenticate(`${key}x`)).rejects.toThrow(
+      UnauthorizedException
+    );
+    await expect(service.authenticate('not-a-key')).rejects.toThrow(
+      UnauthorizedException
+    );
+
+    stored!.expiresAt = new Date(Date.now() - 1000);
+    await expect(service.authenticate(key)).rejects.toThrow(
+      UnauthorizedException
+    );
+
+    stored!.expiresAt = null;
+    await service.revoke(7);
+    await expect(service.authenticate(key)).rejects.toThrow(
+      UnauthorizedException
+    );
+    await expect(service.revoke(7)).rejects.toThrow(NotFoundException);
+  });
+
+  it('should invalidate the previous key on rotation', async () => {
+    const { key } = await create();
+    const rotated = await service.rotate(7);
+
+    await expect(service.authenticate(key)).rejects.toThrow(
+      UnauthorizedException
+    );
+    await expect(service.authenticate(rotated.key)).resolves.toMatchObject({
+      apiKeyId: 7,
+    });
+  });
+
+  it('should not create keys that are already expired', async () => {
+    await expect(
+      service.create({ name: 'billing', scopes: [], expiresAt: new Date(0) }, 1)
+    ).rejects.toThrow(BadRequestException);
+  });
+});
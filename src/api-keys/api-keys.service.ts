@@ -0,0 +1,173 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { ApiKey } from './api-keys.entity';
+import { CreateApiKeyDto, IssuedApiKey } from './types/api-keys.type';
+import { ServicePrincipal } from 'src/auth/types/auth.type';
+
+const KEY_PREFIX = 'usk_';
+
+const hashSecret = (secret: string): string =>
+  createHash('sha256').update(secret).digest('hex');
+
+@Injectable()
+export class ApiKeysService {
+  private readonly logger = new Logger(ApiKeysService.name);
+
+  constructor(
+    @InjectRepository(ApiKey)
+    private _apiKeysRepository: Repository<ApiKey>
+  ) {}
+
+  /**
+   * Creates an API key. Only the hash of its secret is stored, so the returned key
+   * cannot be shown again.
+   *
+   * @param {CreateApiKeyDto} createApiKeyDto - The name, scopes and optional expiry of the key.
+   * @param {number} createdBy - The id of the admin creating the key.
+   *
+   * @returns {Promise<IssuedApiKey>} Resolves with the stored key and the plaintext key.
+   *
+   * @throws {BadRequestException} Throws if the expiry is in the past.
+   */
+  async create(
+    createApiKeyDto: CreateApiKeyDto,
+    createdBy: number
+  ): Promise<IssuedApiKey> {
+    const now = new Date();
+    if (createApiKeyDto.expiresAt && createApiKeyDto.expiresAt <= now) {
+      throw new BadRequestException('The expiry must be in the future');
+    }
+    const { prefix, secret, key } = this.generateKey();
+    const apiKey = await this._apiKeysRepository.save(
+      this._apiKeysRepository.create({
+        name: createApiKeyDto.name,
+        prefix,
+        keyHash: hashSecret(secret),
+        scopes: createApiKeyDto.scopes,
+        expiresAt: createApiKeyDto.expiresAt ?? null,
+        lastUsedAt: null,
+        revokedAt: null,
+        createdBy,
+        createdAt: now,
+        updatedAt: now,
+      })
+    );
+    this.logger.log(`Created API key ${prefix} (${apiKey.name})`);
+    return { apiKey: this.withoutHash(apiKey), key };
+  }
+
+  async findAll(): Promise<ApiKey[]> {
+    return await this._apiKeysRepository.find({ order: { createdAt: 'DESC' } });
+  }
+
+  /**
+   * Replaces the key of an API key. Name, scopes and expiry are kept, the previous key
+   * stops working immediately.
+   *
+   * @param {number} id - The id of the API key.
+   *
+   * @returns {Promise<IssuedApiKey>} Resolves with the updated key and the new plaintext key.
+   *
+   * @throws {NotFoundException} Throws if the key does not exist or is revoked.
+   */
+  async rotate(id: number): Promise<IssuedApiKey> {
+    const apiKey = await this.findActive(id);
+    const { prefix, secret, key } = this.generateKey();
+    const previousPrefix = apiKey.prefix;
+    apiKey.prefix = prefix;
+    apiKey.keyHash = hashSecret(secret);
+    apiKey.updatedAt = new Date();
+    await this._apiKeysRepository.save(apiKey);
+    this.logger.log(`Rotated API key ${previousPrefix} to ${prefix}`);
+    return { apiKey: this.withoutHash(apiKey), key };
+  }
+
+  /**
+   * Revokes an API key. Revoked keys stay listed but can no longer authenticate.
+   *
+   * @throws {NotFoundException} Throws if the key does not exist or is already revoked.
+   */
+  async revoke(id: number): Promise<void> {
+    const apiKey = await this.findActive(id);
+    await this._apiKeysRepository.update(id, {
+      revokedAt: new Date(),
+      updatedAt: new Date(),
+    });
+    this.logger.log(`Revoked API key ${apiKey.prefix}`);
+  }
+
+  /**
+   * Resolves an API key to the service principal it stands for and records its use.
+   *
+   * @param {string} key - The key sent with the request.
+   *
+   * @returns {Promise<ServicePrincipal>} Resolves with the principal, whose permissions are the key's scopes.
+   *
+   * @throws {UnauthorizedException} Throws if the key is unknown, revoked or expired.
+   */
+  async authenticate(key: string): Promise<ServicePrincipal> {
+    const [prefix, secret] = key.split('.');
+    if (!prefix?.startsWith(KEY_PREFIX) || !secret) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+    const apiKey = await this._apiKeysRepository.findOne({
+      where: { prefix },
+      select: {
+        id: true,
+        name: true,
+        keyHash: true,
+        scopes: true,
+        expiresAt: true,
+        revokedAt: true,
+      },
+    });
+    if (
+      !apiKey ||
+      apiKey.revokedAt ||
+      (apiKey.expiresAt && apiKey.expiresAt <= new Date()) ||
+      !timingSafeEqual(
+        Buffer.from(hashSecret(secret)),
+        Buffer.from(apiKey.keyHash)
+      )
+    ) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+    await this._apiKeysRepository.update(apiKey.id, { lastUsedAt: new Date() });
+    return {
+      apiKeyId: apiKey.id,
+      name: apiKey.name,
+      permissions: apiKey.scopes,
+    };
+  }
+
+  private async findActive(id: number): Promise<ApiKey> {
+    const apiKey = await this._apiKeysRepository.findOne({ where: { id } });
+    if (!apiKey || apiKey.revokedAt) {
+      throw new NotFoundException('API key not found');
+    }
+    return apiKey;
+  }
+
+  private generateKey(): { prefix: string; secret: string; key: string } {
+    const prefix = `${KEY_PREFIX}${randomBytes(4).toString('hex')}`;
+    const secret = randomBytes(32).toString('base64url');
+    return { prefix, secret, key: `${prefix}.${secret}` };
+  }
+
+  private withoutHash(apiKey: ApiKey): Omit<ApiKey, 'keyHash'> {
+    // Exclude the key hash from returned object
+    const apiKeyWithoutHash: Omit<ApiKey, 'keyHash'> & { keyHash?: string } = {
+      ...apiKey,
+    };
+    delete apiKeyWithoutHash.keyHash;
+    return apiKeyWithoutHash;
+  }
+}
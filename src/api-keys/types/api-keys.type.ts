@@ -0,0 +1,38 @@
+import 'reflect-metadata';
+import { Transform, Type } from 'class-transformer';
+import {
+  ArrayUnique,
+  IsArray,
+  IsDate,
+  IsEnum,
+  IsOptional,
+  IsString,
+  Length,
+} from 'class-validator';
+import { Permission } from 'src/roles/types/roles.type';
+import { ApiKey } from '../api-keys.entity';
+
+export const API_KEY_HEADER = 'x-api-key';
+
+export class CreateApiKeyDto {
+  @IsString()
+  @Length(1, 100)
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  public readonly name: string;
+
+  @IsArray()
+  @ArrayUnique()
+  @IsEnum(Permission, { each: true })
+  public readonly scopes: Permission[];
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  public readonly expiresAt?: Date;
+}
+
+// The plaintext key is only ever returned here, on creation and rotation
+export type IssuedApiKey = {
+  apiKey: Omit<ApiKey, 'keyHash'>;
+  key: string;
+};
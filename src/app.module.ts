@@ -3,50 +3,48 @@ import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { AuthModule } from './auth/auth.module';
 import { UsersModule } from './users/users.module';
+import { AdminModule } from './admin/admin.module';
+import { HealthModule } from './health/health.module';
+import { MetricsModule } from './metrics/metrics.module';
+import { RequestContextModule } from './request-context/request-context.module';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { User } from './users/users.entity';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { validationSchema } from './config/validationSchema';
-import { ClientsModule, Transport } from '@nestjs/microservices';
+import { getDatabaseOptions } from './database/database.config';
+import { GraphQLModule } from '@nestjs/graphql';
+import { ApolloDriver, ApolloDriverConfig } from '@nestjs/apollo';
+import { Request, Response } from 'express';
 
 @Module({
   imports: [
+    RequestContextModule,
     TypeOrmModule.forRootAsync({
       imports: [ConfigModule],
       useFactory: (configService: ConfigService) => ({
-        type: 'postgres',
-        host: configService.get<string>('DB_HOST'),
-        port: configService.get<number>('DB_PORT'),
-        username: configService.get<string>('DB_USERNAME'),
-        password: configService.get<string>('DB_PASSWORD'),
-        database: configService.get<string>('DB_NAME'),
-        entities: [User],
-        synchronize: true,
+        ...getDatabaseOptions(configService),
+        migrationsRun: configService.get<boolean>('DB_MIGRATIONS_RUN'),
       }),
       inject: [ConfigService],
     }),
-    ClientsModule.register([
-      {
-        name: 'USER_SERVICE',
-        transport: Transport.KAFKA,
-        options: {
-          client: {
-            clientId: 'user',
-            brokers: ['localhost:9092'],
-          },
-          consumer: {
-            groupId: 'user-consumer',
-          },
-        },
-      },
-    ]),
-
     ConfigModule.forRoot({
       isGlobal: true,
       validationSchema: validationSchema,
     }),
+    GraphQLModule.forRoot<ApolloDriverConfig>({
+      driver: ApolloDriver,
+      autoSchemaFile: true,
+      sortSchema: true,
+      // Exposes the HTTP request so guards and decorators work in resolvers
+      context: ({ req, res }: { req: Request; res: Response }) => ({
+        req,
+        res,
+      }),
+    }),
     AuthModule,
     UsersModule,
+    AdminModule,
+    HealthModule,
+    MetricsModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -0,0 +1,45 @@
+import { Entity, Column, PrimaryGeneratedColumn, Index } from 'typeorm';
+import { AuditAction, AuditActorType, AuditOutcome } from './types/audit.type';
+
+// Append-only, entries are never deleted and only updated to erase a user's personal data
+@Entity()
+export class AuditEntry {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column({ type: 'enum', enum: AuditAction })
+  action: AuditAction;
+
+  @Column({ type: 'enum', enum: AuditOutcome })
+  outcome: AuditOutcome;
+
+  @Column({ type: 'enum', enum: AuditActorType })
+  actorType: AuditActorType;
+
+  @Index()
+  @Column({ type: 'int', nullable: true })
+  actorId: number | null;
+
+  @Index()
+  @Column({ type: 'int', nullable: true })
+  targetId: number | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  ipAddress: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  userAgent: string | null;
+
+  @Index()
+  @Column({ type: 'varchar', nullable: true })
+  correlationId: string | null;
+
+  // Action specific context, e.g. the email of a failed login or the new roles
+  @Column({ type: 'jsonb', nullable: true })
+  details: object | null;
+
+  @Index()
+  @Column()
+  createdAt: Date;
+}
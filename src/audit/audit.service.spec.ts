@@ -0,0 +1,112 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { FindOperator } from 'typeorm';
+import { AuditService } from './audit.service';
+import { AuditEntry } from './audit.entity';
+import { AuditAction, AuditActorType, AuditOutcome } from './types/audit.type';
+import { AUDIT_CSV_HEADER, toCsvRow } from './utils/export';
+
+describe('AuditService', () => {
+  let service: AuditService;
+  let entries: AuditEntry[];
+  let repository: Record<string, jest.Mock>;
+
+  const entry = (id: number, overrides = {}): AuditEntry => ({
+    id,
+    action: AuditAction.LOGIN,
+    outcome: AuditOutcome.SUCCESS,
+    actorType: AuditActorType.USER,
+    actorId: 1,
+    targetId: 1,
+    ipAddress: '127.0.0.1',
+    userAgent: 'jest',
+    correlationId: 'correlation',
+    details: null,
+    createdAt: new Date(0),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    entries = [];
+    repository = {
+      create: jest.fn((entry: AuditEntry) => entry),
+      save: jest.fn((entry: AuditEntry) => {
+        entries.push(entry);
+        return Promise.resolve(entry);
+      }),
+      // Emulates the keyset condition of the export
+      find: jest.fn(
+        ({
+          where,
+          take,
+        }: {
+          where: { id: FindOperator<number> };
+          take: number;
+        }) =>
+          Promise.resolve(
+            entries.filter((entry) => entry.id > where.id.value).slice(0, take)
+          )
+      ),
+    };
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditService,
+        { provide: getRepositoryToken(AuditEntry), useValue: repository },
+      ],
+    }).compile();
+
+    service = module.get<AuditService>(AuditService);
+  });
+
+  it('should record anonymous failures with the error as reason', async () => {
+    await service.recordFailure(
+      { action: AuditAction.LOGIN, details: { email: 'kavishka@gmail.com' } },
+      new Error('Invalid email or password provided.')
+    );
+
+    expect(entries[0]).toMatchObject({
+      outcome: AuditOutcome.FAILURE,
+      actorType: AuditActorType.ANONYMOUS,
+      actorId: null,
+      details: {
+        email: 'kavishka@gmail.com',
+        reason: 'Invalid email or password provided.',
+      },
+    });
+  });
+
+  it('should not throw when storing an entry fails', async () => {
+    repository.save.mockRejectedValueOnce(new Error('database down'));
+
+    await expect(
+      service.record({
+        action: AuditAction.DELETE,
+        outcome: AuditOutcome.SUCCESS,
+      })
+    ).resolves.toBeUndefined();
+  });
+
+  it('should export every entry in batches', async () => {
+    entries = Array.from({ length: 1200 }, (_, index) => entry(index + 1));
+
+    const batches: number[] = [];
+    for await (const batch of service.export({})) {
+      batches.push(batch.length);
+    }
+
+    expect(batches).toEqual([500, 500, 200]);
+  });
+
+  it('should escape CSV fields and neutralize formulas', () => {
+    const row = toCsvRow(
+      entry(1, {
+        userAgent: '=HYPERLINK("http://evil")',
+        details: { reason: 'a, b' },
+      })
+    );
+
+    expect(AUDIT_CSV_HEADER.split(',')).toHaveLength(11);
+    expect(row).toContain(`"'=HYPERLINK(""http://evil"")"`);
+    expect(row).toContain('"{""reason"":""a, b""}"');
+  });
+});
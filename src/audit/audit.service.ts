@@ -0,0 +1,192 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  Between,
+  EntityManager,
+  FindOptionsWhere,
+  LessThanOrEqual,
+  MoreThan,
+  MoreThanOrEqual,
+  Repository,
+} from 'typeorm';
+import { AuditEntry } from './audit.entity';
+import {
+  AuditActorType,
+  AuditFiltersDto,
+  AuditOutcome,
+  AuditRecord,
+  ListAuditQueryDto,
+} from './types/audit.type';
+import { Paginated } from 'src/users/types/users.type';
+
+const EXPORT_BATCH_SIZE = 500;
+
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(
+    @InjectRepository(AuditEntry)
+    private _auditRepository: Repository<AuditEntry>
+  ) {}
+
+  /**
+   * Appends an entry to the audit trail. A failing write is logged instead of thrown,
+   * so auditing never breaks the action it records.
+   *
+   * @param {AuditRecord} record - The action, outcome, actor, target, client and details.
+   *
+   * @returns {Promise<void>} Resolves once the entry has been stored or the failure logged.
+   */
+  async record(record: AuditRecord): Promise<void> {
+    try {
+      await this._auditRepository.save(
+        this._auditRepository.create({
+          action: record.action,
+          outcome: record.outcome,
+          actorType:
+            record.actorType ??
+            (record.actorId ? AuditActorType.USER : AuditActorType.ANONYMOUS),
+          actorId: record.actorId ?? null,
+          targetId: record.targetId ?? null,
+          ipAddress: record.client?.ipAddress ?? null,
+          userAgent: record.client?.userAgent ?? null,
+          correlationId: record.client?.correlationId ?? null,
+          details: record.details ?? null,
+          createdAt: new Date(),
+        })
+      );
+    } catch (error) {
+      this.logger.error(
+        `Recording audit entry ${record.action} failed`,
+        error.stack
+      );
+    }
+  }
+
+  /**
+   * Appends a failed action to the audit trail, with the error message as reason.
+   */
+  async recordFailure(
+    record: Omit<AuditRecord, 'outcome'>,
+    error: unknown
+  ): Promise<void> {
+    await this.record({
+      ...record,
+      outcome: AuditOutcome.FAILURE,
+      details: {
+        ...record.details,
+        reason: error instanceof Error ? error.message : String(error),
+      },
+    });
+  }
+
+  /**
+   * Lists audit entries page by page, newest first.
+   *
+   * @param {ListAuditQueryDto} query - The pagination and filter options.
+   *
+   * @returns {Promise<Paginated<AuditEntry>>} Resolves with the requested page.
+   */
+  async findAll(query: ListAuditQueryDto): Promise<Paginated<AuditEntry>> {
+    const [entries, total] = await this._auditRepository.findAndCount({
+      where: this.buildFilters(query),
+      order: { createdAt: 'DESC', id: 'DESC' },
+      skip: (query.page - 1) * query.limit,
+      take: query.limit,
+    });
+    return { data: entries, total, page: query.page, limit: query.limit };
+  }
+
+  /**
+   * Yields every matching entry, oldest first, in batches so exports of any size use
+   * bounded memory.
+   */
+  async *export(filters: AuditFiltersDto): AsyncGenerator<AuditEntry[]> {
+    const where = this.buildFilters(filters);
+    let lastId = 0;
+    for (;;) {
+      const entries = await this._auditRepository.find({
+        where: { ...where, id: MoreThan(lastId) },
+        order: { id: 'ASC' },
+        take: EXPORT_BATCH_SIZE,
+      });
+      if (!entries.length) {
+        return;
+      }
+      yield entries;
+      lastId = entries[entries.length - 1].id;
+    }
+  }
+
+  /**
+   * Lists every entry the user acted in or was the target of, oldest first.
+   */
+  async findForUser(userId: number): Promise<AuditEntry[]> {
+    return await this._auditRepository.find({
+      where: [{ actorId: userId }, { targetId: userId }],
+      order: { id: 'ASC' },
+    });
+  }
+
+  /**
+   * Removes a user's personal data from the trail while keeping the entries: the client
+   * of requests the user made and the email recorded in details, which also finds failed
+   * logins that carry no actor id.
+   *
+   * @param {EntityManager} manager - The entity manager of the erasure transaction.
+   * @param {number} userId - The id of the erased user.
+   * @param {string} email - The email address the user had before the erasure.
+   *
+   * @returns {Promise<void>} Resolves once the entries have been scrubbed.
+   */
+  async anonymizeForUser(
+    manager: EntityManager,
+    userId: number,
+    email: string
+  ): Promise<void> {
+    const recordsEmail = 'details @> :email';
+    const parameters = { userId, email: JSON.stringify({ email }) };
+    await manager
+      .createQueryBuilder()
+      .update(AuditEntry)
+      .set({ ipAddress: null, userAgent: null })
+      .where(`"actorId" = :userId OR ("actorId" IS NULL AND ${recordsEmail})`)
+      .setParameters(parameters)
+      .execute();
+    await manager
+      .createQueryBuilder()
+      .update(AuditEntry)
+      .set({ details: () => "details - 'email'" })
+      .where(`"actorId" = :userId OR "targetId" = :userId OR ${recordsEmail}`)
+      .setParameters(parameters)
+      .execute();
+  }
+
+  private buildFilters(filters: AuditFiltersDto): FindOptionsWhere<AuditEntry> {
+    const where: FindOptionsWhere<AuditEntry> = {};
+    if (filters.action) {
+      where.action = filters.action;
+    }
+    if (filters.outcome) {
+      where.outcome = filters.outcome;
+    }
+    if (filters.actorId !== undefined) {
+      where.actorId = filters.actorId;
+    }
+    if (filters.targetId !== undefined) {
+      where.targetId = filters.targetId;
+    }
+    if (filters.correlationId) {
+      where.correlationId = filters.correlationId;
+    }
+    if (filters.from && filters.to) {
+      where.createdAt = Between(filters.from, filters.to);
+    } else if (filters.from) {
+      where.createdAt = MoreThanOrEqual(filters.from);
+    } else if (filters.to) {
+      where.createdAt = LessThanOrEqual(filters.to);
+    }
+    return where;
+  }
+}
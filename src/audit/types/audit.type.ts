@@ -0,0 +1,106 @@
+import 'reflect-metadata';
+import { Type } from 'class-transformer';
+import {
+  IsDate,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { SessionClient } from 'src/sessions/types/sessions.type';
+
+export enum AuditAction {
+  LOGIN = 'auth.login',
+  MFA_VERIFY = 'auth.mfa-verify',
+  REGISTER = 'auth.register',
+  TOKEN_REFRESH = 'auth.token-refresh',
+  PROFILE_UPDATE = 'user.profile-update',
+  PASSWORD_CHANGE = 'user.password-change',
+  EMAIL_CHANGE = 'user.email-change',
+  DATA_EXPORT = 'user.data-export',
+  ROLE_CHANGE = 'user.role-change',
+  STATUS_CHANGE = 'user.status-change',
+  PASSWORD_RESET_FORCE = 'user.password-reset-force',
+  UNLOCK = 'user.unlock',
+  DELETE = 'user.delete',
+}
+
+export enum AuditOutcome {
+  SUCCESS = 'success',
+  FAILURE = 'failure',
+}
+
+export enum AuditActorType {
+  USER = 'user',
+  ANONYMOUS = 'anonymous',
+  SYSTEM = 'system',
+}
+
+export type AuditRecord = {
+  action: AuditAction;
+  outcome: AuditOutcome;
+  // Defaults to a user actor when an actor id is given, anonymous otherwise
+  actorType?: AuditActorType;
+  actorId?: number | null;
+  targetId?: number | null;
+  client?: SessionClient;
+  details?: object;
+};
+
+export class AuditFiltersDto {
+  @IsOptional()
+  @IsEnum(AuditAction)
+  public readonly action?: AuditAction;
+
+  @IsOptional()
+  @IsEnum(AuditOutcome)
+  public readonly outcome?: AuditOutcome;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  public readonly actorId?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  public readonly targetId?: number;
+
+  @IsOptional()
+  @IsString()
+  public readonly correlationId?: string;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  public readonly from?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  public readonly to?: Date;
+}
+
+export class ListAuditQueryDto extends AuditFiltersDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  public readonly page: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  public readonly limit: number = 50;
+}
+
+export class ExportAuditQueryDto extends AuditFiltersDto {
+  @IsOptional()
+  @IsIn(['csv', 'ndjson'])
+  public readonly format: 'csv' | 'ndjson' = 'ndjson';
+}
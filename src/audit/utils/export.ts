@@ -0,0 +1,42 @@
+import { AuditEntry } from '../audit.entity';
+
+const CSV_COLUMNS: (keyof AuditEntry)[] = [
+  'id',
+  'createdAt',
+  'action',
+  'outcome',
+  'actorType',
+  'actorId',
+  'targetId',
+  'ipAddress',
+  'userAgent',
+  'correlationId',
+  'details',
+];
+
+const toCsvField = (
+  value: string | number | boolean | Date | object | null | undefined
+): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  let text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value);
+  // Keeps spreadsheets from evaluating user controlled values such as user agents
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const AUDIT_CSV_HEADER = `${CSV_COLUMNS.join(',')}\n`;
+
+export const toCsvRow = (entry: AuditEntry): string =>
+  `${CSV_COLUMNS.map((column) => toCsvField(entry[column])).join(',')}\n`;
+
+export const toNdjsonRow = (entry: AuditEntry): string =>
+  `${JSON.stringify(entry)}\n`;
@@ -0,0 +1,96 @@
+import { Test } from '@nestjs/testing';
+import { INestMicroservice, UnauthorizedException } from '@nestjs/common';
+import { lastValueFrom } from 'rxjs';
+import { AuthController } from './auth.controller';
+import { AuthService } from './auth.service';
+import { ApiKeysService } from 'src/api-keys/api-keys.service';
+import { Permission } from 'src/roles/types/roles.type';
+import {
+  InProcessBroker,
+  InProcessClient,
+  InProcessServer,
+} from '../../test/helpers/in-process.transport';
+
+describe('AuthController messages', () => {
+  let app: INestMicroservice;
+  let client: InProcessClient;
+  let authService: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    authService = {
+      validateAccessToken: jest.fn(() => Promise.resolve({ valid: false })),
+    };
+    const apiKeysService = {
+      authenticate: jest.fn((key: string) => {
+        const scopes: Record<string, Permission[]> = {
+          'usk_gateway.secret': [Permission.TOKENS_INTROSPECT_ANY],
+          'usk_reader.secret': [Permission.USERS_READ_ANY],
+        };
+        if (!scopes[key]) {
+          return Promise.reject(new UnauthorizedException('Invalid API key'));
+        }
+        return Promise.resolve({
+          apiKeyId: 1,
+          name: 'gateway',
+          permissions: scopes[key],
+        });
+      }),
+    };
+    const module = await Test.createTestingModule({
+      controllers: [AuthController],
+      providers: [
+        { provide: AuthService, useValue: authService },
+        { provide: ApiKeysService, useValue: apiKeysService },
+      ],
+    }).compile();
+
+    const broker = new InProcessBroker();
+    app = module.createNestMicroservice({
+      strategy: new InProcessServer(broker),
+      logger: false,
+    });
+    await app.listen();
+    client = new InProcessClient(broker);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const validate = (key?: string) =>
+    lastValueFrom(
+      client.send('user.validate-token', {
+        headers: key ? { 'x-api-key': key } : {},
+        value: { token: 'access-token' },
+      })
+    );
+
+  it('should validate tokens for services with the introspection scope', async () => {
+    await expect(validate('usk_gateway.secret')).resolves.toEqual({
+      valid: false,
+    });
+    expect(authService.validateAccessToken).toHaveBeenCalledWith(
+      'access-token'
+    );
+  });
+
+  it('should reject messages without a valid API key', async () => {
+    await expect(validate()).rejects.toEqual({
+      status: 'error',
+      statusCode: 401,
+      message: 'Invalid API key',
+    });
+    await expect(validate('usk_unknown.secret')).rejects.toMatchObject({
+      statusCode: 401,
+    });
+    expect(authService.validateAccessToken).not.toHaveBeenCalled();
+  });
+
+  it('should reject API keys without the tokens:introspect:any scope', async () => {
+    await expect(validate('usk_reader.secret')).rejects.toMatchObject({
+      status: 'error',
+      statusCode: 403,
+    });
+    expect(authService.validateAccessToken).not.toHaveBeenCalled();
+  });
+});
@@ -1,30 +1,64 @@
 import {
   Body,
   Controller,
+  Delete,
   Get,
   HttpCode,
   HttpStatus,
   Logger,
+  Param,
+  ParseUUIDPipe,
   Post,
-  Request,
+  Res,
+  UseFilters,
   UseGuards,
   ValidationPipe,
 } from '@nestjs/common';
 import { AuthService } from './auth.service';
 import { JwtAuthGuard } from './guard/jwt-auth.guard';
 import { RefreshAuthGuard } from './guard/refresh-auth.guard';
-import { Request as Req } from 'express';
+import { Response } from 'express';
 import { ApiBody } from '@nestjs/swagger';
 import {
   SignInSwagger,
+  ChangeEmailSwagger,
+  ChangePasswordSwagger,
+  ConfirmEmailChangeSwagger,
+  ConfirmTotpSwagger,
+  ForgotPasswordSwagger,
+  ResendVerificationSwagger,
+  ResetPasswordSwagger,
   SignUpSwagger,
   UserResponseDto,
+  VerifyEmailSwagger,
+  VerifyMfaSwagger,
 } from 'src/swagger/auth.swagger';
-import { RefreshTokenDto, SignInDto, SignUpDto } from './types/auth.type';
-import { Roles } from './roles.decorator';
-import { Role } from 'src/users/types/users.type';
-import { RolesGuard } from './guard/roles.guard';
+import {
+  AuthUser,
+  ChangeEmailDto,
+  ChangePasswordDto,
+  ConfirmEmailChangeDto,
+  ConfirmTotpDto,
+  ForgotPasswordDto,
+  RefreshUser,
+  ResendVerificationDto,
+  ResetPasswordDto,
+  SignInDto,
+  SignUpDto,
+  TokenValidationResult,
+  ValidateTokenDto,
+  VerifyEmailDto,
+  VerifyMfaDto,
+} from './types/auth.type';
+import { RequirePermissions } from './permissions.decorator';
+import { Permission } from 'src/roles/types/roles.type';
+import { PermissionsGuard } from './guard/permissions.guard';
 import { MessagePattern, Payload } from '@nestjs/microservices';
+import { ClientInfo, User } from './auth.decorator';
+import { SessionClient } from 'src/sessions/types/sessions.type';
+import { setRetryAfter } from './utils/retry-after';
+import { RpcApiKeyAuthGuard } from './guard/rpc-api-key-auth.guard';
+import { RpcHttpExceptionFilter } from 'src/kafka/filters/rpc-http-exception.filter';
 
 @Controller('/')
 export class AuthController {
@@ -39,16 +73,27 @@ export class AuthController {
    * authentication to the underlying service. Handles error logging and propagates exceptions.
    *
    * @param {SignInDto} signInDto - The data transfer object containing the user's email and password.
+   * @param {SessionClient} client - The user agent and IP address of the caller, stored on the session.
+   * @param {Response} res - The response, used to set `Retry-After` when the attempt is throttled.
    *
    * @returns {Promise<any>} Resolves with the authentication result, which may include tokens or user details.
    *
    * @throws {Error} Throws if authentication fails or an unexpected error occurs during sign-in.
    */
-  async signIn(@Body(new ValidationPipe()) signInDto: SignInDto) {
+  async signIn(
+    @Body(new ValidationPipe()) signInDto: SignInDto,
+    @ClientInfo() client: SessionClient,
+    @Res({ passthrough: true }) res: Response
+  ) {
     this.logger.log(`Signing in user: ${signInDto.email}`);
     try {
-      return await this.authService.signIn(signInDto.email, signInDto.password);
+      return await this.authService.signIn(
+        signInDto.email,
+        signInDto.password,
+        client
+      );
     } catch (error) {
+      setRetryAfter(res, error);
       this.logger.error(
         `Sign in failed for user: ${signInDto.email}`,
         error.stack
@@ -65,15 +110,23 @@ export class AuthController {
    * registration to the underlying service. Handles error logging and propagates exceptions.
    *
    * @param {SignUpDto} signUpDto - The data transfer object containing the user's email and password.
+   * @param {SessionClient} client - The user agent and IP address of the caller, stored on the session.
    *
    * @returns {Promise<any>} Resolves with the registration result, which may include tokens or user details.
    *
    * @throws {Error} Throws if registration fails or an unexpected error occurs during sign-up.
    */
-  async signUp(@Body(new ValidationPipe()) signUpDto: SignUpDto) {
+  async signUp(
+    @Body(new ValidationPipe()) signUpDto: SignUpDto,
+    @ClientInfo() client: SessionClient
+  ) {
     this.logger.log(`Signing up user: ${signUpDto.email}`);
     try {
-      return await this.authService.signUp(signUpDto.email, signUpDto.password);
+      return await this.authService.signUp(
+        signUpDto.email,
+        signUpDto.password,
+        client
+      );
     } catch (error) {
       this.logger.error(
         `Sign up failed for user: ${signUpDto.email}`,
@@ -83,56 +136,557 @@ export class AuthController {
     }
   }
 
+  @HttpCode(HttpStatus.OK)
+  @Post('account/restore')
+  @ApiBody({ type: SignInSwagger })
+  /**
+   * Restores an account that was deleted by its owner, while the deletion grace period lasts.
+   *
+   * @param {SignInDto} signInDto - The data transfer object containing the account's email and password.
+   * @param {SessionClient} client - The user agent and IP address of the caller.
+   * @param {Response} res - The response, used to set `Retry-After` when the attempt is throttled.
+   *
+   * @returns {Promise<any>} Resolves with a confirmation message.
+   *
+   * @throws {UnauthorizedException} Throws if no restorable account matches the credentials.
+   */
+  async restoreAccount(
+    @Body(new ValidationPipe()) signInDto: SignInDto,
+    @ClientInfo() client: SessionClient,
+    @Res({ passthrough: true }) res: Response
+  ) {
+    this.logger.log(`Restoring account: ${signInDto.email}`);
+    try {
+      await this.authService.restoreAccount(
+        signInDto.email,
+        signInDto.password,
+        client
+      );
+      return { message: 'Account restored successfully' };
+    } catch (error) {
+      setRetryAfter(res, error);
+      this.logger.error(
+        `Restoring account failed for: ${signInDto.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('mfa/verify')
+  @ApiBody({ type: VerifyMfaSwagger })
+  /**
+   * Completes a sign-in that requires MFA by exchanging the MFA token and a second factor for tokens.
+   *
+   * @param {VerifyMfaDto} verifyMfaDto - The data transfer object containing the MFA token and the code.
+   * @param {SessionClient} client - The user agent and IP address of the caller, stored on the session.
+   * @param {Response} res - The response, used to set `Retry-After` when the attempt is throttled.
+   *
+   * @returns {Promise<any>} Resolves with the access and refresh tokens.
+   *
+   * @throws {UnauthorizedException} Throws if the MFA token or the code is invalid.
+   */
+  async verifyMfa(
+    @Body(new ValidationPipe()) verifyMfaDto: VerifyMfaDto,
+    @ClientInfo() client: SessionClient,
+    @Res({ passthrough: true }) res: Response
+  ) {
+    this.logger.log('Verifying MFA code');
+    try {
+      return await this.authService.verifyMfa(
+        verifyMfaDto.mfa_token,
+        verifyMfaDto.code,
+        client
+      );
+    } catch (error) {
+      setRetryAfter(res, error);
+      this.logger.error('MFA verification failed', error.stack);
+      throw error;
+    }
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @Post('mfa/totp/setup')
+  /**
+   * Starts TOTP enrollment and returns the secret and otpauth URI for the authenticator app.
+   *
+   * @param {AuthUser} user - The authenticated user.
+   *
+   * @returns {Promise<any>} Resolves with the secret and the otpauth URI.
+   *
+   * @throws {ConflictException} Throws if MFA is already enabled.
+   */
+  async setupTotp(@User() user: AuthUser) {
+    this.logger.log(`Starting TOTP setup for user: ${user.email}`);
+    try {
+      return await this.authService.setupTotp(user);
+    } catch (error) {
+      this.logger.error(
+        `Starting TOTP setup failed for user: ${user.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @Post('mfa/totp/confirm')
+  @ApiBody({ type: ConfirmTotpSwagger })
+  /**
+   * Confirms TOTP enrollment with a code from the authenticator app and returns the recovery codes.
+   *
+   * @param {ConfirmTotpDto} confirmTotpDto - The data transfer object containing the code.
+   * @param {AuthUser} user - The authenticated user.
+   *
+   * @returns {Promise<any>} Resolves with the one-time recovery codes.
+   *
+   * @throws {BadRequestException} Throws if the code is wrong.
+   */
+  async confirmTotp(
+    @Body(new ValidationPipe()) confirmTotpDto: ConfirmTotpDto,
+    @User() user: AuthUser
+  ) {
+    this.logger.log(`Confirming TOTP setup for user: ${user.email}`);
+    try {
+      return await this.authService.confirmTotp(user, confirmTotpDto.code);
+    } catch (error) {
+      this.logger.error(
+        `Confirming TOTP setup failed for user: ${user.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('verify-email')
+  @ApiBody({ type: VerifyEmailSwagger })
+  /**
+   * Verifies the email address of a user with the token from the emailed link.
+   *
+   * @param {VerifyEmailDto} verifyEmailDto - The data transfer object containing the verification token.
+   *
+   * @returns {Promise<any>} Resolves with a confirmation message.
+   *
+   * @throws {BadRequestException} Throws if the token is invalid or expired.
+   */
+  async verifyEmail(
+    @Body(new ValidationPipe()) verifyEmailDto: VerifyEmailDto
+  ) {
+    this.logger.log('Verifying email address');
+    try {
+      await this.authService.verifyEmail(verifyEmailDto.token);
+      return { message: 'Email verified successfully' };
+    } catch (error) {
+      this.logger.error('Email verification failed', error.stack);
+      throw error;
+    }
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('verify-email/resend')
+  @ApiBody({ type: ResendVerificationSwagger })
+  /**
+   * Sends a new verification link. Always answers with the same message so the
+   * response does not reveal whether the email is registered.
+   *
+   * @param {ResendVerificationDto} resendVerificationDto - The data transfer object containing the email.
+   *
+   * @returns {Promise<any>} Resolves with a confirmation message.
+   *
+   * @throws {Error} Throws if an unexpected error occurs.
+   */
+  async resendVerificationEmail(
+    @Body(new ValidationPipe()) resendVerificationDto: ResendVerificationDto
+  ) {
+    this.logger.log(
+      `Resending verification email for: ${resendVerificationDto.email}`
+    );
+    try {
+      await this.authService.resendVerificationEmail(
+        resendVerificationDto.email
+      );
+      return {
+        message:
+          'If the email is registered and not verified yet, a new link has been sent',
+      };
+    } catch (error) {
+      this.logger.error(
+        `Resending verification email failed for: ${resendVerificationDto.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('password/forgot')
+  @ApiBody({ type: ForgotPasswordSwagger })
+  /**
+   * Sends a password reset link. Always answers with the same message so the
+   * response does not reveal whether the email is registered.
+   *
+   * @param {ForgotPasswordDto} forgotPasswordDto - The data transfer object containing the email.
+   *
+   * @returns {Promise<any>} Resolves with a confirmation message.
+   *
+   * @throws {Error} Throws if an unexpected error occurs.
+   */
+  async forgotPassword(
+    @Body(new ValidationPipe()) forgotPasswordDto: ForgotPasswordDto
+  ) {
+    this.logger.log(`Password reset requested for: ${forgotPasswordDto.email}`);
+    try {
+      await this.authService.forgotPassword(forgotPasswordDto.email);
+      return {
+        message:
+          'If the email is registered, a password reset link has been sent',
+      };
+    } catch (error) {
+      this.logger.error(
+        `Password reset request failed for: ${forgotPasswordDto.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('password/reset')
+  @ApiBody({ type: ResetPasswordSwagger })
+  /**
+   * Sets a new password using the token from a password reset link.
+   *
+   * @param {ResetPasswordDto} resetPasswordDto - The data transfer object containing the token and the new password.
+   *
+   * @returns {Promise<any>} Resolves with a confirmation message.
+   *
+   * @throws {BadRequestException} Throws if the token is invalid, expired or already used.
+   */
+  async resetPassword(
+    @Body(new ValidationPipe()) resetPasswordDto: ResetPasswordDto
+  ) {
+    this.logger.log('Resetting password');
+    try {
+      await this.authService.resetPassword(
+        resetPasswordDto.token,
+        resetPasswordDto.password
+      );
+      return { message: 'Password reset successfully' };
+    } catch (error) {
+      this.logger.error('Password reset failed', error.stack);
+      throw error;
+    }
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions(Permission.USERS_UPDATE_SELF)
+  @UseGuards(PermissionsGuard)
+  @UseGuards(JwtAuthGuard)
+  @Post('users/me/password')
+  @ApiBody({ type: ChangePasswordSwagger })
+  /**
+   * Changes the password of the authenticated user. Every other session is signed out.
+   *
+   * @param {ChangePasswordDto} changePasswordDto - The data transfer object containing the current and the new password.
+   * @param {AuthUser} user - The authenticated user.
+   * @param {SessionClient} client - The user agent and IP address of the caller.
+   * @param {Response} res - The response, used to set `Retry-After` when the attempt is throttled.
+   *
+   * @returns {Promise<any>} Resolves with a confirmation message.
+   *
+   * @throws {BadRequestException} Throws if the current password is wrong or the new one violates the password policy.
+   */
+  async changePassword(
+    @Body(new ValidationPipe()) changePasswordDto: ChangePasswordDto,
+    @User() user: AuthUser,
+    @ClientInfo() client: SessionClient,
+    @Res({ passthrough: true }) res: Response
+  ) {
+    this.logger.log(`Changing password for user: ${user.email}`);
+    try {
+      await this.authService.changePassword(
+        user,
+        changePasswordDto.currentPassword,
+        changePasswordDto.newPassword,
+        client
+      );
+      return { message: 'Password changed successfully' };
+    } catch (error) {
+      setRetryAfter(res, error);
+      this.logger.error(
+        `Changing password failed for user: ${user.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @HttpCode(HttpStatus.ACCEPTED)
+  @RequirePermissions(Permission.USERS_UPDATE_SELF)
+  @UseGuards(PermissionsGuard)
+  @UseGuards(JwtAuthGuard)
+  @Post('users/me/email')
+  @ApiBody({ type: ChangeEmailSwagger })
+  /**
+   * Sends a confirmation link to the new email address of the authenticated user.
+   * The email changes once the link has been followed.
+   *
+   * @param {ChangeEmailDto} changeEmailDto - The data transfer object containing the new email and the current password.
+   * @param {AuthUser} user - The authenticated user.
+   * @param {SessionClient} client - The user agent and IP address of the caller.
+   * @param {Response} res - The response, used to set `Retry-After` when the attempt is throttled.
+   *
+   * @returns {Promise<any>} Resolves with a confirmation message.
+   *
+   * @throws {BadRequestException} Throws if the current password is wrong.
+   * @throws {ConflictException} Throws if the email belongs to another account.
+   */
+  async requestEmailChange(
+    @Body(new ValidationPipe()) changeEmailDto: ChangeEmailDto,
+    @User() user: AuthUser,
+    @ClientInfo() client: SessionClient,
+    @Res({ passthrough: true }) res: Response
+  ) {
+    this.logger.log(`Requesting email change for user: ${user.email}`);
+    try {
+      await this.authService.requestEmailChange(
+        user,
+        changeEmailDto.email,
+        changeEmailDto.currentPassword,
+        client
+      );
+      return {
+        message: 'A confirmation link has been sent to the new email address',
+      };
+    } catch (error) {
+      setRetryAfter(res, error);
+      this.logger.error(
+        `Requesting email change failed for user: ${user.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('users/me/email/confirm')
+  @ApiBody({ type: ConfirmEmailChangeSwagger })
+  /**
+   * Confirms an email change with the token from the emailed link. The token identifies
+   * the user, so the link also works in a browser that is not signed in.
+   *
+   * @param {ConfirmEmailChangeDto} confirmEmailChangeDto - The data transfer object containing the confirmation token.
+   * @param {SessionClient} client - The user agent and IP address of the caller.
+   *
+   * @returns {Promise<any>} Resolves with a confirmation message.
+   *
+   * @throws {BadRequestException} Throws if the token is invalid, expired or already used.
+   */
+  async confirmEmailChange(
+    @Body(new ValidationPipe()) confirmEmailChangeDto: ConfirmEmailChangeDto,
+    @ClientInfo() client: SessionClient
+  ) {
+    this.logger.log('Confirming email change');
+    try {
+      await this.authService.confirmEmailChange(
+        confirmEmailChangeDto.token,
+        client
+      );
+      return { message: 'Email changed successfully' };
+    } catch (error) {
+      this.logger.error('Confirming email change failed', error.stack);
+      throw error;
+    }
+  }
+
   @HttpCode(HttpStatus.OK)
   @UseGuards(RefreshAuthGuard)
   @Post('refresh')
-  @ApiBody({ type: RefreshTokenDto })
   /**
-   * Refreshes the access token for the user with the given email.
+   * Rotates the refresh token sent as bearer token and issues a new token pair
+   * for the session it belongs to.
+   *
+   * @param {RefreshUser} refreshUser - The claims of the verified refresh token.
+   * @param {SessionClient} client - The user agent and IP address of the caller.
+   *
+   * @returns {Promise<any>} Resolves with the new access and refresh tokens.
+   *
+   * @throws {Error} Throws if the token was revoked, reused or an unexpected error occurs.
+   */
+  async getRefreshToken(
+    @User() refreshUser: RefreshUser,
+    @ClientInfo() client: SessionClient
+  ) {
+    this.logger.log(`Refreshing token for session: ${refreshUser.sessionId}`);
+    try {
+      return await this.authService.refreshTokens(refreshUser, client);
+    } catch (error) {
+      this.logger.error(
+        `Token refresh failed for session: ${refreshUser.sessionId}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @Post('logout')
+  /**
+   * Revokes the session the access token belongs to.
+   *
+   * @param {AuthUser} user - The authenticated user.
+   *
+   * @returns {Promise<any>} Resolves with a confirmation message.
+   *
+   * @throws {Error} Throws if revoking the session fails.
+   */
+  async logout(@User() user: AuthUser) {
+    this.logger.log(`Logging out user: ${user.email}`);
+    try {
+      await this.authService.logout(user);
+      return { message: 'Logged out successfully' };
+    } catch (error) {
+      this.logger.error(`Logout failed for user: ${user.email}`, error.stack);
+      throw error;
+    }
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @Post('logout-all')
+  /**
+   * Revokes every session of the authenticated user.
    *
-   * @param {Request} req - The request object containing the user's email.
+   * @param {AuthUser} user - The authenticated user.
    *
-   * @returns {Promise<any>} Resolves with the new access token.
+   * @returns {Promise<any>} Resolves with a confirmation message.
    *
-   * @throws {Error} Throws if token refresh fails or an unexpected error occurs.
+   * @throws {Error} Throws if revoking the sessions fails.
    */
-  async getRefreshToken(@Body() refreshTokenDto: RefreshTokenDto) {
-    this.logger.log(`Refreshing token for user: ${refreshTokenDto.email}`);
+  async logoutAll(@User() user: AuthUser) {
+    this.logger.log(`Logging out all sessions for user: ${user.email}`);
     try {
-      return await this.authService.generateAccessToken(refreshTokenDto);
+      await this.authService.logoutAll(user);
+      return { message: 'Logged out from all sessions successfully' };
     } catch (error) {
       this.logger.error(
-        `Token refresh failed for user: ${refreshTokenDto.email}`,
+        `Logout from all sessions failed for user: ${user.email}`,
         error.stack
       );
       throw error;
     }
   }
 
-  @Roles(Role.USER, Role.ADMIN)
-  @UseGuards(RolesGuard)
+  @UseGuards(JwtAuthGuard)
+  @Get('sessions')
+  /**
+   * Lists the sessions the authenticated user is signed in with. The session the
+   * request was made with is flagged with `current: true`.
+   *
+   * @param {AuthUser} user - The authenticated user.
+   *
+   * @returns {Promise<any>} Resolves with the active sessions of the user.
+   *
+   * @throws {Error} Throws if fetching the sessions fails.
+   */
+  async getSessions(@User() user: AuthUser) {
+    this.logger.log(`Fetching sessions for user: ${user.email}`);
+    try {
+      return await this.authService.listSessions(user);
+    } catch (error) {
+      this.logger.error(
+        `Fetching sessions failed for user: ${user.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Delete('sessions/:id')
+  /**
+   * Revokes one of the authenticated user's sessions.
+   *
+   * @param {string} id - The id of the session to revoke.
+   * @param {AuthUser} user - The authenticated user.
+   *
+   * @returns {Promise<any>} Resolves with a confirmation message.
+   *
+   * @throws {NotFoundException} Throws if the session does not belong to the user.
+   */
+  async revokeSession(
+    @Param('id', ParseUUIDPipe) id: string,
+    @User() user: AuthUser
+  ) {
+    this.logger.log(`Revoking session ${id} for user: ${user.email}`);
+    try {
+      await this.authService.revokeSession(user, id);
+      return { message: 'Session revoked successfully' };
+    } catch (error) {
+      this.logger.error(
+        `Revoking session ${id} failed for user: ${user.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @RequirePermissions(Permission.USERS_READ_SELF)
+  @UseGuards(PermissionsGuard)
   @UseGuards(JwtAuthGuard)
   @Get('profile')
   @ApiBody({ type: UserResponseDto })
   /**
    * Retrieves the profile information for the authenticated user.
    *
-   * @param {Request} req - The request object containing the user's information.
+   * @param {AuthUser} user - The authenticated user.
    *
    * @returns {Promise<any>} Resolves with the user's profile information.
    *
    * @throws {Error} Throws if fetching the profile fails or an unexpected error occurs.
    */
-  async getProfile(@Request() req: Req) {
-    this.logger.log(`Fetching profile for user: ${req.user}`);
+  async getProfile(@User() user: AuthUser) {
+    this.logger.log(`Fetching profile for user: ${user.userId}`);
     try {
-      return req.user;
+      return user;
     } catch (error) {
       this.logger.error(
-        `Fetching profile failed for user: ${req.user}`,
+        `Fetching profile failed for user: ${user.userId}`,
         error.stack
       );
       throw error;
     }
   }
+
+  @UseFilters(RpcHttpExceptionFilter)
+  @RequirePermissions(Permission.TOKENS_INTROSPECT_ANY)
+  @UseGuards(RpcApiKeyAuthGuard)
+  @MessagePattern('user.validate-token')
+  /**
+   * Validates an access token for other services, so they do not need the signing secret.
+   * Callers send an API key with the `tokens:introspect:any` scope in the `x-api-key`
+   * message header.
+   *
+   * @param {ValidateTokenDto} validateTokenDto - The message containing the access token.
+   *
+   * @returns {Promise<TokenValidationResult>} Resolves with the user and session, or `{ valid: false }`.
+   *
+   * @throws {UnauthorizedException} Replies with a 401 error if the API key is missing or invalid.
+   * @throws {ForbiddenException} Replies with a 403 error if the API key lacks the scope.
+   */
+  async validateToken(
+    @Payload(new ValidationPipe()) validateTokenDto: ValidateTokenDto
+  ): Promise<TokenValidationResult> {
+    try {
+      return await this.authService.validateAccessToken(validateTokenDto.token);
+    } catch (error) {
+      this.logger.error('Token validation failed', error.stack);
+      throw error;
+    }
+  }
 }
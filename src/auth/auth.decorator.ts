@@ -1,8 +1,23 @@
 import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { SessionClient } from 'src/sessions/types/sessions.type';
+import { getRequest } from './utils/request';
+import { getRequestId } from 'src/request-context/request-context';
 
 export const User = createParamDecorator(
   (data: unknown, ctx: ExecutionContext) => {
-    const request = ctx.switchToHttp().getRequest();
+    const request = getRequest(ctx);
     return request.user; // 👈 JWT payload
   }
 );
+
+export const ClientInfo = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext): SessionClient => {
+    const request = getRequest(ctx);
+    return {
+      userAgent: request.headers['user-agent'],
+      ipAddress: request.ip,
+      correlationId: getRequestId() ?? randomUUID(),
+    };
+  }
+);
@@ -2,31 +2,59 @@ import { Module } from '@nestjs/common';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
 import { UsersModule } from 'src/users/users.module';
-import { JwtModule } from '@nestjs/jwt';
+import { JwtModule, JwtSignOptions } from '@nestjs/jwt';
 
 import { PassportModule } from '@nestjs/passport';
 import { JwtStrategy } from './strategy/jwt.strategy';
 import { RefreshStrategy } from './strategy/refresh.strategy';
 import { ConfigService } from '@nestjs/config';
-import { KafkaModule } from 'src/kafka/kafka.module';
+import { SessionsModule } from 'src/sessions/sessions.module';
+import { MailModule } from 'src/mail/mail.module';
+import { PasswordResetsModule } from 'src/password-resets/password-resets.module';
+import { LoginAttemptsModule } from 'src/login-attempts/login-attempts.module';
+import { MfaModule } from 'src/mfa/mfa.module';
+import { AuthResolver } from './auth.resolver';
+import { RolesModule } from 'src/roles/roles.module';
+import { AuditModule } from 'src/audit/audit.module';
+import { SigningKeysModule } from 'src/signing-keys/signing-keys.module';
+import { WellKnownController } from './well-known.controller';
+import { RevokedTokensModule } from 'src/revoked-tokens/revoked-tokens.module';
+import { ApiKeysModule } from 'src/api-keys/api-keys.module';
+import { OAuthController } from './oauth.controller';
+import { PasswordPolicyModule } from 'src/password-policy/password-policy.module';
+import { MetricsModule } from 'src/metrics/metrics.module';
 
 @Module({
   imports: [
     UsersModule,
+    SessionsModule,
+    MailModule,
+    PasswordResetsModule,
+    LoginAttemptsModule,
+    MfaModule,
+    RolesModule,
+    AuditModule,
+    SigningKeysModule,
+    RevokedTokensModule,
+    ApiKeysModule,
+    PasswordPolicyModule,
+    MetricsModule,
     PassportModule,
-    KafkaModule,
     JwtModule.registerAsync({
       imports: [],
       inject: [ConfigService],
+      // Access tokens are signed with the keys of SigningKeysService, other tokens pass their own secret
       useFactory: async (configService: ConfigService) => ({
-        secret: configService.get<string>('JWT_SECRET') ?? '',
         signOptions: {
-          expiresIn: configService.get<string>('JWT_EXPIRE') ?? '1h',
+          expiresIn:
+            configService.get<JwtSignOptions['expiresIn']>('JWT_EXPIRE') ??
+            '1h',
         },
       }),
     }),
   ],
-  controllers: [AuthController],
-  providers: [AuthService, JwtStrategy, RefreshStrategy],
+  controllers: [AuthController, WellKnownController, OAuthController],
+  providers: [AuthService, AuthResolver, JwtStrategy, RefreshStrategy],
+  exports: [AuthService],
 })
 export class AuthModule {}
@@ -0,0 +1,119 @@
+import { Test } from '@nestjs/testing';
+import { INestApplication, UnauthorizedException } from '@nestjs/common';
+import { App } from 'supertest/types';
+import { AuthResolver } from './auth.resolver';
+import { AuthService } from './auth.service';
+import { JwtPayload } from './types/auth.type';
+import { UsersResolver } from 'src/users/users.resolver';
+import { UsersService } from 'src/users/users.service';
+import { Role } from 'src/users/types/users.type';
+import { DEFAULT_ROLE_PERMISSIONS } from 'src/roles/types/roles.type';
+import { TooManyLoginAttemptsException } from 'src/login-attempts/exceptions/too-many-login-attempts.exception';
+import {
+  graphql,
+  TestAccessTokens,
+  TestGraphQLModule,
+} from '../../test/helpers/graphql';
+
+describe('AuthResolver', () => {
+  let app: INestApplication<App>;
+  let authService: Record<string, jest.Mock>;
+  const tokens = new TestAccessTokens();
+
+  const changePassword = `mutation ($input: ChangePasswordInput!) {
+    changePassword(input: $input)
+  }`;
+  const passwords = {
+    input: { currentPassword: 'old-password', newPassword: 'new-password' },
+  };
+
+  beforeEach(async () => {
+    authService = {
+      validateUserRole: jest.fn((payload: JwtPayload) => {
+        if (payload.sid !== 'session-1') {
+          return Promise.reject(
+            new UnauthorizedException('Unauthorized access.')
+          );
+        }
+        return Promise.resolve({
+          userId: payload.sub,
+          email: payload.email,
+          roles: payload.roles,
+          permissions: payload.roles.flatMap(
+            (role) => DEFAULT_ROLE_PERMISSIONS[role as Role]
+          ),
+          sessionId: payload.sid,
+        });
+      }),
+      changePassword: jest.fn(() => Promise.resolve()),
+      signIn: jest.fn(() =>
+        Promise.reject(new TooManyLoginAttemptsException(120))
+      ),
+    };
+    const module = await Test.createTestingModule({
+      imports: [TestGraphQLModule],
+      providers: [
+        AuthResolver,
+        // The schema needs a query type, which only the users resolver defines
+        UsersResolver,
+        ...tokens.providers,
+        { provide: AuthService, useValue: authService },
+        { provide: UsersService, useValue: {} },
+      ],
+    }).compile();
+
+    app = module.createNestApplication({ logger: false });
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should change the password of the authenticated user', async () => {
+    const token = tokens.sign({
+      sub: 1,
+      email: 'kavishka@gmail.com',
+      roles: [Role.USER],
+      sid: 'session-1',
+    });
+
+    const res = await graphql(app, changePassword, passwords, token);
+
+    expect(res.body).toEqual({ data: { changePassword: true } });
+    expect(authService.changePassword).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 1, sessionId: 'session-1' }),
+      'old-password',
+      'new-password',
+      expect.anything()
+    );
+  });
+
+  it('should reject password changes without a valid access token', async () => {
+    const res = await graphql(app, changePassword, passwords);
+
+    expect(res.body.data).toBeNull();
+    expect(res.body.errors?.[0].extensions.code).toBe('UNAUTHENTICATED');
+    expect(authService.validateUserRole).not.toHaveBeenCalled();
+    expect(authService.changePassword).not.toHaveBeenCalled();
+  });
+
+  it('should tell throttled clients when to retry a login', async () => {
+    const res = await graphql(
+      app,
+      `
+        mutation ($input: CredentialsInput!) {
+          login(input: $input) {
+            accessToken
+          }
+        }
+      `,
+      { input: { email: 'kavishka@gmail.com', password: 'password' } }
+    );
+
+    expect(res.headers['retry-after']).toBe('120');
+    expect(res.body.errors?.[0].message).toBe(
+      'Too many failed login attempts. Please try again later.'
+    );
+  });
+});
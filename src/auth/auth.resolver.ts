@@ -0,0 +1,210 @@
+import { Logger, UseGuards, ValidationPipe } from '@nestjs/common';
+import { Args, Context, Mutation, Resolver } from '@nestjs/graphql';
+import { Response } from 'express';
+import { AuthService } from './auth.service';
+import { ClientInfo, User } from './auth.decorator';
+import { SessionClient } from 'src/sessions/types/sessions.type';
+import {
+  AuthPayload,
+  ChangeEmailInput,
+  ChangePasswordInput,
+  CredentialsInput,
+} from 'src/graphql/auth.graphql';
+import {
+  AuthTokens,
+  AuthUser,
+  SignInResult,
+  SignUpResult,
+} from './types/auth.type';
+import { RequirePermissions } from './permissions.decorator';
+import { PermissionsGuard } from './guard/permissions.guard';
+import { JwtAuthGuard } from './guard/jwt-auth.guard';
+import { Permission } from 'src/roles/types/roles.type';
+import { setRetryAfter } from './utils/retry-after';
+
+@Resolver()
+export class AuthResolver {
+  private readonly logger = new Logger(AuthResolver.name);
+  constructor(private authService: AuthService) {}
+
+  @Mutation(() => AuthPayload)
+  /**
+   * Registers a new user, see `POST /register`.
+   *
+   * @param {CredentialsInput} input - The email and password of the new account.
+   * @param {SessionClient} client - The user agent and IP address of the caller, stored on the session.
+   *
+   * @returns {Promise<AuthPayload>} Resolves with the tokens, or a message when verification is pending.
+   *
+   * @throws {ConflictException} Throws if the email is already registered.
+   */
+  async register(
+    @Args('input', new ValidationPipe()) input: CredentialsInput,
+    @ClientInfo() client: SessionClient
+  ): Promise<AuthPayload> {
+    this.logger.log(`Signing up user: ${input.email}`);
+    try {
+      return this.toPayload(
+        await this.authService.signUp(input.email, input.password, client)
+      );
+    } catch (error) {
+      this.logger.error(`Sign up failed for user: ${input.email}`, error.stack);
+      throw error;
+    }
+  }
+
+  @Mutation(() => AuthPayload)
+  /**
+   * Authenticates a user, see `POST /login`.
+   *
+   * @param {CredentialsInput} input - The email and password of the account.
+   * @param {SessionClient} client - The user agent and IP address of the caller, stored on the session.
+   * @param {Response} res - The response, used to set `Retry-After` when the attempt is throttled.
+   *
+   * @returns {Promise<AuthPayload>} Resolves with the tokens, or an MFA challenge.
+   *
+   * @throws {UnauthorizedException} Throws if the credentials are invalid.
+   */
+  async login(
+    @Args('input', new ValidationPipe()) input: CredentialsInput,
+    @ClientInfo() client: SessionClient,
+    @Context('res') res: Response
+  ): Promise<AuthPayload> {
+    this.logger.log(`Signing in user: ${input.email}`);
+    try {
+      return this.toPayload(
+        await this.authService.signIn(input.email, input.password, client)
+      );
+    } catch (error) {
+      setRetryAfter(res, error);
+      this.logger.error(`Sign in failed for user: ${input.email}`, error.stack);
+      throw error;
+    }
+  }
+
+  @Mutation(() => AuthPayload)
+  /**
+   * Rotates a refresh token and issues a new token pair, see `POST /refresh`.
+   *
+   * @param {string} refreshToken - The current refresh token.
+   * @param {SessionClient} client - The user agent and IP address of the caller.
+   *
+   * @returns {Promise<AuthPayload>} Resolves with the new tokens.
+   *
+   * @throws {UnauthorizedException} Throws if the token is invalid, expired or was reused.
+   */
+  async refreshToken(
+    @Args('refreshToken') refreshToken: string,
+    @ClientInfo() client: SessionClient
+  ): Promise<AuthPayload> {
+    this.logger.log('Refreshing tokens');
+    try {
+      return this.toPayload(
+        await this.authService.refreshWithToken(refreshToken, client)
+      );
+    } catch (error) {
+      this.logger.error('Refreshing tokens failed', error.stack);
+      throw error;
+    }
+  }
+
+  @RequirePermissions(Permission.USERS_UPDATE_SELF)
+  @UseGuards(PermissionsGuard)
+  @UseGuards(JwtAuthGuard)
+  @Mutation(() => Boolean)
+  /**
+   * Changes the authenticated user's password, see `POST /users/me/password`.
+   */
+  async changePassword(
+    @Args('input', new ValidationPipe()) input: ChangePasswordInput,
+    @User() user: AuthUser,
+    @ClientInfo() client: SessionClient,
+    @Context('res') res: Response
+  ): Promise<boolean> {
+    this.logger.log(`Changing password for user: ${user.email}`);
+    try {
+      await this.authService.changePassword(
+        user,
+        input.currentPassword,
+        input.newPassword,
+        client
+      );
+      return true;
+    } catch (error) {
+      setRetryAfter(res, error);
+      this.logger.error(
+        `Changing password failed for user: ${user.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @RequirePermissions(Permission.USERS_UPDATE_SELF)
+  @UseGuards(PermissionsGuard)
+  @UseGuards(JwtAuthGuard)
+  @Mutation(() => Boolean)
+  /**
+   * Sends a confirmation link to the authenticated user's new email address, see
+   * `POST /users/me/email`.
+   */
+  async changeEmail(
+    @Args('input', new ValidationPipe()) input: ChangeEmailInput,
+    @User() user: AuthUser,
+    @ClientInfo() client: SessionClient,
+    @Context('res') res: Response
+  ): Promise<boolean> {
+    this.logger.log(`Requesting email change for user: ${user.email}`);
+    try {
+      await this.authService.requestEmailChange(
+        user,
+        input.email,
+        input.currentPassword,
+        client
+      );
+      return true;
+    } catch (error) {
+      setRetryAfter(res, error);
+      this.logger.error(
+        `Requesting email change failed for user: ${user.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @Mutation(() => Boolean)
+  /**
+   * Confirms an email change with the token from the emailed link, see
+   * `POST /users/me/email/confirm`.
+   */
+  async confirmEmailChange(
+    @Args('token') token: string,
+    @ClientInfo() client: SessionClient
+  ): Promise<boolean> {
+    this.logger.log('Confirming email change');
+    try {
+      await this.authService.confirmEmailChange(token, client);
+      return true;
+    } catch (error) {
+      this.logger.error('Confirming email change failed', error.stack);
+      throw error;
+    }
+  }
+
+  private toPayload(
+    result: SignInResult | SignUpResult | AuthTokens
+  ): AuthPayload {
+    if ('mfa_token' in result) {
+      return { mfaRequired: true, mfaToken: result.mfa_token };
+    }
+    if ('message' in result) {
+      return { mfaRequired: false, message: result.message };
+    }
+    return {
+      accessToken: result.access_token,
+      refreshToken: result.refresh_token,
+      mfaRequired: false,
+    };
+  }
+}
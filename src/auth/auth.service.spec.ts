@@ -0,0 +1,868 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtModule, JwtService } from '@nestjs/jwt';
+import { AuthService } from './auth.service';
+import { UsersService } from 'src/users/users.service';
+import { SessionsService } from 'src/sessions/sessions.service';
+import { Session } from 'src/sessions/sessions.entity';
+import {
+  AuthTokens,
+  JwtPayload,
+  MfaChallenge,
+  RefreshTokenPayload,
+} from './types/auth.type';
+import { hashPassword } from './utils/bycrypt';
+import { MailService } from 'src/mail/mail.service';
+import { PasswordResetsService } from 'src/password-resets/password-resets.service';
+import { LoginAttemptsService } from 'src/login-attempts/login-attempts.service';
+import { MfaService } from 'src/mfa/mfa.service';
+import { RolesService } from 'src/roles/roles.service';
+import { Permission } from 'src/roles/types/roles.type';
+import { AuditService } from 'src/audit/audit.service';
+import { AuditAction, AuditOutcome } from 'src/audit/types/audit.type';
+import { SigningKeysService } from 'src/signing-keys/signing-keys.service';
+import {
+  SigningAlgorithm,
+  SigningKeyMaterial,
+} from 'src/signing-keys/types/signing-keys.type';
+import { generateKeyPairSync } from 'crypto';
+import { RevokedTokensService } from 'src/revoked-tokens/revoked-tokens.service';
+import { PasswordPolicyService } from 'src/password-policy/password-policy.service';
+import { PasswordPolicyException } from 'src/password-policy/exceptions/password-policy.exception';
+import { PasswordRule } from 'src/password-policy/types/password-policy.type';
+import { MetricsService } from 'src/metrics/metrics.service';
+
+let config: Record<string, string | boolean>;
+
+describe('AuthService', () => {
+  let service: AuthService;
+  let jwtService: JwtService;
+  let sessions: Map<string, Session>;
+  let usersService: Record<string, jest.Mock>;
+  let mailService: Record<string, jest.Mock>;
+  let passwordResetsService: Record<string, jest.Mock>;
+  let mfaService: { verifyCode: jest.Mock };
+  let passwordPolicyService: { assertValid: jest.Mock };
+  let metricsService: Record<string, jest.Mock>;
+
+  const user = {
+    id: 1,
+    email: 'kavishka@gmail.com',
+    roles: ['user'],
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const sessionsService = {
+    create: jest.fn((id: string, userId: number, tokenId: string) => {
+      const session = {
+        id,
+        userId,
+        currentTokenId: tokenId,
+        expiresAt: new Date(Date.now() + 60_000),
+        userAgent: null,
+        ipAddress: null,
+        revokedAt: null,
+        createdAt: new Date(),
+        lastUsedAt: new Date(),
+      };
+      sessions.set(id, session);
+      return Promise.resolve(session);
+    }),
+    findById: jest.fn((id: string) => Promise.resolve(sessions.get(id))),
+    isActive: jest.fn((session: Session) => !session.revokedAt),
+    rotate: jest.fn((id: string, presented: string, next: string) => {
+      const session = sessions.get(id)!;
+      if (session.revokedAt || session.currentTokenId !== presented) {
+        session.revokedAt = new Date();
+        return Promise.resolve(false);
+      }
+      session.currentTokenId = next;
+      return Promise.resolve(true);
+    }),
+    revoke: jest.fn((id: string) => {
+      const session = sessions.get(id);
+      if (session) {
+        session.revokedAt = new Date();
+      }
+      return Promise.resolve();
+    }),
+    revokeAllForUser: jest.fn(),
+    touch: jest.fn(),
+  };
+
+  const auditService = { record: jest.fn(), recordFailure: jest.fn() };
+
+  const signingKey: SigningKeyMaterial & { publicKey: string } = {
+    kid: 'signing-key',
+    algorithm: SigningAlgorithm.RS256,
+    ...generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    }),
+  };
+  const signingKeysService = {
+    getSigningKey: jest.fn(() => Promise.resolve(signingKey)),
+    getVerificationKey: jest.fn((): Promise<typeof signingKey | undefined> =>
+      Promise.resolve(signingKey)
+    ),
+  };
+
+  let revokedTokens: Set<string>;
+  const revokedTokensService = {
+    revoke: jest.fn((jti: string) => {
+      revokedTokens.add(jti);
+      return Promise.resolve();
+    }),
+    isRevoked: jest.fn((jti: string) =>
+      Promise.resolve(revokedTokens.has(jti))
+    ),
+    consume: jest.fn((jti: string) => {
+      const consumed = !revokedTokens.has(jti);
+      revokedTokens.add(jti);
+      return Promise.resolve(consumed);
+    }),
+  };
+
+  const refreshClaims = (token: string) => {
+    const payload = jwtService.verify<RefreshTokenPayload>(token, {
+      secret: config.REFRESH_TOKEN_SECRET as string,
+    });
+    return {
+      userId: payload.sub,
+      sessionId: payload.sid,
+      tokenId: payload.jti,
+    };
+  };
+
+  const signIn = async () =>
+    (await service.signIn(user.email, 'kavishka@123')) as AuthTokens;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    sessions = new Map();
+    revokedTokens = new Set();
+    config = {
+      JWT_ISSUER: 'http://localhost:3000',
+      REFRESH_TOKEN_SECRET: 'refresh-secret',
+      REFRESH_TOKEN_EXPIRE: '1d',
+      EMAIL_VERIFICATION_SECRET: 'verification-secret',
+      EMAIL_VERIFICATION_URL: 'http://localhost:3000/verify-email',
+      EMAIL_CHANGE_URL: 'http://localhost:3000/confirm-email',
+      REQUIRE_EMAIL_VERIFICATION: false,
+      PASSWORD_RESET_URL: 'http://localhost:3000/reset-password',
+      MFA_TOKEN_SECRET: 'mfa-secret',
+    };
+    const password = await hashPassword('kavishka@123');
+    usersService = {
+      findOne: jest.fn(() => Promise.resolve({ ...user, password })),
+      findById: jest.fn(() => Promise.resolve(user)),
+      create: jest.fn(() => Promise.resolve(user)),
+      isEmailTaken: jest.fn(() => Promise.resolve(false)),
+      markEmailVerified: jest.fn(),
+      findRestorable: jest.fn(),
+      restore: jest.fn(),
+      checkPassword: jest.fn(() => Promise.resolve(true)),
+      updatePassword: jest.fn(),
+      changeEmail: jest.fn(),
+    };
+    mailService = {
+      sendEmailVerification: jest.fn(),
+      sendEmailChangeConfirmation: jest.fn(),
+      sendPasswordReset: jest.fn(),
+    };
+    passwordResetsService = {
+      create: jest.fn(() => Promise.resolve('reset-token')),
+      findUserId: jest.fn(),
+      consume: jest.fn(),
+    };
+    passwordPolicyService = { assertValid: jest.fn() };
+    mfaService = { verifyCode: jest.fn() };
+    metricsService = {
+      recordLogin: jest.fn(),
+      recordRegistration: jest.fn(),
+      recordTokenRefresh: jest.fn(),
+    };
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [JwtModule.register({ signOptions: { expiresIn: '1h' } })],
+      providers: [
+        AuthService,
+        { provide: UsersService, useValue: usersService },
+        { provide: MailService, useValue: mailService },
+        { provide: PasswordResetsService, useValue: passwordResetsService },
+        {
+          provide: LoginAttemptsService,
+          useValue: {
+            assertAllowed: jest.fn(),
+            recordFailure: jest.fn(),
+            recordSuccess: jest.fn(),
+          },
+        },
+        { provide: SessionsService, useValue: sessionsService },
+        { provide: MfaService, useValue: mfaService },
+        { provide: AuditService, useValue: auditService },
+        { provide: SigningKeysService, useValue: signingKeysService },
+        { provide: RevokedTokensService, useValue: revokedTokensService },
+        { provide: PasswordPolicyService, useValue: passwordPolicyService },
+        { provide: MetricsService, useValue: metricsService },
+        {
+          provide: RolesService,
+          useValue: {
+            getPermissions: jest.fn(() =>
+              Promise.resolve([Permission.USERS_READ_SELF])
+            ),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AuthService>(AuthService);
+    jwtService = module.get<JwtService>(JwtService);
+  });
+
+  it('should bind the refresh token to a persisted session', async () => {
+    const tokens = await signIn();
+    const claims = refreshClaims(tokens.refresh_token);
+
+    expect(claims.userId).toBe(user.id);
+    expect(sessions.get(claims.sessionId)?.currentTokenId).toBe(claims.tokenId);
+  });
+
+  it('should rotate the refresh token on every refresh', async () => {
+    const tokens = await signIn();
+    const refreshed = await service.refreshTokens(
+      refreshClaims(tokens.refresh_token)
+    );
+    const claims = refreshClaims(refreshed.refresh_token);
+
+    expect(claims.tokenId).not.toBe(
+      refreshClaims(tokens.refresh_token).tokenId
+    );
+    expect(sessions.get(claims.sessionId)?.currentTokenId).toBe(claims.tokenId);
+  });
+
+  it('should revoke the session when a rotated token is reused', async () => {
+    const tokens = await signIn();
+    const stolen = refreshClaims(tokens.refresh_token);
+    const refreshed = await service.refreshTokens(stolen);
+
+    await expect(service.refreshTokens(stolen)).rejects.toThrow(
+      UnauthorizedException
+    );
+    await expect(
+      service.refreshTokens(refreshClaims(refreshed.refresh_token))
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('should reject a refresh token whose subject does not own the session', async () => {
+    const tokens = await signIn();
+    const claims = refreshClaims(tokens.refresh_token);
+
+    await expect(
+      service.refreshTokens({ ...claims, userId: 2 })
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  describe('audit trail', () => {
+    const client = {
+      userAgent: 'jest',
+      ipAddress: '127.0.0.1',
+      correlationId: 'correlation',
+    };
+
+    it('should record successful sign ins with the client', async () => {
+      await service.signIn(user.email, 'kavishka@123', client);
+
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditAction.LOGIN,
+          outcome: AuditOutcome.SUCCESS,
+          actorId: user.id,
+          client,
+        })
+      );
+      expect(metricsService.recordLogin).toHaveBeenCalledWith(
+        AuditOutcome.SUCCESS
+      );
+    });
+
+    it('should record failed sign ins with the reason', async () => {
+      await expect(
+        service.signIn(user.email, 'wrong-password', client)
+      ).rejects.toThrow(UnauthorizedException);
+
+      expect(auditService.recordFailure).toHaveBeenCalledWith(
+        expect.objectContaining({ action: AuditAction.LOGIN, client }),
+        expect.any(UnauthorizedException)
+      );
+      expect(auditService.record).not.toHaveBeenCalled();
+      expect(metricsService.recordLogin).toHaveBeenCalledWith(
+        AuditOutcome.FAILURE
+      );
+    });
+  });
+
+  describe('deactivated accounts', () => {
+    it('should reject sign in', async () => {
+      usersService.findOne.mockResolvedValueOnce({
+        ...user,
+        isActive: false,
+        password: await hashPassword('kavishka@123'),
+      });
+
+      await expect(service.signIn(user.email, 'kavishka@123')).rejects.toThrow(
+        ForbiddenException
+      );
+      expect(sessionsService.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject refreshing tokens', async () => {
+      const tokens = await signIn();
+      usersService.findById.mockResolvedValueOnce({ ...user, isActive: false });
+
+      await expect(
+        service.refreshTokens(refreshClaims(tokens.refresh_token))
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject access tokens', async () => {
+      const tokens = await signIn();
+      const payload = jwtService.decode<JwtPayload>(tokens.access_token);
+      usersService.findById.mockResolvedValueOnce({ ...user, isActive: false });
+
+      await expect(service.validateUserRole(payload)).rejects.toThrow(
+        UnauthorizedException
+      );
+    });
+  });
+
+  describe('account restore', () => {
+    it('should restore a deleted account with valid credentials', async () => {
+      usersService.findRestorable.mockResolvedValueOnce({
+        ...user,
+        password: await hashPassword('kavishka@123'),
+      });
+
+      await service.restoreAccount(user.email, 'kavishka@123');
+
+      expect(usersService.restore).toHaveBeenCalledWith(user.id);
+    });
+
+    it('should reject a wrong password or an expired grace period', async () => {
+      usersService.findRestorable.mockResolvedValueOnce({
+        ...user,
+        password: await hashPassword('kavishka@123'),
+      });
+
+      await expect(
+        service.restoreAccount(user.email, 'kavishka@456')
+      ).rejects.toThrow(UnauthorizedException);
+      await expect(
+        service.restoreAccount(user.email, 'kavishka@123')
+      ).rejects.toThrow(UnauthorizedException);
+      expect(usersService.restore).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('access tokens', () => {
+    it('should resolve the permissions of the roles in the token', async () => {
+      const tokens = await signIn();
+      const payload = jwtService.decode<JwtPayload>(tokens.access_token);
+
+      await expect(service.validateUserRole(payload)).resolves.toMatchObject({
+        userId: user.id,
+        roles: ['user'],
+        permissions: [Permission.USERS_READ_SELF],
+      });
+    });
+
+    it('should reject tokens issued before a role change', async () => {
+      const tokens = await signIn();
+      const payload = jwtService.decode<JwtPayload>(tokens.access_token);
+      usersService.findById.mockResolvedValueOnce({
+        ...user,
+        roles: ['user', 'admin'],
+      });
+
+      await expect(service.validateUserRole(payload)).rejects.toThrow(
+        UnauthorizedException
+      );
+    });
+
+    it('should record the use of the session', async () => {
+      const tokens = await signIn();
+      const payload = jwtService.decode<JwtPayload>(tokens.access_token);
+
+      await service.validateUserRole(payload);
+
+      expect(sessionsService.touch).toHaveBeenCalledWith(
+        expect.objectContaining({ id: payload.sid })
+      );
+    });
+
+    it('should accept tokens issued before an email change', async () => {
+      const tokens = await signIn();
+      const payload = jwtService.decode<JwtPayload>(tokens.access_token);
+      usersService.findById.mockResolvedValueOnce({
+        ...user,
+        email: 'new@gmail.com',
+      });
+
+      await expect(service.validateUserRole(payload)).resolves.toMatchObject({
+        userId: user.id,
+        email: 'new@gmail.com',
+      });
+      expect(usersService.findById).toHaveBeenLastCalledWith(user.id);
+    });
+  });
+
+  describe('token validation', () => {
+    it('should accept an access token of an active session', async () => {
+      const { access_token } = await signIn();
+
+      await expect(
+        service.validateAccessToken(access_token)
+      ).resolves.toMatchObject({ valid: true, user: { id: user.id } });
+    });
+
+    it('should reject revoked sessions and foreign tokens', async () => {
+      const { access_token } = await signIn();
+      sessions.forEach((session) => (session.revokedAt = new Date()));
+
+      await expect(service.validateAccessToken(access_token)).resolves.toEqual({
+        valid: false,
+      });
+      await expect(service.validateAccessToken('not-a-token')).resolves.toEqual(
+        { valid: false }
+      );
+    });
+
+    it('should sign access tokens with the current key and issuer', async () => {
+      const { access_token } = await signIn();
+      const { header, payload } = jwtService.decode<{
+        header: { kid: string; alg: string };
+        payload: { iss: string };
+      }>(access_token, { complete: true });
+
+      expect(header).toMatchObject({ kid: 'signing-key', alg: 'RS256' });
+      expect(payload.iss).toBe('http://localhost:3000');
+    });
+
+    it('should reject tokens of unknown keys or signed with a shared secret', async () => {
+      const { access_token } = await signIn();
+      signingKeysService.getVerificationKey.mockResolvedValueOnce(undefined);
+
+      await expect(service.validateAccessToken(access_token)).resolves.toEqual({
+        valid: false,
+      });
+
+      const { sub, email, roles, sid } =
+        jwtService.decode<JwtPayload>(access_token);
+      const forged = await jwtService.signAsync(
+        { sub, email, roles, sid },
+        { secret: signingKey.publicKey, keyid: 'signing-key' }
+      );
+      await expect(service.validateAccessToken(forged)).resolves.toEqual({
+        valid: false,
+      });
+    });
+  });
+
+  describe('token introspection', () => {
+    it('should describe an active access token', async () => {
+      const { access_token } = await signIn();
+
+      await expect(service.introspectToken(access_token)).resolves.toEqual(
+        expect.objectContaining({
+          active: true,
+          token_type: 'access_token',
+          sub: String(user.id),
+          roles: ['user'],
+          scope: Permission.USERS_READ_SELF,
+          iss: 'http://localhost:3000',
+        })
+      );
+    });
+
+    it('should report tokens of deactivated users as inactive', async () => {
+      const { access_token } = await signIn();
+      usersService.findById.mockResolvedValueOnce({ ...user, isActive: false });
+
+      await expect(service.introspectToken(access_token)).resolves.toEqual({
+        active: false,
+      });
+    });
+
+    it('should only report the current refresh token of a session as active', async () => {
+      const tokens = await signIn();
+      await expect(
+        service.introspectToken(tokens.refresh_token, 'refresh_token')
+      ).resolves.toMatchObject({ active: true, token_type: 'refresh_token' });
+
+      await service.refreshTokens(refreshClaims(tokens.refresh_token));
+      await expect(
+        service.introspectToken(tokens.refresh_token)
+      ).resolves.toEqual({ active: false });
+    });
+
+    it('should report garbage as inactive', async () => {
+      await expect(service.introspectToken('not-a-token')).resolves.toEqual({
+        active: false,
+      });
+    });
+  });
+
+  describe('token revocation', () => {
+    it('should denylist a revoked access token until it expires', async () => {
+      const { access_token } = await signIn();
+      const { jti, exp } = jwtService.decode<{ jti: string; exp: number }>(
+        access_token
+      );
+
+      await service.revokeToken(access_token);
+
+      expect(revokedTokensService.revoke).toHaveBeenCalledWith(
+        jti,
+        new Date(exp * 1000)
+      );
+      await expect(service.validateAccessToken(access_token)).resolves.toEqual({
+        valid: false,
+      });
+      expect(sessionsService.revoke).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the session of a revoked refresh token', async () => {
+      const { access_token, refresh_token } = await signIn();
+
+      await service.revokeToken(refresh_token, 'refresh_token');
+
+      expect(revokedTokensService.revoke).not.toHaveBeenCalled();
+      await expect(service.introspectToken(access_token)).resolves.toEqual({
+        active: false,
+      });
+    });
+
+    it('should ignore invalid tokens', async () => {
+      await expect(service.revokeToken('not-a-token')).resolves.toBeUndefined();
+      expect(revokedTokensService.revoke).not.toHaveBeenCalled();
+      expect(sessionsService.revoke).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sign up', () => {
+    it('should not create a user with a password the policy rejects', async () => {
+      passwordPolicyService.assertValid.mockRejectedValueOnce(
+        new PasswordPolicyException([
+          { rule: PasswordRule.BREACHED, message: 'breached' },
+        ])
+      );
+
+      await expect(service.signUp(user.email, 'password1')).rejects.toThrow(
+        PasswordPolicyException
+      );
+      expect(passwordPolicyService.assertValid).toHaveBeenCalledWith(
+        'password1',
+        { email: user.email }
+      );
+      expect(usersService.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('email verification', () => {
+    const verificationToken = async () => {
+      await service.signUp(user.email, 'kavishka@123');
+      const [, link] = mailService.sendEmailVerification.mock.calls[0] as [
+        string,
+        string,
+      ];
+      return new URL(link).searchParams.get('token')!;
+    };
+
+    it('should email a verification link on sign up', async () => {
+      const token = await verificationToken();
+
+      expect(mailService.sendEmailVerification).toHaveBeenCalledWith(
+        user.email,
+        expect.stringContaining('http://localhost:3000/verify-email?token=')
+      );
+      await service.verifyEmail(token);
+      expect(usersService.markEmailVerified).toHaveBeenCalledWith(user.id);
+    });
+
+    it('should reject a token issued for a previous email address', async () => {
+      const token = await verificationToken();
+      usersService.findById.mockResolvedValueOnce({
+        ...user,
+        email: 'changed@gmail.com',
+      });
+
+      await expect(service.verifyEmail(token)).rejects.toThrow(
+        BadRequestException
+      );
+    });
+
+    it('should block sign in until verified when required', async () => {
+      config.REQUIRE_EMAIL_VERIFICATION = true;
+
+      await expect(
+        service.signUp(user.email, 'kavishka@123')
+      ).resolves.not.toHaveProperty('access_token');
+      await expect(service.signIn(user.email, 'kavishka@123')).rejects.toThrow(
+        ForbiddenException
+      );
+    });
+  });
+
+  describe('password reset', () => {
+    it('should not reveal whether an email is registered', async () => {
+      usersService.findOne.mockResolvedValueOnce(undefined);
+
+      await expect(
+        service.forgotPassword('unknown@gmail.com')
+      ).resolves.toBeUndefined();
+      expect(mailService.sendPasswordReset).not.toHaveBeenCalled();
+    });
+
+    it('should email a reset link to registered users', async () => {
+      await service.forgotPassword(user.email);
+
+      expect(mailService.sendPasswordReset).toHaveBeenCalledWith(
+        user.email,
+        'http://localhost:3000/reset-password?token=reset-token',
+        15
+      );
+    });
+
+    it('should change the password, revoke sessions and emit an event', async () => {
+      passwordResetsService.findUserId.mockResolvedValueOnce(user.id);
+      passwordResetsService.consume.mockResolvedValueOnce(user.id);
+      usersService.updatePassword = jest.fn();
+
+      await service.resetPassword('reset-token', 'kavishka@456');
+
+      expect(usersService.updatePassword).toHaveBeenCalledWith(
+        user.id,
+        'kavishka@456',
+        'password-reset'
+      );
+      expect(sessionsService.revokeAllForUser).toHaveBeenCalledWith(user.id);
+    });
+
+    it('should reject an invalid or used token', async () => {
+      passwordResetsService.findUserId.mockResolvedValueOnce(undefined);
+
+      await expect(
+        service.resetPassword('reset-token', 'kavishka@456')
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should keep the token when the password violates the policy', async () => {
+      passwordResetsService.findUserId.mockResolvedValueOnce(user.id);
+      passwordPolicyService.assertValid.mockRejectedValueOnce(
+        new PasswordPolicyException([
+          { rule: PasswordRule.REUSED, message: 'reused' },
+        ])
+      );
+      usersService.updatePassword = jest.fn();
+
+      await expect(
+        service.resetPassword('reset-token', 'kavishka@456')
+      ).rejects.toThrow(PasswordPolicyException);
+      expect(passwordPolicyService.assertValid).toHaveBeenCalledWith(
+        'kavishka@456',
+        { email: user.email, userId: user.id }
+      );
+      expect(passwordResetsService.consume).not.toHaveBeenCalled();
+      expect(usersService.updatePassword).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('multi-factor authentication', () => {
+    const challenge = async () => {
+      usersService.findOne.mockResolvedValueOnce({
+        ...user,
+        mfaEnabled: true,
+        password: await hashPassword('kavishka@123'),
+      });
+      return (await service.signIn(user.email, 'kavishka@123')) as MfaChallenge;
+    };
+
+    it('should return an MFA token instead of tokens when MFA is enabled', async () => {
+      const result = await challenge();
+
+      expect(result.mfa_required).toBe(true);
+      expect(result).not.toHaveProperty('access_token');
+      expect(sessionsService.create).not.toHaveBeenCalled();
+    });
+
+    it('should exchange the MFA token and a valid code for tokens', async () => {
+      const { mfa_token } = await challenge();
+      mfaService.verifyCode.mockResolvedValueOnce(true);
+
+      await expect(
+        service.verifyMfa(mfa_token, '123456')
+      ).resolves.toHaveProperty('refresh_token');
+    });
+
+    it('should reject an MFA token that was already used', async () => {
+      const { mfa_token } = await challenge();
+      mfaService.verifyCode.mockResolvedValue(true);
+
+      await service.verifyMfa(mfa_token, '123456');
+
+      await expect(service.verifyMfa(mfa_token, '123456')).rejects.toThrow(
+        UnauthorizedException
+      );
+      expect(sessionsService.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep the MFA token usable after a wrong code', async () => {
+      const { mfa_token } = await challenge();
+      mfaService.verifyCode.mockResolvedValueOnce(false);
+      await expect(service.verifyMfa(mfa_token, '000000')).rejects.toThrow(
+        UnauthorizedException
+      );
+
+      mfaService.verifyCode.mockResolvedValueOnce(true);
+      await expect(
+        service.verifyMfa(mfa_token, '123456')
+      ).resolves.toHaveProperty('refresh_token');
+    });
+
+    it('should reject a wrong code', async () => {
+      const { mfa_token } = await challenge();
+      mfaService.verifyCode.mockResolvedValueOnce(false);
+
+      await expect(service.verifyMfa(mfa_token, '000000')).rejects.toThrow(
+        UnauthorizedException
+      );
+    });
+
+    it('should not accept an access token as MFA token', async () => {
+      const { access_token } = await signIn();
+
+      await expect(service.verifyMfa(access_token, '123456')).rejects.toThrow(
+        UnauthorizedException
+      );
+    });
+  });
+
+  describe('password and email changes', () => {
+    const authUser = {
+      userId: user.id,
+      email: user.email,
+      roles: user.roles,
+      permissions: [Permission.USERS_UPDATE_SELF],
+      sessionId: 'current-session',
+    };
+
+    const confirmationToken = async () => {
+      await service.requestEmailChange(
+        authUser,
+        'new@gmail.com',
+        'kavishka@123'
+      );
+      const [, link] = mailService.sendEmailChangeConfirmation.mock
+        .calls[0] as [string, string];
+      return new URL(link).searchParams.get('token')!;
+    };
+
+    it('should change the password and keep only the current session', async () => {
+      await service.changePassword(authUser, 'kavishka@123', 'amber-Harbor-57');
+
+      expect(passwordPolicyService.assertValid).toHaveBeenCalledWith(
+        'amber-Harbor-57',
+        { email: user.email, userId: user.id }
+      );
+      expect(usersService.updatePassword).toHaveBeenCalledWith(
+        user.id,
+        'amber-Harbor-57',
+        'password-change'
+      );
+      expect(sessionsService.revokeAllForUser).toHaveBeenCalledWith(
+        user.id,
+        'current-session'
+      );
+    });
+
+    it('should reject a wrong current password', async () => {
+      usersService.checkPassword.mockResolvedValueOnce(false);
+
+      await expect(
+        service.changePassword(authUser, 'wrong', 'amber-Harbor-57')
+      ).rejects.toThrow(BadRequestException);
+      expect(usersService.updatePassword).not.toHaveBeenCalled();
+      expect(auditService.recordFailure).toHaveBeenCalledWith(
+        expect.objectContaining({ action: AuditAction.PASSWORD_CHANGE }),
+        expect.any(BadRequestException)
+      );
+    });
+
+    it('should change the email only once the link is followed', async () => {
+      const token = await confirmationToken();
+
+      expect(mailService.sendEmailChangeConfirmation).toHaveBeenCalledWith(
+        'new@gmail.com',
+        expect.stringContaining('http://localhost:3000/confirm-email?token=')
+      );
+      expect(usersService.changeEmail).not.toHaveBeenCalled();
+
+      await service.confirmEmailChange(token);
+
+      expect(usersService.changeEmail).toHaveBeenCalledWith(
+        user.id,
+        'new@gmail.com'
+      );
+      expect(sessionsService.revokeAllForUser).toHaveBeenCalledWith(
+        user.id,
+        'current-session'
+      );
+    });
+
+    it('should reject a link once the email has changed', async () => {
+      const token = await confirmationToken();
+      usersService.findById.mockResolvedValueOnce({
+        ...user,
+        email: 'new@gmail.com',
+      });
+
+      await expect(service.confirmEmailChange(token)).rejects.toThrow(
+        BadRequestException
+      );
+      expect(usersService.changeEmail).not.toHaveBeenCalled();
+    });
+
+    it('should not accept email verification tokens', async () => {
+      await service.signUp(user.email, 'kavishka@123');
+      const [, link] = mailService.sendEmailVerification.mock.calls[0] as [
+        string,
+        string,
+      ];
+
+      await expect(
+        service.confirmEmailChange(new URL(link).searchParams.get('token')!)
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should refuse an address that belongs to another account', async () => {
+      usersService.isEmailTaken.mockResolvedValueOnce(true);
+
+      await expect(
+        service.requestEmailChange(authUser, 'taken@gmail.com', 'kavishka@123')
+      ).rejects.toThrow(ConflictException);
+      expect(mailService.sendEmailChangeConfirmation).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,15 +1,49 @@
 import {
+  BadRequestException,
   ConflictException,
-  Inject,
+  ForbiddenException,
   Injectable,
   Logger,
+  NotFoundException,
   UnauthorizedException,
 } from '@nestjs/common';
-import { JwtService } from '@nestjs/jwt';
-import { UsersService } from 'src/users/users.service';
+import { JwtService, JwtSignOptions } from '@nestjs/jwt';
+import { IUser, SafeUser, UsersService } from 'src/users/users.service';
 import { comparePasswords } from './utils/bycrypt';
 import { ConfigService } from '@nestjs/config';
-import { ClientKafka } from '@nestjs/microservices';
+import { randomBytes, randomUUID } from 'crypto';
+import { SessionsService } from 'src/sessions/sessions.service';
+import { SessionClient, SessionView } from 'src/sessions/types/sessions.type';
+import { MailService } from 'src/mail/mail.service';
+import { PasswordResetsService } from 'src/password-resets/password-resets.service';
+import { LoginAttemptsService } from 'src/login-attempts/login-attempts.service';
+import { MfaService } from 'src/mfa/mfa.service';
+import { TotpSetup } from 'src/mfa/types/mfa.type';
+import {
+  AuthTokens,
+  AuthUser,
+  EmailChangePayload,
+  EmailVerificationPayload,
+  JwtPayload,
+  MfaChallenge,
+  MfaTokenPayload,
+  RefreshTokenPayload,
+  RefreshUser,
+  SignInResult,
+  SignUpResult,
+  TokenIntrospection,
+  TokenTypeHint,
+  TokenValidationResult,
+  VerifiedClaims,
+} from './types/auth.type';
+import { toPublicUser } from 'src/users/utils/public-user';
+import { RolesService } from 'src/roles/roles.service';
+import { AuditService } from 'src/audit/audit.service';
+import { AuditAction, AuditOutcome } from 'src/audit/types/audit.type';
+import { SigningKeysService } from 'src/signing-keys/signing-keys.service';
+import { RevokedTokensService } from 'src/revoked-tokens/revoked-tokens.service';
+import { PasswordPolicyService } from 'src/password-policy/password-policy.service';
+import { MetricsService } from 'src/metrics/metrics.service';
 
 @Injectable()
 export class AuthService {
@@ -19,7 +53,17 @@ export class AuthService {
     private _usersService: UsersService,
     private _jwtService: JwtService,
     private _configService: ConfigService,
-    @Inject('USER_SERVICE') private readonly kafkaClient: ClientKafka
+    private _sessionsService: SessionsService,
+    private _mailService: MailService,
+    private _passwordResetsService: PasswordResetsService,
+    private _loginAttemptsService: LoginAttemptsService,
+    private _mfaService: MfaService,
+    private _rolesService: RolesService,
+    private _auditService: AuditService,
+    private _signingKeysService: SigningKeysService,
+    private _revokedTokensService: RevokedTokensService,
+    private _passwordPolicyService: PasswordPolicyService,
+    private _metricsService: MetricsService
   ) {}
 
   /**
@@ -49,137 +93,1182 @@ export class AuthService {
   /**
    * Authenticates a user by verifying the provided email and password, generates JWT access and refresh tokens,
    * and returns them upon successful authentication. Handles invalid credentials and unauthorized access attempts.
+   * Users with MFA enabled get a short-lived MFA token instead, to be exchanged at `POST /mfa/verify`.
    *
    * @param {string} email - The email of the user attempting to sign in.
    * @param {string} pass - The plaintext password provided by the user.
+   * @param {SessionClient} client - The user agent and IP address recorded on the new session.
    *
-   * @returns {Promise<{ access_token: string; refresh_token: string }>} Resolves with an object containing the JWT access and refresh tokens.
+   * @returns {Promise<SignInResult>} Resolves with the JWT access and refresh tokens, or an MFA challenge.
    *
    * @throws {UnauthorizedException} Throws if the user does not exist or if the password is invalid.
+   * @throws {TooManyLoginAttemptsException} Throws if the account is locked or the IP address is throttled.
+   * @throws {ForbiddenException} Throws if the account is deactivated, or email verification is required and the email is not verified yet.
    */
   async signIn(
     email: string,
-    pass: string
-  ): Promise<{ access_token: string; refresh_token: string }> {
+    pass: string,
+    client?: SessionClient
+  ): Promise<SignInResult> {
+    let user: IUser | undefined;
     try {
       this.logger.log(`Signing in user: ${email}`);
-      const user = await this._usersService.findOne(email);
+      user = await this._usersService.findOne(email);
+      await this._loginAttemptsService.assertAllowed(client, user);
       if (!user) {
+        await this._loginAttemptsService.recordFailure(client);
         throw new UnauthorizedException('Invalid email or password provided.');
       }
       this.logger.log(`User ${email} found.`);
       const isPasswordValid = await comparePasswords(pass, user.password);
       if (!isPasswordValid) {
+        await this._loginAttemptsService.recordFailure(client, user);
         throw new UnauthorizedException('Invalid email or password provided.');
       }
       this.logger.log(`Password for user ${email} is valid.`);
-      const payload = { sub: user.id, email: user.email, role: user.role };
-
-      return {
-        access_token: await this._jwtService.signAsync(payload),
-        refresh_token: await this._jwtService.signAsync(payload, {
-          expiresIn:
-            this._configService.get<string>('REFRESH_TOKEN_EXPIRATION') ?? '7d',
-          secret: this._configService.get<string>('REFRESH_TOKEN_SECRET') ?? '',
-        }),
-      };
+      await this._loginAttemptsService.recordSuccess(user);
+      if (!user.isActive) {
+        throw new ForbiddenException('Account is deactivated.');
+      }
+      if (this.isEmailVerificationRequired() && !user.emailVerified) {
+        throw new ForbiddenException('Email address has not been verified.');
+      }
+      if (user.mfaEnabled) {
+        this.logger.log(`MFA required for user ${email}.`);
+      }
+      const result = user.mfaEnabled
+        ? await this.createMfaChallenge(user)
+        : await this.startSession(user, client);
+      await this._auditService.record({
+        action: AuditAction.LOGIN,
+        outcome: AuditOutcome.SUCCESS,
+        actorId: user.id,
+        targetId: user.id,
+        client,
+        details: { email, mfaRequired: user.mfaEnabled ?? false },
+      });
+      this._metricsService.recordLogin(AuditOutcome.SUCCESS);
+      return result;
     } catch (error) {
+      this._metricsService.recordLogin(AuditOutcome.FAILURE);
+      await this._auditService.recordFailure(
+        {
+          action: AuditAction.LOGIN,
+          actorId: user?.id,
+          targetId: user?.id,
+          client,
+          details: { email },
+        },
+        error
+      );
       throw error;
     }
   }
 
   /**
    * Registers a new user account with the provided email and password, validates uniqueness,
-   * creates the user in the database, and generates JWT access and refresh tokens for authentication.
-   * Handles conflict errors if the email is already in use.
+   * creates the user in the database, sends the email verification link and generates JWT access and
+   * refresh tokens for authentication. When email verification is required, no tokens are issued until
+   * the email address has been verified. Handles conflict errors if the email is already in use.
    *
    * @param {string} email - The email  to register for the new user.
    * @param {string} pass - The password to associate with the new user account.
+   * @param {SessionClient} client - The user agent and IP address recorded on the new session.
    *
-   * @returns {Promise<{ access_token: string; refresh_token: string }>} Resolves with the generated access and refresh tokens for the newly created user.
+   * @returns {Promise<SignUpResult>} Resolves with the generated access and refresh tokens for the newly created user, or a message when verification is pending.
    *
    * @throws {ConflictException} Throws if the provided email is already registered.
+   * @throws {PasswordPolicyException} Throws if the password violates the password policy.
    * @throws {Error} Throws if an unexpected error occurs during user creation or token generation.
    */
   async signUp(
     email: string,
-    pass: string
-  ): Promise<{ access_token: string; refresh_token: string }> {
+    pass: string,
+    client?: SessionClient
+  ): Promise<SignUpResult> {
     try {
       this.logger.log(`Signing up user: ${email}`);
-      const existingUser = await this._usersService.findOne(email);
-      if (existingUser) {
+      if (await this._usersService.isEmailTaken(email)) {
         throw new ConflictException('Provided email address cannot be used.');
       }
+      await this._passwordPolicyService.assertValid(pass, { email });
       this.logger.log(`Creating new user: ${email}`);
       const user = await this._usersService.create(email, pass);
       this.logger.log(`User ${email} created successfully.`);
-      const payload = { sub: user.id, email: user.email, role: user.role };
-      const eventValues = {
-        id: user.id,
-        role: user.role,
-        isActive: user.isActive,
-      };
-      this.kafkaClient.emit('user-topic', {
-        key: String(user.id),
-        value: JSON.stringify(eventValues),
+      await this._auditService.record({
+        action: AuditAction.REGISTER,
+        outcome: AuditOutcome.SUCCESS,
+        actorId: user.id,
+        targetId: user.id,
+        client,
+        details: { email },
       });
-      this.logger.log(`Emitted user creation event for: ${email}`);
-      return {
-        access_token: await this._jwtService.signAsync(payload),
-        refresh_token: await this._jwtService.signAsync(payload, {
-          expiresIn:
-            this._configService.get<string>('REFRESH_TOKEN_EXPIRATION') ?? '7d',
-          secret: this._configService.get<string>('REFRESH_TOKEN_SECRET') ?? '',
-        }),
-      };
+      this._metricsService.recordRegistration(AuditOutcome.SUCCESS);
+      await this.sendVerificationEmail(user);
+      if (this.isEmailVerificationRequired()) {
+        return { message: 'Please verify your email address to sign in.' };
+      }
+      return await this.startSession(user, client);
     } catch (error) {
+      this._metricsService.recordRegistration(AuditOutcome.FAILURE);
+      await this._auditService.recordFailure(
+        { action: AuditAction.REGISTER, client, details: { email } },
+        error
+      );
       throw error;
     }
   }
 
   /**
-   * Generates a new access token for the user with the given email.
+   * Exchanges an MFA token from `signIn` and a second factor for access and refresh tokens.
+   * Wrong codes count as failed logins, so guessing is subject to the same lockout.
+   * The MFA token can only be used for one successful verification.
    *
-   * @param {string} email - The email of the user for whom to generate the access token.
+   * @param {string} mfaToken - The short-lived token returned by `signIn`.
+   * @param {string} code - A TOTP code or an unused recovery code.
+   * @param {SessionClient} client - The user agent and IP address recorded on the new session.
    *
-   * @returns {Promise<{ access_token: string }>} Resolves with the newly generated access token.
+   * @returns {Promise<AuthTokens>} Resolves with the access and refresh tokens.
    *
-   * @throws {UnauthorizedException} Throws if the user does not exist.
+   * @throws {UnauthorizedException} Throws if the MFA token is invalid, expired or already used, or the code is wrong.
+   * @throws {TooManyLoginAttemptsException} Throws if the account is locked or the IP address is throttled.
    */
-  async generateAccessToken({
-    email,
-  }: {
-    email: string;
-  }): Promise<{ access_token: string }> {
-    this.logger.log(`Generating access token for user: ${email}`);
+  async verifyMfa(
+    mfaToken: string,
+    code: string,
+    client?: SessionClient
+  ): Promise<AuthTokens> {
+    let payload: VerifiedClaims<MfaTokenPayload>;
+    try {
+      payload = await this._jwtService.verifyAsync<
+        VerifiedClaims<MfaTokenPayload>
+      >(mfaToken, {
+        secret: this._configService.get<string>('MFA_TOKEN_SECRET'),
+      });
+    } catch {
+      throw new UnauthorizedException('Invalid or expired MFA token.');
+    }
+    const user =
+      payload.purpose === 'mfa_pending' && payload.jti
+        ? await this._usersService.findById(payload.sub)
+        : undefined;
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException('Invalid or expired MFA token.');
+    }
+    await this._loginAttemptsService.assertAllowed(client, user);
+    if (!(await this._mfaService.verifyCode(user.id, code))) {
+      await this._loginAttemptsService.recordFailure(client, user);
+      const error = new UnauthorizedException('Invalid MFA code.');
+      await this._auditService.recordFailure(
+        {
+          action: AuditAction.MFA_VERIFY,
+          actorId: user.id,
+          targetId: user.id,
+          client,
+        },
+        error
+      );
+      throw error;
+    }
+    if (
+      !(await this._revokedTokensService.consume(
+        payload.jti,
+        new Date(payload.exp * 1000)
+      ))
+    ) {
+      throw new UnauthorizedException('Invalid or expired MFA token.');
+    }
+    await this._loginAttemptsService.recordSuccess(user);
+    this.logger.log(`MFA verified for user: ${user.id}`);
+    await this._auditService.record({
+      action: AuditAction.MFA_VERIFY,
+      outcome: AuditOutcome.SUCCESS,
+      actorId: user.id,
+      targetId: user.id,
+      client,
+    });
+    return await this.startSession(user, client);
+  }
+
+  /**
+   * Restores an account scheduled for deletion, as long as its grace period has not ended.
+   * Requires the account's credentials and is throttled like a sign in.
+   *
+   * @param {string} email - The email of the deleted account.
+   * @param {string} pass - The plaintext password of the deleted account.
+   * @param {SessionClient} client - The user agent and IP address of the caller.
+   *
+   * @returns {Promise<void>} Resolves once the account has been restored.
+   *
+   * @throws {UnauthorizedException} Throws if no restorable account matches the credentials.
+   * @throws {TooManyLoginAttemptsException} Throws if the IP address is throttled.
+   */
+  async restoreAccount(
+    email: string,
+    pass: string,
+    client?: SessionClient
+  ): Promise<void> {
+    this.logger.log(`Restoring account: ${email}`);
+    await this._loginAttemptsService.assertAllowed(client);
+    const user = await this._usersService.findRestorable(email);
+    if (!user || !(await comparePasswords(pass, user.password))) {
+      await this._loginAttemptsService.recordFailure(client);
+      throw new UnauthorizedException('Invalid email or password provided.');
+    }
+    await this._usersService.restore(user.id);
+    this.logger.log(`Account restored: ${user.id}`);
+  }
+
+  /**
+   * Starts TOTP enrollment for the authenticated user.
+   *
+   * @param {AuthUser} user - The authenticated user.
+   *
+   * @returns {Promise<TotpSetup>} Resolves with the secret and otpauth URI.
+   *
+   * @throws {ConflictException} Throws if MFA is already enabled.
+   */
+  async setupTotp(user: AuthUser): Promise<TotpSetup> {
+    return await this._mfaService.startTotpSetup(user.userId, user.email);
+  }
+
+  /**
+   * Finishes TOTP enrollment for the authenticated user.
+   *
+   * @param {AuthUser} user - The authenticated user.
+   * @param {string} code - The current code from the authenticator app.
+   *
+   * @returns {Promise<{ recovery_codes: string[] }>} Resolves with the one-time recovery codes.
+   *
+   * @throws {BadRequestException} Throws if the code is wrong.
+   * @throws {ConflictException} Throws if there is no pending setup.
+   */
+  async confirmTotp(
+    user: AuthUser,
+    code: string
+  ): Promise<{ recovery_codes: string[] }> {
+    const recoveryCodes = await this._mfaService.confirmTotp(user.userId, code);
+    if (!recoveryCodes) {
+      throw new BadRequestException('Invalid MFA code.');
+    }
+    return { recovery_codes: recoveryCodes };
+  }
+
+  /**
+   * Marks the email address embedded in a verification token as verified.
+   * Tokens issued for a previous email address of the user are rejected.
+   *
+   * @param {string} token - The signed verification token from the emailed link.
+   *
+   * @returns {Promise<void>} Resolves once the email address has been verified.
+   *
+   * @throws {BadRequestException} Throws if the token is invalid, expired or no longer matches the user.
+   */
+  async verifyEmail(token: string): Promise<void> {
+    let payload: EmailVerificationPayload;
+    try {
+      payload = await this._jwtService.verifyAsync<EmailVerificationPayload>(
+        token,
+        {
+          secret: this._configService.get<string>('EMAIL_VERIFICATION_SECRET'),
+        }
+      );
+    } catch {
+      throw new BadRequestException('Invalid or expired verification token.');
+    }
+    const user =
+      payload.purpose === 'verify-email'
+        ? await this._usersService.findById(payload.sub)
+        : undefined;
+    if (!user || user.email !== payload.email) {
+      throw new BadRequestException('Invalid or expired verification token.');
+    }
+    if (!user.emailVerified) {
+      await this._usersService.markEmailVerified(user.id);
+    }
+    this.logger.log(`Email verified for user: ${user.id}`);
+  }
+
+  /**
+   * Sends a new verification link if the email belongs to an unverified account.
+   * Does nothing otherwise, so callers cannot learn which email addresses are registered.
+   *
+   * @param {string} email - The email address to send the verification link to.
+   *
+   * @returns {Promise<void>} Resolves once the link has been sent or skipped.
+   */
+  async resendVerificationEmail(email: string): Promise<void> {
+    const user = await this._usersService.findOne(email);
+    if (!user || user.emailVerified) {
+      this.logger.log(`Skipping verification email for: ${email}`);
+      return;
+    }
+    await this.sendVerificationEmail(user);
+  }
+
+  /**
+   * Emails a single-use password reset link if the email belongs to an account.
+   * Does nothing otherwise, so callers cannot learn which email addresses are registered.
+   *
+   * @param {string} email - The email address of the account to recover.
+   *
+   * @returns {Promise<void>} Resolves once the link has been sent or skipped.
+   */
+  async forgotPassword(email: string): Promise<void> {
     const user = await this._usersService.findOne(email);
     if (!user) {
-      throw new UnauthorizedException();
+      this.logger.log(`Skipping password reset for unknown email: ${email}`);
+      return;
     }
-    this.logger.log(`User ${email} found.`);
-    const payload = { sub: user.id, email: user.email, role: user.role };
-    return {
-      access_token: await this._jwtService.signAsync(payload),
+    await this.sendPasswordResetLink(user);
+  }
+
+  /**
+   * Forces a user to choose a new password: the current password stops working,
+   * every session is revoked and a reset link is emailed to the user.
+   *
+   * @param {number} userId - The id of the user whose password is reset.
+   *
+   * @returns {Promise<void>} Resolves once the reset has been forced.
+   *
+   * @throws {NotFoundException} Throws if the user does not exist.
+   */
+  async forcePasswordReset(userId: number): Promise<void> {
+    const user = await this._usersService.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    await this._usersService.updatePassword(
+      user.id,
+      randomBytes(32).toString('hex'),
+      'password-reset-forced'
+    );
+    await this._sessionsService.revokeAllForUser(user.id);
+    await this.sendPasswordResetLink(user);
+    this.logger.log(`Forced password reset for user: ${user.id}`);
+  }
+
+  /**
+   * Sets a new password with a reset token, signs the user out everywhere and
+   * publishes a password reset event.
+   *
+   * @param {string} token - The single-use token from the emailed link.
+   * @param {string} password - The new plaintext password.
+   *
+   * @returns {Promise<void>} Resolves once the password has been changed.
+   *
+   * @throws {BadRequestException} Throws if the token is invalid, expired or already used.
+   * @throws {PasswordPolicyException} Throws if the password violates the password policy, the token stays valid.
+   */
+  async resetPassword(token: string, password: string): Promise<void> {
+    const userId = await this._passwordResetsService.findUserId(token);
+    const user = userId ? await this._usersService.findById(userId) : undefined;
+    if (!user) {
+      throw new BadRequestException('Invalid or expired password reset token.');
+    }
+    await this._passwordPolicyService.assertValid(password, {
+      email: user.email,
+      userId: user.id,
+    });
+    if (!(await this._passwordResetsService.consume(token))) {
+      throw new BadRequestException('Invalid or expired password reset token.');
+    }
+    await this._usersService.updatePassword(
+      user.id,
+      password,
+      'password-reset'
+    );
+    await this._sessionsService.revokeAllForUser(user.id);
+    this.logger.log(`Password reset for user: ${user.id}`);
+  }
+
+  /**
+   * Changes the password of the authenticated user and signs out every other session.
+   * Wrong current passwords count as failed sign-ins, so they can lock the account.
+   *
+   * @param {AuthUser} user - The authenticated user.
+   * @param {string} currentPassword - The password the user has now.
+   * @param {string} newPassword - The new plaintext password.
+   * @param {SessionClient} client - The user agent and IP address of the caller.
+   *
+   * @returns {Promise<void>} Resolves once the password has been changed.
+   *
+   * @throws {BadRequestException} Throws if the current password is wrong.
+   * @throws {TooManyLoginAttemptsException} Throws if the account is locked or the IP address is throttled.
+   * @throws {PasswordPolicyException} Throws if the new password violates the password policy.
+   */
+  async changePassword(
+    user: AuthUser,
+    currentPassword: string,
+    newPassword: string,
+    client?: SessionClient
+  ): Promise<void> {
+    const audit = {
+      action: AuditAction.PASSWORD_CHANGE,
+      actorId: user.userId,
+      targetId: user.userId,
+      client,
     };
+    try {
+      const account = await this.verifyCurrentPassword(
+        user,
+        currentPassword,
+        client
+      );
+      await this._passwordPolicyService.assertValid(newPassword, {
+        email: account.email,
+        userId: account.id,
+      });
+      await this._usersService.updatePassword(
+        account.id,
+        newPassword,
+        'password-change'
+      );
+      await this._sessionsService.revokeAllForUser(account.id, user.sessionId);
+      await this._auditService.record({
+        ...audit,
+        outcome: AuditOutcome.SUCCESS,
+      });
+      this.logger.log(`Password changed for user: ${account.id}`);
+    } catch (error) {
+      await this._auditService.recordFailure(audit, error);
+      throw error;
+    }
   }
 
   /**
-   * Validates the user's role based on the provided payload.
+   * Emails a confirmation link to the new address. The email only changes once the
+   * link has been followed, see `confirmEmailChange`.
+   *
+   * @param {AuthUser} user - The authenticated user.
+   * @param {string} email - The new email address.
+   * @param {string} currentPassword - The password of the user, to confirm it is them.
+   * @param {SessionClient} client - The user agent and IP address of the caller.
    *
-   * This method retrieves the user by email and checks if the user's role matches
-   * the role specified in the payload. If the user does not exist or the roles do not match,
-   * an `UnauthorizedException` is thrown.
+   * @returns {Promise<void>} Resolves once the confirmation link has been sent.
+   *
+   * @throws {BadRequestException} Throws if the current password is wrong or the address is the current one.
+   * @throws {ConflictException} Throws if the address belongs to another account.
+   * @throws {TooManyLoginAttemptsException} Throws if the account is locked or the IP address is throttled.
+   */
+  async requestEmailChange(
+    user: AuthUser,
+    email: string,
+    currentPassword: string,
+    client?: SessionClient
+  ): Promise<void> {
+    const audit = {
+      action: AuditAction.EMAIL_CHANGE,
+      actorId: user.userId,
+      targetId: user.userId,
+      client,
+      details: { email, step: 'requested' },
+    };
+    try {
+      const account = await this.verifyCurrentPassword(
+        user,
+        currentPassword,
+        client
+      );
+      if (account.email === email) {
+        throw new BadRequestException(
+          'The new email address is the current one.'
+        );
+      }
+      if (await this._usersService.isEmailTaken(email)) {
+        throw new ConflictException('Provided email address cannot be used.');
+      }
+      const payload: EmailChangePayload = {
+        sub: account.id,
+        email,
+        previousEmail: account.email,
+        sid: user.sessionId,
+        purpose: 'change-email',
+      };
+      const token = await this._jwtService.signAsync(payload, {
+        secret: this._configService.get<string>('EMAIL_VERIFICATION_SECRET'),
+        expiresIn:
+          this._configService.get<JwtSignOptions['expiresIn']>(
+            'EMAIL_VERIFICATION_EXPIRE'
+          ) ?? '1d',
+      });
+      const link = new URL(
+        this._configService.get<string>('EMAIL_CHANGE_URL') ??
+          'http://localhost:3000/confirm-email'
+      );
+      link.searchParams.set('token', token);
+      await this._mailService.sendEmailChangeConfirmation(
+        email,
+        link.toString()
+      );
+      await this._auditService.record({
+        ...audit,
+        outcome: AuditOutcome.SUCCESS,
+      });
+      this.logger.log(`Email change requested for user: ${account.id}`);
+    } catch (error) {
+      await this._auditService.recordFailure(audit, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Moves the user to the email address a confirmation link was sent to, and signs out
+   * every session except the one the change was requested from. A link stops working
+   * once the email has changed, so it can only be used once.
+   *
+   * @param {string} token - The signed token from the emailed link.
+   * @param {SessionClient} client - The user agent and IP address of the caller.
+   *
+   * @returns {Promise<void>} Resolves once the email has been changed.
+   *
+   * @throws {BadRequestException} Throws if the token is invalid, expired or already used.
+   * @throws {ConflictException} Throws if another account took the address in the meantime.
+   */
+  async confirmEmailChange(
+    token: string,
+    client?: SessionClient
+  ): Promise<void> {
+    let payload: EmailChangePayload;
+    try {
+      payload = await this._jwtService.verifyAsync<EmailChangePayload>(token, {
+        secret: this._configService.get<string>('EMAIL_VERIFICATION_SECRET'),
+      });
+    } catch {
+      throw new BadRequestException('Invalid or expired confirmation token.');
+    }
+    const user =
+      payload.purpose === 'change-email'
+        ? await this._usersService.findById(payload.sub)
+        : undefined;
+    if (!user || user.email !== payload.previousEmail) {
+      throw new BadRequestException('Invalid or expired confirmation token.');
+    }
+    const audit = {
+      action: AuditAction.EMAIL_CHANGE,
+      actorId: user.id,
+      targetId: user.id,
+      client,
+      details: { email: payload.email, step: 'confirmed' },
+    };
+    try {
+      await this._usersService.changeEmail(user.id, payload.email);
+      await this._sessionsService.revokeAllForUser(user.id, payload.sid);
+      await this._auditService.record({
+        ...audit,
+        outcome: AuditOutcome.SUCCESS,
+      });
+      this.logger.log(`Email changed for user: ${user.id}`);
+    } catch (error) {
+      await this._auditService.recordFailure(audit, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rotates the refresh token of the session it belongs to and issues a new token pair.
+   * The subject is always taken from the verified refresh token, never from the request body.
+   * Presenting a refresh token that has already been rotated revokes the whole session.
+   *
+   * @param {RefreshUser} refreshUser - The claims extracted from the verified refresh token.
+   * @param {SessionClient} client - The user agent and IP address of the caller, for the audit trail.
+   *
+   * @returns {Promise<AuthTokens>} Resolves with the new access and refresh tokens.
+   *
+   * @throws {UnauthorizedException} Throws if the session is unknown, revoked, expired or the token was reused.
+   */
+  async refreshTokens(
+    refreshUser: RefreshUser,
+    client?: SessionClient
+  ): Promise<AuthTokens> {
+    const audit = {
+      action: AuditAction.TOKEN_REFRESH,
+      actorId: refreshUser.userId,
+      targetId: refreshUser.userId,
+      client,
+      details: { sessionId: refreshUser.sessionId },
+    };
+    try {
+      const tokens = await this.rotateTokens(refreshUser);
+      await this._auditService.record({
+        ...audit,
+        outcome: AuditOutcome.SUCCESS,
+      });
+      this._metricsService.recordTokenRefresh(AuditOutcome.SUCCESS);
+      return tokens;
+    } catch (error) {
+      this._metricsService.recordTokenRefresh(AuditOutcome.FAILURE);
+      await this._auditService.recordFailure(audit, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Verifies a raw refresh token and rotates it like `refreshTokens`. Used where the token
+   * is not passed as a bearer token, e.g. the GraphQL `refreshToken` mutation.
+   *
+   * @param {string} refreshToken - The refresh token issued at sign in or by the last refresh.
+   * @param {SessionClient} client - The user agent and IP address of the caller, for the audit trail.
+   *
+   * @returns {Promise<AuthTokens>} Resolves with the new access and refresh tokens.
+   *
+   * @throws {UnauthorizedException} Throws if the token is invalid, expired or was reused.
+   */
+  async refreshWithToken(
+    refreshToken: string,
+    client?: SessionClient
+  ): Promise<AuthTokens> {
+    let payload: RefreshTokenPayload;
+    try {
+      payload = await this.verifyRefreshToken(refreshToken);
+    } catch {
+      throw new UnauthorizedException('Invalid refresh token.');
+    }
+    return await this.refreshTokens(
+      {
+        userId: payload.sub,
+        sessionId: payload.sid,
+        tokenId: payload.jti,
+      },
+      client
+    );
+  }
+
+  /**
+   * Revokes a single session so neither its refresh token nor its access tokens are accepted anymore.
+   *
+   * @param {AuthUser} user - The authenticated user owning the session.
+   *
+   * @returns {Promise<void>} Resolves once the session has been revoked.
+   */
+  async logout(user: AuthUser): Promise<void> {
+    this.logger.log(`Revoking session: ${user.sessionId}`);
+    await this._sessionsService.revoke(user.sessionId);
+  }
+
+  /**
+   * Revokes every session of the authenticated user, signing them out on all devices.
+   *
+   * @param {AuthUser} user - The authenticated user.
+   *
+   * @returns {Promise<void>} Resolves once all sessions have been revoked.
+   */
+  async logoutAll(user: AuthUser): Promise<void> {
+    this.logger.log(`Revoking all sessions for user: ${user.userId}`);
+    await this._sessionsService.revokeAllForUser(user.userId);
+  }
+
+  /**
+   * Lists the active sessions of the authenticated user, flagging the one the request was made with.
+   *
+   * @param {AuthUser} user - The authenticated user.
+   *
+   * @returns {Promise<SessionView[]>} Resolves with the user's active sessions.
+   */
+  async listSessions(user: AuthUser): Promise<SessionView[]> {
+    return await this._sessionsService.findActiveByUser(
+      user.userId,
+      user.sessionId
+    );
+  }
+
+  /**
+   * Revokes one of the authenticated user's sessions, e.g. to sign out a lost device.
+   *
+   * @param {AuthUser} user - The authenticated user.
+   * @param {string} sessionId - The id of the session to revoke.
+   *
+   * @returns {Promise<void>} Resolves once the session has been revoked.
+   *
+   * @throws {NotFoundException} Throws if the session does not exist, is already revoked or belongs to someone else.
+   */
+  async revokeSession(user: AuthUser, sessionId: string): Promise<void> {
+    this.logger.log(`Revoking session ${sessionId} for user: ${user.userId}`);
+    const revoked = await this._sessionsService.revokeForUser(
+      sessionId,
+      user.userId
+    );
+    if (!revoked) {
+      throw new NotFoundException('Session not found');
+    }
+  }
+
+  /**
+   * Validates the user's roles based on the provided payload.
+   *
+   * This method retrieves the user by the ID in the token, so tokens stay valid after the
+   * user changes their email address, and checks if the user's roles match
+   * the roles specified in the payload. If the user does not exist or the roles do not match,
+   * an `UnauthorizedException` is thrown. The permissions granted by the roles are
+   * resolved here, so changes to a role apply to the next request.
+   *
+   * The session the token was issued for must also still be active, so that
+   * logging out invalidates outstanding access tokens immediately. Its `lastUsedAt`
+   * is updated along the way, at most once a minute.
    *
    * @param payload - An object containing user identification and role information.
-   * @returns An object containing the user's ID, email, and role if validation succeeds.
-   * @throws {UnauthorizedException} If the user is not found or the role does not match.
+   * @returns An object containing the user's ID, email, roles, permissions and session ID if validation succeeds.
+   * @throws {UnauthorizedException} If the user is not found or deactivated, the roles do not match or the session is revoked.
    */
-  async validateUserRole(payload: any) {
-    const user = await this._usersService.findOne(payload.email);
-    if (!user || user.role !== payload.role) {
+  async validateUserRole(payload: JwtPayload): Promise<AuthUser> {
+    const user = await this._usersService.findById(payload.sub);
+    if (!user || !user.isActive || !this.haveSameRoles(user, payload)) {
       throw new UnauthorizedException('Unauthorized access.');
     }
-    return { userId: payload.sub, email: payload.email, role: payload.role };
+    const session = payload.sid
+      ? await this._sessionsService.findById(payload.sid)
+      : undefined;
+    if (
+      !session ||
+      session.userId !== user.id ||
+      !this._sessionsService.isActive(session)
+    ) {
+      throw new UnauthorizedException('Unauthorized access.');
+    }
+    if (
+      payload.jti &&
+      (await this._revokedTokensService.isRevoked(payload.jti))
+    ) {
+      throw new UnauthorizedException('Unauthorized access.');
+    }
+    await this._sessionsService.touch(session);
+    return {
+      userId: user.id,
+      email: user.email,
+      roles: payload.roles,
+      permissions: await this._rolesService.getPermissions(payload.roles),
+      sessionId: payload.sid,
+    };
+  }
+
+  /**
+   * Validates an access token on behalf of another service. The token must be signed by
+   * this service, its session must be active and its user must still be active with the
+   * same roles.
+   *
+   * @param {string} token - The access token to validate.
+   *
+   * @returns {Promise<TokenValidationResult>} Resolves with the user and session if valid, or `{ valid: false }`.
+   */
+  async validateAccessToken(token: string): Promise<TokenValidationResult> {
+    let payload: JwtPayload;
+    try {
+      payload = await this.verifyAccessToken(token);
+    } catch {
+      return { valid: false };
+    }
+    let authUser: AuthUser;
+    try {
+      authUser = await this.validateUserRole(payload);
+    } catch (error) {
+      if (error instanceof UnauthorizedException) {
+        return { valid: false };
+      }
+      throw error;
+    }
+    const user = await this._usersService.findById(authUser.userId);
+    if (!user) {
+      return { valid: false };
+    }
+    return {
+      valid: true,
+      user: toPublicUser(user),
+      sessionId: authUser.sessionId,
+    };
+  }
+
+  /**
+   * Tells a resource server whether a token is active (RFC 7662). Access tokens are
+   * checked like on every request here, refresh tokens must be the current token of an
+   * active session of an active user.
+   *
+   * @param {string} token - The access or refresh token.
+   * @param {string} tokenTypeHint - The type to try first, `access_token` unless `refresh_token`.
+   *
+   * @returns {Promise<TokenIntrospection>} Resolves with the claims of an active token, or `{ active: false }`.
+   */
+  async introspectToken(
+    token: string,
+    tokenTypeHint?: string
+  ): Promise<TokenIntrospection> {
+    const introspections = [
+      () => this.introspectAccessToken(token),
+      () => this.introspectRefreshToken(token),
+    ];
+    if (tokenTypeHint === (TokenTypeHint.REFRESH_TOKEN as string)) {
+      introspections.reverse();
+    }
+    for (const introspect of introspections) {
+      const result = await introspect();
+      if (result) {
+        return result;
+      }
+    }
+    return { active: false };
+  }
+
+  /**
+   * Revokes a token (RFC 7009). An access token is denylisted until it expires, a refresh
+   * token revokes its session and with it every token of the session. Invalid tokens are
+   * ignored, so callers cannot probe which tokens exist.
+   *
+   * @param {string} token - The access or refresh token.
+   * @param {string} tokenTypeHint - The type to try first, `access_token` unless `refresh_token`.
+   *
+   * @returns {Promise<void>} Resolves once the token is revoked or found invalid.
+   */
+  async revokeToken(token: string, tokenTypeHint?: string): Promise<void> {
+    const revocations = [
+      () => this.revokeAccessToken(token),
+      () => this.revokeRefreshToken(token),
+    ];
+    if (tokenTypeHint === (TokenTypeHint.REFRESH_TOKEN as string)) {
+      revocations.reverse();
+    }
+    for (const revoke of revocations) {
+      if (await revoke()) {
+        return;
+      }
+    }
+  }
+
+  // Tokens issued before a role change, or without roles, are no longer accepted
+  private haveSameRoles(user: SafeUser, payload: JwtPayload): boolean {
+    if (!Array.isArray(payload.roles)) {
+      return false;
+    }
+    const roles = new Set(user.roles);
+    return (
+      roles.size === new Set(payload.roles).size &&
+      payload.roles.every((role) => roles.has(role))
+    );
+  }
+
+  private isEmailVerificationRequired(): boolean {
+    return (
+      this._configService.get<boolean>('REQUIRE_EMAIL_VERIFICATION') === true
+    );
+  }
+
+  /**
+   * Confirms a sensitive change with the user's current password. Failures are counted
+   * like failed sign-ins, so a stolen access token cannot be used to guess the password.
+   */
+  private async verifyCurrentPassword(
+    user: AuthUser,
+    password: string,
+    client?: SessionClient
+  ): Promise<SafeUser> {
+    const account = await this._usersService.findById(user.userId);
+    if (!account) {
+      throw new NotFoundException('User not found');
+    }
+    await this._loginAttemptsService.assertAllowed(client, account);
+    if (!(await this._usersService.checkPassword(account.id, password))) {
+      await this._loginAttemptsService.recordFailure(client, account);
+      throw new BadRequestException('Current password is incorrect.');
+    }
+    await this._loginAttemptsService.recordSuccess(account);
+    return account;
+  }
+
+  /**
+   * Emails a signed, expiring verification link. Delivery failures are logged and not
+   * rethrown, the user can always ask for a new link.
+   */
+  private async sendVerificationEmail(user: SafeUser): Promise<void> {
+    const payload: EmailVerificationPayload = {
+      sub: user.id,
+      email: user.email,
+      purpose: 'verify-email',
+    };
+    const token = await this._jwtService.signAsync(payload, {
+      secret: this._configService.get<string>('EMAIL_VERIFICATION_SECRET'),
+      expiresIn:
+        this._configService.get<JwtSignOptions['expiresIn']>(
+          'EMAIL_VERIFICATION_EXPIRE'
+        ) ?? '1d',
+    });
+    const link = new URL(
+      this._configService.get<string>('EMAIL_VERIFICATION_URL') ??
+        'http://localhost:3000/verify-email'
+    );
+    link.searchParams.set('token', token);
+    try {
+      await this._mailService.sendEmailVerification(
+        user.email,
+        link.toString()
+      );
+    } catch (error) {
+      this.logger.error(
+        `Sending verification email failed for user: ${user.id}`,
+        error.stack
+      );
+    }
+  }
+
+  private async sendPasswordResetLink(user: SafeUser): Promise<void> {
+    const ttl = this._configService.get<number>('PASSWORD_RESET_TTL') ?? 900;
+    const token = await this._passwordResetsService.create(user.id, ttl);
+    const link = new URL(
+      this._configService.get<string>('PASSWORD_RESET_URL') ??
+        'http://localhost:3000/reset-password'
+    );
+    link.searchParams.set('token', token);
+    try {
+      await this._mailService.sendPasswordReset(
+        user.email,
+        link.toString(),
+        Math.ceil(ttl / 60)
+      );
+    } catch (error) {
+      this.logger.error(
+        `Sending password reset failed for user: ${user.id}`,
+        error.stack
+      );
+    }
+  }
+
+  private async createMfaChallenge(user: SafeUser): Promise<MfaChallenge> {
+    const payload: Omit<MfaTokenPayload, 'jti'> = {
+      sub: user.id,
+      purpose: 'mfa_pending',
+    };
+    return {
+      mfa_required: true,
+      mfa_token: await this._jwtService.signAsync(payload, {
+        jwtid: randomUUID(),
+        secret: this._configService.get<string>('MFA_TOKEN_SECRET'),
+        expiresIn:
+          this._configService.get<JwtSignOptions['expiresIn']>(
+            'MFA_TOKEN_EXPIRE'
+          ) ?? '5m',
+      }),
+    };
+  }
+
+  /**
+   * Verifies the session of a refresh token and rotates it, see `refreshTokens`.
+   */
+  private async rotateTokens({
+    userId,
+    sessionId,
+    tokenId,
+  }: RefreshUser): Promise<AuthTokens> {
+    this.logger.log(`Refreshing tokens for session: ${sessionId}`);
+    const session = await this._sessionsService.findById(sessionId);
+    if (
+      !session ||
+      session.userId !== userId ||
+      !this._sessionsService.isActive(session)
+    ) {
+      throw new UnauthorizedException('Invalid refresh token.');
+    }
+    const user = await this._usersService.findById(userId);
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException('Invalid refresh token.');
+    }
+    const nextTokenId = randomUUID();
+    const tokens = await this.signTokens(user, session.id, nextTokenId);
+    const rotated = await this._sessionsService.rotate(
+      session.id,
+      tokenId,
+      nextTokenId,
+      this.getRefreshTokenExpiry(tokens.refresh_token)
+    );
+    if (!rotated) {
+      this.logger.warn(
+        `Refresh token reuse detected, revoked session: ${session.id}`
+      );
+      throw new UnauthorizedException('Invalid refresh token.');
+    }
+    return tokens;
+  }
+
+  /**
+   * Opens a new session for the user and issues its first token pair.
+   */
+  private async startSession(
+    user: SafeUser,
+    client?: SessionClient
+  ): Promise<AuthTokens> {
+    const sessionId = randomUUID();
+    const tokenId = randomUUID();
+    const tokens = await this.signTokens(user, sessionId, tokenId);
+    await this._sessionsService.create(
+      sessionId,
+      user.id,
+      tokenId,
+      this.getRefreshTokenExpiry(tokens.refresh_token),
+      client
+    );
+    return tokens;
+  }
+
+  private async signTokens(
+    user: SafeUser,
+    sessionId: string,
+    tokenId: string
+  ): Promise<AuthTokens> {
+    const payload: JwtPayload = {
+      sub: user.id,
+      email: user.email,
+      roles: user.roles,
+      sid: sessionId,
+    };
+    const refreshPayload: Omit<RefreshTokenPayload, 'jti'> = {
+      sub: user.id,
+      sid: sessionId,
+    };
+    const signingKey = await this._signingKeysService.getSigningKey();
+    return {
+      access_token: await this._jwtService.signAsync(payload, {
+        jwtid: randomUUID(),
+        privateKey: signingKey.privateKey,
+        algorithm: signingKey.algorithm,
+        keyid: signingKey.kid,
+        issuer: this._configService.get<string>('JWT_ISSUER'),
+      }),
+      refresh_token: await this._jwtService.signAsync(refreshPayload, {
+        jwtid: tokenId,
+        expiresIn:
+          this._configService.get<JwtSignOptions['expiresIn']>(
+            'REFRESH_TOKEN_EXPIRE'
+          ) ?? '30d',
+        secret: this._configService.get<string>('REFRESH_TOKEN_SECRET') ?? '',
+      }),
+    };
+  }
+
+  // Access tokens are checked against the public key named by their `kid` header
+  private async verifyAccessToken(
+    token: string,
+    ignoreExpiration = false
+  ): Promise<VerifiedClaims<JwtPayload>> {
+    const key = await this._signingKeysService.getVerificationKey(token);
+    if (!key) {
+      throw new UnauthorizedException('Unknown signing key');
+    }
+    return await this._jwtService.verifyAsync<VerifiedClaims<JwtPayload>>(
+      token,
+      {
+        publicKey: key.publicKey,
+        algorithms: [key.algorithm],
+        issuer: this._configService.get<string>('JWT_ISSUER'),
+        ignoreExpiration,
+      }
+    );
+  }
+
+  private async verifyRefreshToken(
+    token: string,
+    ignoreExpiration = false
+  ): Promise<VerifiedClaims<RefreshTokenPayload>> {
+    return await this._jwtService.verifyAsync<
+      VerifiedClaims<RefreshTokenPayload>
+    >(token, {
+      secret: this._configService.get<string>('REFRESH_TOKEN_SECRET') ?? '',
+      ignoreExpiration,
+    });
+  }
+
+  // Resolves to undefined if the token is no access token, so the next type is tried
+  private async introspectAccessToken(
+    token: string
+  ): Promise<TokenIntrospection | undefined> {
+    let payload: VerifiedClaims<JwtPayload>;
+    try {
+      payload = await this.verifyAccessToken(token);
+    } catch {
+      return undefined;
+    }
+    let authUser: AuthUser;
+    try {
+      authUser = await this.validateUserRole(payload);
+    } catch (error) {
+      if (error instanceof UnauthorizedException) {
+        return { active: false };
+      }
+      throw error;
+    }
+    return {
+      active: true,
+      token_type: TokenTypeHint.ACCESS_TOKEN,
+      sub: String(payload.sub),
+      exp: payload.exp,
+      iat: payload.iat,
+      sid: payload.sid,
+      jti: payload.jti,
+      iss: payload.iss,
+      roles: authUser.roles,
+      scope: authUser.permissions.join(' '),
+    };
+  }
+
+  private async introspectRefreshToken(
+    token: string
+  ): Promise<TokenIntrospection | undefined> {
+    let payload: VerifiedClaims<RefreshTokenPayload>;
+    try {
+      payload = await this.verifyRefreshToken(token);
+    } catch {
+      return undefined;
+    }
+    const session = await this._sessionsService.findById(payload.sid);
+    const user = await this._usersService.findById(payload.sub);
+    if (
+      !session ||
+      session.userId !== payload.sub ||
+      session.currentTokenId !== payload.jti ||
+      !this._sessionsService.isActive(session) ||
+      !user?.isActive
+    ) {
+      return { active: false };
+    }
+    return {
+      active: true,
+      token_type: TokenTypeHint.REFRESH_TOKEN,
+      sub: String(payload.sub),
+      exp: payload.exp,
+      iat: payload.iat,
+      sid: payload.sid,
+      jti: payload.jti,
+    };
+  }
+
+  // Resolves to false if the token is no access token, so the next type is tried
+  private async revokeAccessToken(token: string): Promise<boolean> {
+    let payload: VerifiedClaims<JwtPayload>;
+    try {
+      payload = await this.verifyAccessToken(token, true);
+    } catch {
+      return false;
+    }
+    const expiresAt = new Date(payload.exp * 1000);
+    if (payload.jti && expiresAt > new Date()) {
+      await this._revokedTokensService.revoke(payload.jti, expiresAt);
+      this.logger.log(`Revoked access token ${payload.jti}`);
+    }
+    return true;
+  }
+
+  private async revokeRefreshToken(token: string): Promise<boolean> {
+    let payload: VerifiedClaims<RefreshTokenPayload>;
+    try {
+      payload = await this.verifyRefreshToken(token, true);
+    } catch {
+      return false;
+    }
+    const session = await this._sessionsService.findById(payload.sid);
+    if (session?.userId === payload.sub) {
+      await this._sessionsService.revoke(session.id);
+      this.logger.log(`Revoked session ${session.id} by its refresh token`);
+    }
+    return true;
+  }
+
+  private getRefreshTokenExpiry(refreshToken: string): Date {
+    const { exp } = this._jwtService.decode<{ exp: number }>(refreshToken);
+    return new Date(exp * 1000);
   }
 }
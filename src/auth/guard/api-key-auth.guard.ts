@@ -0,0 +1,28 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ApiKeysService } from 'src/api-keys/api-keys.service';
+import { API_KEY_HEADER } from 'src/api-keys/types/api-keys.type';
+import { getRequest } from '../utils/request';
+
+/**
+ * Authenticates internal services by the `X-API-Key` header and sets the resolved
+ * service principal as `request.user`.
+ */
+@Injectable()
+export class ApiKeyAuthGuard implements CanActivate {
+  constructor(private _apiKeysService: ApiKeysService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = getRequest(context);
+    const key = request.headers[API_KEY_HEADER];
+    if (typeof key !== 'string') {
+      throw new UnauthorizedException('Invalid API key');
+    }
+    request.user = await this._apiKeysService.authenticate(key);
+    return true;
+  }
+}
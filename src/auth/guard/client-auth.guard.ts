@@ -0,0 +1,52 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ApiKeysService } from 'src/api-keys/api-keys.service';
+import { API_KEY_HEADER } from 'src/api-keys/types/api-keys.type';
+import { getRequest } from '../utils/request';
+
+export const CLIENT_AUTH_METHODS = ['client_secret_basic'];
+
+/**
+ * Authenticates OAuth clients by HTTP Basic client credentials, where the client id is
+ * the prefix of an API key and the client secret the rest, e.g. `usk_1a2b3c4d:…`. The
+ * `X-API-Key` header is accepted as well. Sets the service principal as `request.user`.
+ */
+@Injectable()
+export class ClientAuthGuard implements CanActivate {
+  constructor(private _apiKeysService: ApiKeysService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = getRequest(context);
+    const key =
+      this.readBasicCredentials(request.headers.authorization) ??
+      request.headers[API_KEY_HEADER];
+    if (typeof key !== 'string') {
+      throw new UnauthorizedException('Invalid client credentials');
+    }
+    request.user = await this._apiKeysService.authenticate(key);
+    return true;
+  }
+
+  private readBasicCredentials(header?: string): string | undefined {
+    const [scheme, encoded] = header?.split(' ') ?? [];
+    if (scheme?.toLowerCase() !== 'basic' || !encoded) {
+      return undefined;
+    }
+    const [clientId, clientSecret] = Buffer.from(encoded, 'base64')
+      .toString()
+      .split(':');
+    if (!clientId || !clientSecret) {
+      return undefined;
+    }
+    // Client credentials are form encoded before base64, see RFC 6749 section 2.3.1
+    try {
+      return `${decodeURIComponent(clientId)}.${decodeURIComponent(clientSecret)}`;
+    } catch {
+      return undefined;
+    }
+  }
+}
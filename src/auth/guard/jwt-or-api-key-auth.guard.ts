@@ -0,0 +1,27 @@
+import { ExecutionContext, Injectable } from '@nestjs/common';
+import { ApiKeysService } from 'src/api-keys/api-keys.service';
+import { API_KEY_HEADER } from 'src/api-keys/types/api-keys.type';
+import { getRequest } from '../utils/request';
+import { ApiKeyAuthGuard } from './api-key-auth.guard';
+import { JwtAuthGuard } from './jwt-auth.guard';
+
+/**
+ * Accepts either a service API key or a user access token. Requests sending the
+ * `X-API-Key` header are authenticated by the key only.
+ */
+@Injectable()
+export class JwtOrApiKeyAuthGuard extends JwtAuthGuard {
+  private readonly apiKeyAuthGuard: ApiKeyAuthGuard;
+
+  constructor(apiKeysService: ApiKeysService) {
+    super();
+    this.apiKeyAuthGuard = new ApiKeyAuthGuard(apiKeysService);
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (getRequest(context).headers[API_KEY_HEADER] !== undefined) {
+      return await this.apiKeyAuthGuard.canActivate(context);
+    }
+    return (await super.canActivate(context)) as boolean;
+  }
+}
@@ -0,0 +1,66 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PermissionsGuard } from './permissions.guard';
+import { Permission } from 'src/roles/types/roles.type';
+
+describe('PermissionsGuard', () => {
+  const reflector = new Reflector();
+  const guard = new PermissionsGuard(reflector);
+
+  const httpContext = (permissions: Permission[]) =>
+    ({
+      getType: () => 'http',
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => ({ user: { permissions } }) }),
+    }) as unknown as ExecutionContext;
+
+  const graphqlContext = (permissions: Permission[]) =>
+    ({
+      getType: () => 'graphql',
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      getArgs: () => [{}, {}, { req: { user: { permissions } } }, {}],
+    }) as unknown as ExecutionContext;
+
+  const requires = (...permissions: Permission[]) =>
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(permissions);
+
+  it('should check the permissions of REST requests', () => {
+    requires(Permission.USERS_READ_ANY);
+
+    expect(guard.canActivate(httpContext([Permission.USERS_READ_ANY]))).toBe(
+      true
+    );
+    expect(() =>
+      guard.canActivate(httpContext([Permission.USERS_READ_SELF]))
+    ).toThrow(ForbiddenException);
+  });
+
+  it('should check the permissions of GraphQL requests', () => {
+    requires(Permission.ROLES_MANAGE_ANY);
+
+    expect(
+      guard.canActivate(graphqlContext([Permission.ROLES_MANAGE_ANY]))
+    ).toBe(true);
+    expect(() => guard.canActivate(graphqlContext([]))).toThrow(
+      ForbiddenException
+    );
+  });
+
+  it('should require every listed permission', () => {
+    requires(Permission.USERS_READ_ANY, Permission.USERS_MANAGE_ANY);
+
+    expect(() =>
+      guard.canActivate(httpContext([Permission.USERS_READ_ANY]))
+    ).toThrow(ForbiddenException);
+  });
+
+  it('should accept an any permission where a self permission is required', () => {
+    requires(Permission.USERS_UPDATE_SELF);
+
+    expect(guard.canActivate(httpContext([Permission.USERS_UPDATE_ANY]))).toBe(
+      true
+    );
+  });
+});
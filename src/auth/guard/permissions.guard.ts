@@ -0,0 +1,44 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Permission } from 'src/roles/types/roles.type';
+import { hasPermission } from 'src/roles/utils/permissions';
+import { PERMISSIONS_KEY } from '../permissions.decorator';
+import { getRequest } from '../utils/request';
+import { Principal } from '../types/auth.type';
+
+/**
+ * Requires every permission listed with `@RequirePermissions()`. Whether a `:self`
+ * permission covers the requested resource is left to the policies.
+ */
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requiredPermissions = this.reflector.getAllAndOverride<Permission[]>(
+      PERMISSIONS_KEY,
+      [context.getHandler(), context.getClass()]
+    );
+    if (!requiredPermissions) {
+      return true;
+    }
+    const principal = getRequest(context).user as Principal;
+
+    const allowed = requiredPermissions.every((permission) =>
+      hasPermission(principal.permissions, permission)
+    );
+
+    if (!allowed) {
+      throw new ForbiddenException(
+        'You do not have permission to access this resource.'
+      );
+    }
+
+    return allowed;
+  }
+}
@@ -0,0 +1,54 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { KafkaContext } from '@nestjs/microservices';
+import { ApiKeysService } from 'src/api-keys/api-keys.service';
+import { API_KEY_HEADER } from 'src/api-keys/types/api-keys.type';
+import { Permission } from 'src/roles/types/roles.type';
+import { hasPermission } from 'src/roles/utils/permissions';
+import { PERMISSIONS_KEY } from '../permissions.decorator';
+
+/**
+ * Authenticates internal services calling message patterns by the `x-api-key` header of
+ * the Kafka message, and requires the key's scopes to grant every permission listed with
+ * `@RequirePermissions()`.
+ */
+@Injectable()
+export class RpcApiKeyAuthGuard implements CanActivate {
+  constructor(
+    private _apiKeysService: ApiKeysService,
+    private reflector: Reflector
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const headers = context
+      .switchToRpc()
+      .getContext<KafkaContext>()
+      .getMessage()?.headers;
+    const key = headers?.[API_KEY_HEADER]?.toString();
+    if (!key) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+    const principal = await this._apiKeysService.authenticate(key);
+    const requiredPermissions =
+      this.reflector.getAllAndOverride<Permission[]>(PERMISSIONS_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? [];
+    if (
+      !requiredPermissions.every((permission) =>
+        hasPermission(principal.permissions, permission)
+      )
+    ) {
+      throw new ForbiddenException(
+        'You do not have permission to access this resource.'
+      );
+    }
+    return true;
+  }
+}
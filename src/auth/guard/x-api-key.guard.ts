@@ -1,25 +0,0 @@
-import {
-  CanActivate,
-  ExecutionContext,
-  ForbiddenException,
-  Injectable,
-} from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-import { Observable } from 'rxjs';
-
-@Injectable()
-export class XApiKeyGuard implements CanActivate {
-  constructor(private readonly configService: ConfigService) {}
-  canActivate(
-    context: ExecutionContext,
-  ): boolean | Promise<boolean> | Observable<boolean> {
-    const request: Request = context.switchToHttp().getRequest();
-    const apiKey = request.headers['x-api-key'];
-
-    if (!apiKey || apiKey !== this.configService.get<string>('xApiKey')) {
-      throw new ForbiddenException('Invalid API Key');
-    }
-
-    return true;
-  }
-}
@@ -0,0 +1,111 @@
+import { Test } from '@nestjs/testing';
+import { INestApplication, UnauthorizedException } from '@nestjs/common';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { OAuthController } from './oauth.controller';
+import { AuthService } from './auth.service';
+import { ApiKeysService } from 'src/api-keys/api-keys.service';
+import { Permission } from 'src/roles/types/roles.type';
+
+describe('OAuthController', () => {
+  let app: INestApplication<App>;
+  let authService: Record<string, jest.Mock>;
+  let apiKeysService: Record<string, jest.Mock>;
+
+  const basic = (clientId: string, clientSecret: string) =>
+    `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`;
+
+  beforeEach(async () => {
+    authService = {
+      introspectToken: jest.fn(() => Promise.resolve({ active: false })),
+      revokeToken: jest.fn(() => Promise.resolve()),
+    };
+    apiKeysService = {
+      authenticate: jest.fn((key: string) => {
+        const scopes: Record<string, Permission[]> = {
+          'usk_gateway.secret': [Permission.TOKENS_INTROSPECT_ANY],
+        };
+        if (!scopes[key]) {
+          return Promise.reject(new UnauthorizedException('Invalid API key'));
+        }
+        return Promise.resolve({
+          apiKeyId: 1,
+          name: 'gateway',
+          permissions: scopes[key],
+        });
+      }),
+    };
+    const module = await Test.createTestingModule({
+      controllers: [OAuthController],
+      providers: [
+        { provide: AuthService, useValue: authService },
+        { provide: ApiKeysService, useValue: apiKeysService },
+      ],
+    }).compile();
+
+    app = module.createNestApplication({ logger: false });
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should introspect tokens for clients authenticated with basic credentials', async () => {
+    await request(app.getHttpServer())
+      .post('/oauth/introspect')
+      .set('Authorization', basic('usk_gateway', 'secret'))
+      .send({ token: 'access-token', token_type_hint: 'access_token' })
+      .expect(200)
+      .expect({ active: false });
+
+    expect(apiKeysService.authenticate).toHaveBeenCalledWith(
+      'usk_gateway.secret'
+    );
+    expect(authService.introspectToken).toHaveBeenCalledWith(
+      'access-token',
+      'access_token'
+    );
+  });
+
+  it('should accept the API key header as client credentials', async () => {
+    await request(app.getHttpServer())
+      .post('/oauth/introspect')
+      .set('X-API-Key', 'usk_gateway.secret')
+      .send({ token: 'access-token' })
+      .expect(200);
+  });
+
+  it('should reject clients without valid credentials', async () => {
+    const introspect = () =>
+      request(app.getHttpServer())
+        .post('/oauth/introspect')
+        .send({ token: 'access-token' });
+
+    await introspect().expect(401);
+    await introspect().set('Authorization', 'Bearer access-token').expect(401);
+    await introspect()
+      .set('Authorization', basic('usk_gateway', ''))
+      .expect(401);
+    await introspect()
+      .set('Authorization', basic('usk_gateway', 'wrong'))
+      .expect(401)
+      .expect({
+        message: 'Invalid API key',
+        error: 'Unauthorized',
+        statusCode: 401,
+      });
+
+    expect(authService.introspectToken).not.toHaveBeenCalled();
+  });
+
+  it('should reject clients without the scope of the endpoint', async () => {
+    await request(app.getHttpServer())
+      .post('/oauth/revoke')
+      .set('Authorization', basic('usk_gateway', 'secret'))
+      .send({ token: 'refresh-token' })
+      .expect(403);
+
+    expect(authService.revokeToken).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Post,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import { AuthService } from './auth.service';
+import { RequirePermissions } from './permissions.decorator';
+import { PermissionsGuard } from './guard/permissions.guard';
+import { ClientAuthGuard } from './guard/client-auth.guard';
+import { User } from './auth.decorator';
+import {
+  ServicePrincipal,
+  TokenIntrospection,
+  TokenRequestDto,
+} from './types/auth.type';
+import { Permission } from 'src/roles/types/roles.type';
+
+@UseGuards(PermissionsGuard)
+@UseGuards(ClientAuthGuard)
+@Controller('oauth')
+export class OAuthController {
+  private readonly logger = new Logger(OAuthController.name);
+  constructor(private _authService: AuthService) {}
+
+  @RequirePermissions(Permission.TOKENS_INTROSPECT_ANY)
+  @HttpCode(HttpStatus.OK)
+  @Post('introspect')
+  /**
+   * Tells resource servers whether a token is still active, e.g. after the user was
+   * deactivated or their roles changed (RFC 7662).
+   *
+   * @param {TokenRequestDto} tokenRequestDto - The token and an optional `token_type_hint`.
+   * @param {ServicePrincipal} client - The authenticated client.
+   *
+   * @returns {Promise<TokenIntrospection>} Resolves with `active` and, if active, the claims of the token.
+   */
+  async introspect(
+    @Body(new ValidationPipe()) tokenRequestDto: TokenRequestDto,
+    @User() client: ServicePrincipal
+  ): Promise<TokenIntrospection> {
+    try {
+      return await this._authService.introspectToken(
+        tokenRequestDto.token,
+        tokenRequestDto.token_type_hint
+      );
+    } catch (error) {
+      this.logger.error(
+        `Introspecting token failed for client: ${client.name}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @RequirePermissions(Permission.TOKENS_REVOKE_ANY)
+  @HttpCode(HttpStatus.OK)
+  @Post('revoke')
+  /**
+   * Revokes an access or refresh token (RFC 7009). Responds the same for invalid tokens.
+   *
+   * @param {TokenRequestDto} tokenRequestDto - The token and an optional `token_type_hint`.
+   * @param {ServicePrincipal} client - The authenticated client.
+   *
+   * @returns {Promise<void>} Resolves once the token is revoked.
+   */
+  async revoke(
+    @Body(new ValidationPipe()) tokenRequestDto: TokenRequestDto,
+    @User() client: ServicePrincipal
+  ): Promise<void> {
+    this.logger.log(`Revoking token for client: ${client.name}`);
+    try {
+      await this._authService.revokeToken(
+        tokenRequestDto.token,
+        tokenRequestDto.token_type_hint
+      );
+    } catch (error) {
+      this.logger.error(
+        `Revoking token failed for client: ${client.name}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import { ForbiddenException } from '@nestjs/common';
+import { hasPermission } from 'src/roles/utils/permissions';
+import { Principal } from '../types/auth.type';
+
+export type Policy<T> = (principal: Principal, resource: T) => boolean;
+
+/**
+ * Builds a policy that allows `<resource>:<action>:any`, or `<resource>:<action>:self`
+ * when the user owns the resource. Service principals own nothing.
+ */
+export const ownershipPolicy =
+  <T>(
+    resource: string,
+    action: string,
+    getOwnerId: (target: T) => number
+  ): Policy<T> =>
+  (principal, target) =>
+    hasPermission(principal.permissions, `${resource}:${action}:any`) ||
+    ('userId' in principal &&
+      principal.permissions.includes(`${resource}:${action}:self`) &&
+      Number(getOwnerId(target)) === Number(principal.userId));
+
+export const enforcePolicy = <T>(
+  policy: Policy<T>,
+  principal: Principal,
+  resource: T,
+  message = 'You do not have permission to access this resource.'
+): void => {
+  if (!policy(principal, resource)) {
+    throw new ForbiddenException(message);
+  }
+};
@@ -1,5 +0,0 @@
-import { SetMetadata } from '@nestjs/common';
-import { Role } from 'src/users/types/users.type';
-
-export const ROLES_KEY = 'roles';
-export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
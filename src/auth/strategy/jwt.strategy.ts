@@ -3,21 +3,41 @@ import { PassportStrategy } from '@nestjs/passport';
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { AuthService } from '../auth.service';
+import { JwtPayload } from '../types/auth.type';
+import { SigningKeysService } from 'src/signing-keys/signing-keys.service';
+import { SigningAlgorithm } from 'src/signing-keys/types/signing-keys.type';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
     private readonly _configService: ConfigService,
-    private readonly _authService: AuthService
+    private readonly _authService: AuthService,
+    private readonly _signingKeysService: SigningKeysService
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
-      secretOrKey: _configService.get<string>('JWT_SECRET') ?? '',
+      algorithms: Object.values(SigningAlgorithm),
+      issuer: _configService.get<string>('JWT_ISSUER'),
+      // Picks the public key named by the token's `kid` header
+      secretOrKeyProvider: (
+        request: unknown,
+        rawJwtToken: string,
+        done: (error: Error | null, key?: string) => void
+      ) => {
+        _signingKeysService
+          .getVerificationKey(rawJwtToken)
+          .then((key) =>
+            key
+              ? done(null, key.publicKey)
+              : done(new Error('Unknown signing key'))
+          )
+          .catch((error: Error) => done(error));
+      },
     });
   }
 
-  async validate(payload: any) {
+  async validate(payload: JwtPayload) {
     // return { userId: payload.sub, email: payload.email, role: payload.role };
     return this._authService.validateUserRole(payload);
   }
@@ -2,6 +2,7 @@ import { ExtractJwt, Strategy } from 'passport-jwt';
 import { PassportStrategy } from '@nestjs/passport';
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { RefreshTokenPayload, RefreshUser } from '../types/auth.type';
 
 @Injectable()
 export class RefreshStrategy extends PassportStrategy(
@@ -16,7 +17,11 @@ export class RefreshStrategy extends PassportStrategy(
     });
   }
 
-  async validate(payload: any) {
-    return { userId: payload.sub, email: payload.email };
+  validate(payload: RefreshTokenPayload): RefreshUser {
+    return {
+      userId: payload.sub,
+      sessionId: payload.sid,
+      tokenId: payload.jti,
+    };
   }
 }
@@ -1,6 +1,13 @@
 import 'reflect-metadata';
 import { Transform } from 'class-transformer';
-import { IsEmail, IsString, Length } from 'class-validator';
+import { PublicUser } from 'src/users/types/users.type';
+import {
+  IsEmail,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+} from 'class-validator';
 
 export class SignInDto {
   @IsEmail({}, { message: 'Invalid email address' })
@@ -9,7 +16,7 @@ export class SignInDto {
   public readonly email: string;
 
   @IsString()
-  @Length(8, 50, { message: 'Password must be between 8 and 50 characters' })
+  @IsNotEmpty()
   @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
   public readonly password: string;
 }
@@ -20,15 +27,222 @@ export class SignUpDto {
   @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
   public readonly email: string;
 
+  // Checked against the password policy by the service, see PasswordPolicyService
   @IsString()
-  @Length(8, 50, { message: 'Password must be between 8 and 50 characters' })
+  @IsNotEmpty()
   @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
   public readonly password: string;
 }
 
-export class RefreshTokenDto {
+export class VerifyEmailDto {
+  @IsString()
+  @IsNotEmpty()
+  public readonly token: string;
+}
+
+export class ResendVerificationDto {
+  @IsEmail({}, { message: 'Invalid email address' })
+  @IsString()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  public readonly email: string;
+}
+
+export class ForgotPasswordDto {
   @IsEmail({}, { message: 'Invalid email address' })
   @IsString()
   @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
   public readonly email: string;
 }
+
+export class ResetPasswordDto {
+  @IsString()
+  @IsNotEmpty()
+  public readonly token: string;
+
+  // Checked against the password policy by the service, see PasswordPolicyService
+  @IsString()
+  @IsNotEmpty()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  public readonly password: string;
+}
+
+export class ChangePasswordDto {
+  @IsString()
+  @IsNotEmpty()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  public readonly currentPassword: string;
+
+  // Checked against the password policy by the service, see PasswordPolicyService
+  @IsString()
+  @IsNotEmpty()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  public readonly newPassword: string;
+}
+
+export class ChangeEmailDto {
+  @IsEmail({}, { message: 'Invalid email address' })
+  @IsString()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  public readonly email: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  public readonly currentPassword: string;
+}
+
+export class ConfirmEmailChangeDto {
+  @IsString()
+  @IsNotEmpty()
+  public readonly token: string;
+}
+
+export class ValidateTokenDto {
+  @IsString()
+  @IsNotEmpty()
+  public readonly token: string;
+}
+
+export enum TokenTypeHint {
+  ACCESS_TOKEN = 'access_token',
+  REFRESH_TOKEN = 'refresh_token',
+}
+
+// Body of `POST /oauth/introspect` and `POST /oauth/revoke`, see RFC 7662 and RFC 7009
+export class TokenRequestDto {
+  @IsString()
+  @IsNotEmpty()
+  public readonly token: string;
+
+  // Only decides which token type is tried first, unknown hints are ignored
+  @IsOptional()
+  @IsString()
+  public readonly token_type_hint?: string;
+}
+
+export class ConfirmTotpDto {
+  @IsString()
+  @Matches(/^\d{6}$/, { message: 'Code must be 6 digits' })
+  public readonly code: string;
+}
+
+export class VerifyMfaDto {
+  @IsString()
+  @IsNotEmpty()
+  public readonly mfa_token: string;
+
+  @IsString()
+  @IsNotEmpty()
+  public readonly code: string;
+}
+
+export type AuthTokens = {
+  access_token: string;
+  refresh_token: string;
+};
+
+export type JwtPayload = {
+  sub: number;
+  email: string;
+  roles: string[];
+  sid: string;
+  // Missing on tokens issued before revocation was supported
+  jti?: string;
+};
+
+// Registered claims set on every token we sign
+export type VerifiedClaims<T> = T & { exp: number; iat: number; iss?: string };
+
+export type RefreshTokenPayload = {
+  sub: number;
+  sid: string;
+  jti: string;
+};
+
+export type AuthUser = {
+  userId: number;
+  email: string;
+  roles: string[];
+  // Resolved from the roles on every request, so permission changes apply immediately
+  permissions: string[];
+  sessionId: string;
+};
+
+// An internal service authenticated with an API key; its permissions are the key's scopes
+export type ServicePrincipal = {
+  apiKeyId: number;
+  name: string;
+  permissions: string[];
+};
+
+export type Principal = AuthUser | ServicePrincipal;
+
+export type RefreshUser = {
+  userId: number;
+  sessionId: string;
+  tokenId: string;
+};
+
+export type EmailVerificationPayload = {
+  sub: number;
+  email: string;
+  purpose: 'verify-email';
+};
+
+// Binds the link to the address it replaces and to the session that asked for it
+export type EmailChangePayload = {
+  sub: number;
+  email: string;
+  previousEmail: string;
+  sid: string;
+  purpose: 'change-email';
+};
+
+export type SignUpResult = AuthTokens | { message: string };
+
+export type MfaChallenge = {
+  mfa_required: true;
+  mfa_token: string;
+};
+
+export type SignInResult = AuthTokens | MfaChallenge;
+
+export type TokenValidationResult =
+  { valid: true; user: PublicUser; sessionId: string } | { valid: false };
+
+// OpenID Connect discovery metadata, so other services can find our public keys
+export type DiscoveryDocument = {
+  issuer: string;
+  jwks_uri: string;
+  token_endpoint: string;
+  introspection_endpoint: string;
+  introspection_endpoint_auth_methods_supported: string[];
+  revocation_endpoint: string;
+  revocation_endpoint_auth_methods_supported: string[];
+  subject_types_supported: string[];
+  id_token_signing_alg_values_supported: string[];
+  claims_supported: string[];
+};
+
+export type TokenIntrospection =
+  | {
+      active: true;
+      token_type: TokenTypeHint;
+      sub: string;
+      exp: number;
+      iat: number;
+      sid: string;
+      jti?: string;
+      iss?: string;
+      roles?: string[];
+      // Space separated permissions, as OAuth scopes are
+      scope?: string;
+    }
+  | { active: false };
+
+export type MfaTokenPayload = {
+  sub: number;
+  purpose: 'mfa_pending';
+  // Used up by the first successful verification, so the token cannot be replayed
+  jti: string;
+};
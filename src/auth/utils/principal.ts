@@ -0,0 +1,7 @@
+import { Principal } from '../types/auth.type';
+
+/**
+ * Names the user or service behind a request, for logs.
+ */
+export const describePrincipal = (principal: Principal): string =>
+  'apiKeyId' in principal ? `service ${principal.name}` : principal.email;
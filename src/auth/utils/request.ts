@@ -0,0 +1,14 @@
+import { ExecutionContext } from '@nestjs/common';
+import { GqlContextType, GqlExecutionContext } from '@nestjs/graphql';
+import { Request } from 'express';
+
+/**
+ * Returns the HTTP request of a REST or GraphQL execution context.
+ */
+export const getRequest = (context: ExecutionContext): Request => {
+  if (context.getType<GqlContextType>() === 'graphql') {
+    return GqlExecutionContext.create(context).getContext<{ req: Request }>()
+      .req;
+  }
+  return context.switchToHttp().getRequest<Request>();
+};
@@ -0,0 +1,12 @@
+import { Response } from 'express';
+import { TooManyLoginAttemptsException } from 'src/login-attempts/exceptions/too-many-login-attempts.exception';
+
+/**
+ * Tells the client when to retry if the error is a throttled login attempt. Used by the
+ * REST handlers and GraphQL mutations that check the credentials of an account.
+ */
+export const setRetryAfter = (res: Response, error: unknown): void => {
+  if (error instanceof TooManyLoginAttemptsException) {
+    res.setHeader('Retry-After', String(error.retryAfter));
+  }
+};
@@ -0,0 +1,43 @@
+import {
+  buildOtpAuthUri,
+  generateTotp,
+  generateTotpSecret,
+  verifyTotp,
+} from './totp';
+
+// Secret "12345678901234567890" from the RFC 6238 test vectors, base32 encoded
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('totp', () => {
+  it('should match the RFC 6238 test vectors', () => {
+    expect(generateTotp(RFC_SECRET, Math.floor(59 / 30))).toBe('287082');
+    expect(generateTotp(RFC_SECRET, Math.floor(1111111109 / 30))).toBe(
+      '081804'
+    );
+    expect(generateTotp(RFC_SECRET, Math.floor(2000000000 / 30))).toBe(
+      '279037'
+    );
+  });
+
+  it('should accept codes within the drift window only', () => {
+    const secret = generateTotpSecret();
+    const now = Date.now();
+    const step = Math.floor(now / 1000 / 30);
+
+    expect(verifyTotp(secret, generateTotp(secret, step - 1), 1, now)).toBe(
+      step - 1
+    );
+    expect(
+      verifyTotp(secret, generateTotp(secret, step - 2), 1, now)
+    ).toBeNull();
+    expect(verifyTotp(secret, 'abcdef', 1, now)).toBeNull();
+  });
+
+  it('should build an otpauth URI for authenticator apps', () => {
+    expect(
+      buildOtpAuthUri(RFC_SECRET, 'kavishka@gmail.com', 'User Service')
+    ).toBe(
+      'otpauth://totp/User%20Service%3Akavishka%40gmail.com?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ&issuer=User+Service&algorithm=SHA1&digits=6&period=30'
+    );
+  });
+});
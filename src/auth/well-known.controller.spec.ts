@@ -0,0 +1,117 @@
+import { Test } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { JwtService } from '@nestjs/jwt';
+import { createPublicKey, JsonWebKey } from 'crypto';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { WellKnownController } from './well-known.controller';
+import { SigningKeysService } from 'src/signing-keys/signing-keys.service';
+import { SigningKey } from 'src/signing-keys/signing-keys.entity';
+import {
+  JsonWebKeySet,
+  SigningAlgorithm,
+} from 'src/signing-keys/types/signing-keys.type';
+import { DiscoveryDocument } from './types/auth.type';
+
+describe('WellKnownController', () => {
+  let app: INestApplication<App>;
+  let signingKeysService: SigningKeysService;
+  let keys: SigningKey[];
+
+  const config: Record<string, string | number> = {
+    JWT_ISSUER: 'https://users.example.com',
+    JWT_KEY_ACTIVATION_DELAY_SECONDS: 600,
+  };
+
+  beforeEach(async () => {
+    keys = [];
+    const repository = {
+      create: jest.fn((key: SigningKey) => key),
+      save: jest.fn((key: SigningKey) => {
+        keys.push(key);
+        return Promise.resolve(key);
+      }),
+      find: jest.fn(() => Promise.resolve([...keys])),
+    };
+    const module = await Test.createTestingModule({
+      controllers: [WellKnownController],
+      providers: [
+        SigningKeysService,
+        { provide: getRepositoryToken(SigningKey), useValue: repository },
+        { provide: ConfigService, useValue: new ConfigService(config) },
+      ],
+    }).compile();
+
+    app = module.createNestApplication({ logger: false });
+    await app.init();
+    signingKeysService = module.get<SigningKeysService>(SigningKeysService);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should publish the public signing keys as a JWK set', async () => {
+    const { kid } = await signingKeysService.getSigningKey();
+
+    const res = await request(app.getHttpServer())
+      .get('/.well-known/jwks.json')
+      .expect(200)
+      .expect('Cache-Control', 'public, max-age=600');
+
+    const { keys: jwks } = res.body as JsonWebKeySet;
+    expect(jwks).toHaveLength(1);
+    expect(jwks[0]).toEqual({
+      kty: 'RSA',
+      n: expect.any(String) as string,
+      e: 'AQAB',
+      kid,
+      alg: SigningAlgorithm.RS256,
+      use: 'sig',
+    });
+  });
+
+  it('should publish keys that verify the issued tokens', async () => {
+    const key = await signingKeysService.getSigningKey();
+    const token = new JwtService().sign(
+      { sub: 1 },
+      { privateKey: key.privateKey, algorithm: key.algorithm, keyid: key.kid }
+    );
+
+    const res = await request(app.getHttpServer())
+      .get('/.well-known/jwks.json')
+      .expect(200);
+
+    const jwk = (res.body as JsonWebKeySet).keys.find(
+      ({ kid }) => kid === key.kid
+    );
+    const publicKey = createPublicKey({
+      key: jwk as JsonWebKey,
+      format: 'jwk',
+    }).export({ type: 'spki', format: 'pem' });
+    expect(
+      new JwtService().verify<{ sub: number }>(token, {
+        publicKey,
+        algorithms: [jwk!.alg],
+      })
+    ).toMatchObject({ sub: 1 });
+  });
+
+  it('should point to the JWK set and token endpoints from the discovery document', async () => {
+    await signingKeysService.getSigningKey();
+
+    const res = await request(app.getHttpServer())
+      .get('/.well-known/openid-configuration')
+      .expect(200);
+
+    expect(res.body as DiscoveryDocument).toMatchObject({
+      issuer: 'https://users.example.com',
+      jwks_uri: 'https://users.example.com/.well-known/jwks.json',
+      introspection_endpoint: 'https://users.example.com/oauth/introspect',
+      revocation_endpoint: 'https://users.example.com/oauth/revoke',
+      id_token_signing_alg_values_supported: [SigningAlgorithm.RS256],
+    });
+  });
+});
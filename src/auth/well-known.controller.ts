@@ -0,0 +1,64 @@
+import { Controller, Get, Logger, Res } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Response } from 'express';
+import { SigningKeysService } from 'src/signing-keys/signing-keys.service';
+import { JsonWebKeySet } from 'src/signing-keys/types/signing-keys.type';
+import { DiscoveryDocument } from './types/auth.type';
+import { CLIENT_AUTH_METHODS } from './guard/client-auth.guard';
+
+@Controller('.well-known')
+export class WellKnownController {
+  private readonly logger = new Logger(WellKnownController.name);
+  constructor(
+    private _signingKeysService: SigningKeysService,
+    private _configService: ConfigService
+  ) {}
+
+  @Get('jwks.json')
+  /**
+   * Publishes the public keys access tokens are signed with. Verifiers may cache the set
+   * as long as new keys are published ahead of signing, and should refetch it when a
+   * token names an unknown `kid`.
+   *
+   * @returns {Promise<JsonWebKeySet>} Resolves with the public keys in JWK format.
+   */
+  async getJwks(
+    @Res({ passthrough: true }) res: Response
+  ): Promise<JsonWebKeySet> {
+    try {
+      res.setHeader(
+        'Cache-Control',
+        `public, max-age=${this._configService.get<number>('JWT_KEY_ACTIVATION_DELAY_SECONDS') ?? 300}`
+      );
+      return await this._signingKeysService.getJwks();
+    } catch (error) {
+      this.logger.error('Fetching JWKS failed', error.stack);
+      throw error;
+    }
+  }
+
+  @Get('openid-configuration')
+  async getDiscoveryDocument(): Promise<DiscoveryDocument> {
+    try {
+      const issuer = this._configService.get<string>('JWT_ISSUER') ?? '';
+      const { keys } = await this._signingKeysService.getJwks();
+      return {
+        issuer,
+        jwks_uri: `${issuer}/.well-known/jwks.json`,
+        token_endpoint: `${issuer}/login`,
+        introspection_endpoint: `${issuer}/oauth/introspect`,
+        introspection_endpoint_auth_methods_supported: CLIENT_AUTH_METHODS,
+        revocation_endpoint: `${issuer}/oauth/revoke`,
+        revocation_endpoint_auth_methods_supported: CLIENT_AUTH_METHODS,
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: [
+          ...new Set(keys.map((key) => key.alg)),
+        ],
+        claims_supported: ['iss', 'sub', 'iat', 'exp', 'email', 'roles', 'sid'],
+      };
+    } catch (error) {
+      this.logger.error('Fetching discovery document failed', error.stack);
+      throw error;
+    }
+  }
+}
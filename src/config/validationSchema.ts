@@ -1,14 +1,99 @@
 import * as Joi from 'joi';
+import { LOG_LEVELS } from 'src/utils/logger';
 
 export const validationSchema = Joi.object({
   PORT: Joi.number().default(3000),
+  // Passed to Express' `trust proxy`: true, a number of hops or a list of addresses
+  TRUST_PROXY: Joi.alternatives(
+    Joi.boolean(),
+    Joi.number().integer().min(0),
+    Joi.string()
+  ).default(false),
   DB_HOST: Joi.string().required(),
   DB_PORT: Joi.number().required(),
   DB_USERNAME: Joi.string().required(),
   DB_PASSWORD: Joi.string().required(),
   DB_NAME: Joi.string().required(),
-  JWT_SECRET: Joi.string().required(),
+  DB_MIGRATIONS_RUN: Joi.boolean().default(false),
   JWT_EXPIRE: Joi.string().default('1h'),
+  JWT_ALGORITHM: Joi.string().valid('RS256', 'ES256').default('RS256'),
+  JWT_ISSUER: Joi.string().uri().default('http://localhost:3000'),
+  JWT_KEY_ACTIVATION_DELAY_SECONDS: Joi.number().default(300),
+  JWT_KEY_RETENTION_SECONDS: Joi.number().default(86400),
   REFRESH_TOKEN_SECRET: Joi.string().required(),
   REFRESH_TOKEN_EXPIRE: Joi.string().default('30d'),
+  MAIL_TRANSPORT: Joi.string().valid('smtp', 'memory').default('smtp'),
+  SMTP_URL: Joi.string().when('MAIL_TRANSPORT', {
+    is: 'smtp',
+    then: Joi.required(),
+  }),
+  MAIL_FROM: Joi.string().default('no-reply@localhost'),
+  EMAIL_VERIFICATION_SECRET: Joi.string().required(),
+  EMAIL_VERIFICATION_EXPIRE: Joi.string().default('1d'),
+  EMAIL_VERIFICATION_URL: Joi.string()
+    .uri()
+    .default('http://localhost:3000/verify-email'),
+  REQUIRE_EMAIL_VERIFICATION: Joi.boolean().default(false),
+  EMAIL_CHANGE_URL: Joi.string()
+    .uri()
+    .default('http://localhost:3000/confirm-email'),
+  PASSWORD_MIN_LENGTH: Joi.number().min(1).default(8),
+  // bcrypt ignores everything after 72 bytes
+  PASSWORD_MAX_LENGTH: Joi.number().max(72).default(64),
+  PASSWORD_REQUIRE_LOWERCASE: Joi.boolean().default(false),
+  PASSWORD_REQUIRE_UPPERCASE: Joi.boolean().default(false),
+  PASSWORD_REQUIRE_DIGIT: Joi.boolean().default(false),
+  PASSWORD_REQUIRE_SYMBOL: Joi.boolean().default(false),
+  PASSWORD_BREACHED_CHECK: Joi.boolean().default(true),
+  PASSWORD_BREACHED_LIST_PATH: Joi.string(),
+  PASSWORD_HISTORY_SIZE: Joi.number().min(0).default(5),
+  USER_ATTRIBUTES_SCHEMA_PATH: Joi.string(),
+  PASSWORD_RESET_TTL: Joi.number().default(900),
+  PASSWORD_RESET_URL: Joi.string()
+    .uri()
+    .default('http://localhost:3000/reset-password'),
+  LOGIN_ATTEMPT_STORE: Joi.string()
+    .valid('memory', 'database')
+    .default('memory'),
+  LOGIN_IP_THRESHOLD: Joi.number().default(10),
+  LOGIN_IP_WINDOW_SECONDS: Joi.number().default(900),
+  LOGIN_IP_BASE_DELAY_SECONDS: Joi.number().default(1),
+  LOGIN_IP_MAX_DELAY_SECONDS: Joi.number().default(300),
+  ACCOUNT_LOCKOUT_THRESHOLD: Joi.number().default(5),
+  ACCOUNT_LOCKOUT_BASE_SECONDS: Joi.number().default(60),
+  ACCOUNT_LOCKOUT_MAX_SECONDS: Joi.number().default(3600),
+  MFA_TOKEN_SECRET: Joi.string().required(),
+  MFA_TOKEN_EXPIRE: Joi.string().default('5m'),
+  MFA_ISSUER: Joi.string().default('User Service'),
+  ACCOUNT_DELETION_GRACE_DAYS: Joi.number().default(30),
+  ACCOUNT_PURGE_INTERVAL_SECONDS: Joi.number().default(3600),
+  EVENT_BUS: Joi.string().valid('kafka', 'memory', 'none').default('kafka'),
+  KAFKA_BROKERS: Joi.string().default('localhost:9092'),
+  KAFKA_CLIENT_ID: Joi.string().default('user'),
+  KAFKA_GROUP_ID: Joi.string().default('user-consumer'),
+  KAFKA_SSL: Joi.boolean().default(false),
+  KAFKA_SASL_MECHANISM: Joi.string().valid(
+    'plain',
+    'scram-sha-256',
+    'scram-sha-512'
+  ),
+  KAFKA_SASL_USERNAME: Joi.string().when('KAFKA_SASL_MECHANISM', {
+    is: Joi.exist(),
+    then: Joi.required(),
+  }),
+  KAFKA_SASL_PASSWORD: Joi.string().when('KAFKA_SASL_MECHANISM', {
+    is: Joi.exist(),
+    then: Joi.required(),
+  }),
+  KAFKA_USER_EVENTS_TOPIC: Joi.string().default('user-topic'),
+  OUTBOX_RELAY_INTERVAL_SECONDS: Joi.number().default(1),
+  OUTBOX_BATCH_SIZE: Joi.number().default(100),
+  OUTBOX_MAX_ATTEMPTS: Joi.number().default(10),
+  OUTBOX_RETRY_BASE_SECONDS: Joi.number().default(1),
+  OUTBOX_RETRY_MAX_SECONDS: Joi.number().default(300),
+  OUTBOX_CLAIM_TIMEOUT_SECONDS: Joi.number().default(60),
+  HEALTH_CHECK_TIMEOUT_SECONDS: Joi.number().default(3),
+  LOG_LEVEL: Joi.string()
+    .valid(...LOG_LEVELS)
+    .default('log'),
 }).unknown();
@@ -0,0 +1,24 @@
+import 'reflect-metadata';
+import { existsSync } from 'fs';
+import * as Joi from 'joi';
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { validationSchema } from 'src/config/validationSchema';
+import { getDatabaseOptions } from './database.config';
+
+const DB_KEYS = ['DB_HOST', 'DB_PORT', 'DB_USERNAME', 'DB_PASSWORD', 'DB_NAME'];
+
+// Loaded by the TypeORM CLI behind the migration scripts, which only need the database settings
+if (existsSync('.env')) {
+  process.loadEnvFile('.env');
+}
+const env = Joi.object(
+  Object.fromEntries(DB_KEYS.map((key) => [key, validationSchema.extract(key)]))
+)
+  .unknown()
+  .validate(process.env) as Joi.ValidationResult<Record<string, unknown>>;
+if (env.error) {
+  throw env.error;
+}
+
+export default new DataSource(getDatabaseOptions(new ConfigService(env.value)));
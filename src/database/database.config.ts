@@ -0,0 +1,55 @@
+import { ConfigService } from '@nestjs/config';
+import { DataSourceOptions } from 'typeorm';
+import { User } from 'src/users/users.entity';
+import { Session } from 'src/sessions/sessions.entity';
+import { PasswordReset } from 'src/password-resets/password-resets.entity';
+import { LoginAttempt } from 'src/login-attempts/login-attempts.entity';
+import { RecoveryCode } from 'src/mfa/recovery-codes.entity';
+import { OutboxEvent } from 'src/outbox/outbox.entity';
+import { RoleEntity } from 'src/roles/roles.entity';
+import { ApiKey } from 'src/api-keys/api-keys.entity';
+import { AuditEntry } from 'src/audit/audit.entity';
+import { SigningKey } from 'src/signing-keys/signing-keys.entity';
+import { RevokedToken } from 'src/revoked-tokens/revoked-tokens.entity';
+import { PasswordHistory } from 'src/password-policy/password-history.entity';
+import { ErasureRecord } from 'src/privacy/erasure-record.entity';
+import { Baseline1792436408334 } from './migrations/1792436408334-Baseline';
+import { OutboxEventHeaders1792437146170 } from './migrations/1792437146170-OutboxEventHeaders';
+import { AuditAdminActions1792438455490 } from './migrations/1792438455490-AuditAdminActions';
+
+/**
+ * Builds the connection options shared by the application and the TypeORM CLI. The
+ * schema is only changed by migrations; add new migrations to the list in order.
+ */
+export const getDatabaseOptions = (
+  configService: ConfigService
+): DataSourceOptions => ({
+  type: 'postgres',
+  host: configService.get<string>('DB_HOST'),
+  port: configService.get<number>('DB_PORT'),
+  username: configService.get<string>('DB_USERNAME'),
+  password: configService.get<string>('DB_PASSWORD'),
+  database: configService.get<string>('DB_NAME'),
+  entities: [
+    User,
+    Session,
+    PasswordReset,
+    LoginAttempt,
+    RecoveryCode,
+    OutboxEvent,
+    RoleEntity,
+    ApiKey,
+    AuditEntry,
+    SigningKey,
+    RevokedToken,
+    PasswordHistory,
+    ErasureRecord,
+  ],
+  migrations: [
+    Baseline1792436408334,
+    OutboxEventHeaders1792437146170,
+    AuditAdminActions1792438455490,
+  ],
+  migrationsTableName: 'migrations',
+  synchronize: false,
+});
@@ -0,0 +1,265 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Schema of every entity as of the switch from `synchronize` to migrations, plus unique
+ * indexes on the email and on its lowercase form so concurrent sign ups cannot create
+ * duplicates; duplicate emails have to be resolved before that.
+ *
+ * Runs on an empty database, on the original service's schema (only a `user` table with
+ * a single `role` enum) and on a database that `synchronize` brought to this schema.
+ * Every table and index is created only where it is missing, and the `user` table gets
+ * the columns added since the original schema. Columns added to other tables by
+ * `synchronize` at versions in between are not checked.
+ */
+export class Baseline1792436408334 implements MigrationInterface {
+  name = 'Baseline1792436408334';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await this.createTables(queryRunner);
+    await this.convertRoleColumn(queryRunner);
+    await this.addUserColumns(queryRunner);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "UQ_user_email" ON "user" ("email")`
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "UQ_user_email_lower" ON "user" (lower("email"))`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."UQ_user_email_lower"`);
+    await queryRunner.query(`DROP INDEX "public"."UQ_user_email"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_c188b29e2cec91e6a6700f4281"`
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_c4b45c08c0e01bbe060cc9df0d"`
+    );
+    await queryRunner.query(`DROP TABLE "erasure_record"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_20c510e5ca12f63b0c915c3e2d"`
+    );
+    await queryRunner.query(`DROP TABLE "password_history"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_286c90854f1b792998d2d74da2"`
+    );
+    await queryRunner.query(`DROP TABLE "revoked_token"`);
+    await queryRunner.query(`DROP TABLE "signing_key"`);
+    await queryRunner.query(`DROP TYPE "public"."signing_key_algorithm_enum"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_0a96ceef4d8ecdf4bedd9c7a64"`
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_971f0c59fbf4201c745cdb5873"`
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_f44239d9bc92e3db48e508450c"`
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_16e974357664a336146e08efb4"`
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_b68dcc794cea3a97d59a0b8771"`
+    );
+    await queryRunner.query(`DROP TABLE "audit_entry"`);
+    await queryRunner.query(`DROP TYPE "public"."audit_entry_actortype_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."audit_entry_outcome_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."audit_entry_action_enum"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_c4f6ccad30c0862eb54af9fb0a"`
+    );
+    await queryRunner.query(`DROP TABLE "api_key"`);
+    await queryRunner.query(`DROP TABLE "role"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_59461e9a52c7ce794815114098"`
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_708c6393560a4bcbf4f599db7e"`
+    );
+    await queryRunner.query(`DROP TABLE "outbox_event"`);
+    await queryRunner.query(`DROP TYPE "public"."outbox_event_status_enum"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_0e10289994b9a90be4cde06e15"`
+    );
+    await queryRunner.query(`DROP TABLE "recovery_code"`);
+    await queryRunner.query(`DROP TABLE "login_attempt"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_dc6908de54eb09f588adfdb285"`
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_05baebe80e9f8fab8207eda250"`
+    );
+    await queryRunner.query(`DROP TABLE "password_reset"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_3d2f174ef04fb312fdebd0ddc5"`
+    );
+    await queryRunner.query(`DROP TABLE "session"`);
+    await queryRunner.query(`DROP TABLE "user"`);
+  }
+
+  // Users had a single `role` enum before they could hold several roles; copying it into
+  // `roles` before the column is dropped keeps every admin an admin
+  private async convertRoleColumn(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasColumn('user', 'role'))) {
+      return;
+    }
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD COLUMN IF NOT EXISTS "roles" text array NOT NULL DEFAULT '{user}'`
+    );
+    await queryRunner.query(`UPDATE "user" SET "roles" = ARRAY["role"::text]`);
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "role"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "public"."user_role_enum"`);
+  }
+
+  // Columns the `user` table of the original service lacks, created like in `createTables`
+  private async addUserColumns(queryRunner: QueryRunner): Promise<void> {
+    // Accounts from before email verification existed stay usable when it is required
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD COLUMN IF NOT EXISTS "emailVerified" boolean NOT NULL DEFAULT true`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ALTER COLUMN "emailVerified" SET DEFAULT false`
+    );
+    const columns = [
+      `"failedLoginCount" integer NOT NULL DEFAULT '0'`,
+      `"lockedUntil" TIMESTAMP`,
+      `"mfaEnabled" boolean NOT NULL DEFAULT false`,
+      `"displayName" character varying(100)`,
+      `"givenName" character varying(100)`,
+      `"familyName" character varying(100)`,
+      `"avatarUrl" character varying(2048)`,
+      `"locale" character varying(35)`,
+      `"timeZone" character varying(64)`,
+      `"customAttributes" jsonb NOT NULL DEFAULT '{}'`,
+      `"totpSecret" character varying`,
+      `"totpLastUsedStep" integer`,
+      `"deletedAt" TIMESTAMP`,
+      `"erasedAt" TIMESTAMP`,
+    ];
+    for (const column of columns) {
+      await queryRunner.query(
+        `ALTER TABLE "user" ADD COLUMN IF NOT EXISTS ${column}`
+      );
+    }
+  }
+
+  // Postgres has no CREATE TYPE IF NOT EXISTS
+  private async createType(
+    queryRunner: QueryRunner,
+    statement: string
+  ): Promise<void> {
+    await queryRunner.query(
+      `DO $$ BEGIN ${statement}; EXCEPTION WHEN duplicate_object THEN NULL; END $$`
+    );
+  }
+
+  private async createTables(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE IF NOT EXISTS "user" ("id" SERIAL NOT NULL, "email" character varying NOT NULL, "password" character varying NOT NULL, "roles" text array NOT NULL DEFAULT '{user}', "isActive" boolean NOT NULL DEFAULT true, "emailVerified" boolean NOT NULL DEFAULT false, "failedLoginCount" integer NOT NULL DEFAULT '0', "lockedUntil" TIMESTAMP, "mfaEnabled" boolean NOT NULL DEFAULT false, "displayName" character varying(100), "givenName" character varying(100), "familyName" character varying(100), "avatarUrl" character varying(2048), "locale" character varying(35), "timeZone" character varying(64), "customAttributes" jsonb NOT NULL DEFAULT '{}', "totpSecret" character varying, "totpLastUsedStep" integer, "createdAt" TIMESTAMP NOT NULL, "updatedAt" TIMESTAMP NOT NULL, "deletedAt" TIMESTAMP, "erasedAt" TIMESTAMP, CONSTRAINT "PK_cace4a159ff9f2512dd42373760" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE TABLE IF NOT EXISTS "session" ("id" uuid NOT NULL, "userId" integer NOT NULL, "currentTokenId" character varying NOT NULL, "expiresAt" TIMESTAMP NOT NULL, "userAgent" character varying, "ipAddress" character varying, "revokedAt" TIMESTAMP, "createdAt" TIMESTAMP NOT NULL, "lastUsedAt" TIMESTAMP NOT NULL, CONSTRAINT "PK_f55da76ac1c3ac420f444d2ff11" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_3d2f174ef04fb312fdebd0ddc5" ON "session" ("userId")`
+    );
+    await queryRunner.query(
+      `CREATE TABLE IF NOT EXISTS "password_reset" ("id" SERIAL NOT NULL, "userId" integer NOT NULL, "tokenHash" character varying NOT NULL, "expiresAt" TIMESTAMP NOT NULL, "usedAt" TIMESTAMP, "createdAt" TIMESTAMP NOT NULL, CONSTRAINT "PK_8515e60a2cc41584fa4784f52ce" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_05baebe80e9f8fab8207eda250" ON "password_reset" ("userId")`
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "IDX_dc6908de54eb09f588adfdb285" ON "password_reset" ("tokenHash")`
+    );
+    await queryRunner.query(
+      `CREATE TABLE IF NOT EXISTS "login_attempt" ("key" character varying NOT NULL, "count" integer NOT NULL, "windowStartedAt" TIMESTAMP NOT NULL, "lastAttemptAt" TIMESTAMP NOT NULL, CONSTRAINT "PK_2b7decd11c28ffdfdde28e05382" PRIMARY KEY ("key"))`
+    );
+    await queryRunner.query(
+      `CREATE TABLE IF NOT EXISTS "recovery_code" ("id" SERIAL NOT NULL, "userId" integer NOT NULL, "codeHash" character varying NOT NULL, "usedAt" TIMESTAMP, "createdAt" TIMESTAMP NOT NULL, CONSTRAINT "PK_b7f1e23329e93a80e25fd281922" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_0e10289994b9a90be4cde06e15" ON "recovery_code" ("userId")`
+    );
+    await this.createType(
+      queryRunner,
+      `CREATE TYPE "public"."outbox_event_status_enum" AS ENUM('pending', 'published', 'failed')`
+    );
+    await queryRunner.query(
+      `CREATE TABLE IF NOT EXISTS "outbox_event" ("id" SERIAL NOT NULL, "topic" character varying NOT NULL, "key" character varying NOT NULL, "payload" jsonb NOT NULL, "status" "public"."outbox_event_status_enum" NOT NULL DEFAULT 'pending', "attempts" integer NOT NULL DEFAULT '0', "lastError" text, "nextAttemptAt" TIMESTAMP NOT NULL, "publishedAt" TIMESTAMP, "createdAt" TIMESTAMP NOT NULL, CONSTRAINT "PK_cc0c9e40998e45ecfc5e313429d" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_708c6393560a4bcbf4f599db7e" ON "outbox_event" ("key")`
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_59461e9a52c7ce794815114098" ON "outbox_event" ("status", "id")`
+    );
+    await queryRunner.query(
+      `CREATE TABLE IF NOT EXISTS "role" ("name" character varying NOT NULL, "description" character varying, "permissions" text array NOT NULL DEFAULT '{}', "createdAt" TIMESTAMP NOT NULL, "updatedAt" TIMESTAMP NOT NULL, CONSTRAINT "PK_ae4578dcaed5adff96595e61660" PRIMARY KEY ("name"))`
+    );
+    await queryRunner.query(
+      `CREATE TABLE IF NOT EXISTS "api_key" ("id" SERIAL NOT NULL, "name" character varying NOT NULL, "prefix" character varying NOT NULL, "keyHash" character varying NOT NULL, "scopes" text array NOT NULL DEFAULT '{}', "expiresAt" TIMESTAMP, "lastUsedAt" TIMESTAMP, "revokedAt" TIMESTAMP, "createdBy" integer NOT NULL, "createdAt" TIMESTAMP NOT NULL, "updatedAt" TIMESTAMP NOT NULL, CONSTRAINT "PK_b1bd840641b8acbaad89c3d8d11" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "IDX_c4f6ccad30c0862eb54af9fb0a" ON "api_key" ("prefix")`
+    );
+    await this.createType(
+      queryRunner,
+      `CREATE TYPE "public"."audit_entry_action_enum" AS ENUM('auth.login', 'auth.mfa-verify', 'auth.register', 'auth.token-refresh', 'user.profile-update', 'user.password-change', 'user.email-change', 'user.data-export', 'user.role-change', 'user.delete')`
+    );
+    await this.createType(
+      queryRunner,
+      `CREATE TYPE "public"."audit_entry_outcome_enum" AS ENUM('success', 'failure')`
+    );
+    await this.createType(
+      queryRunner,
+      `CREATE TYPE "public"."audit_entry_actortype_enum" AS ENUM('user', 'anonymous', 'system')`
+    );
+    await queryRunner.query(
+      `CREATE TABLE IF NOT EXISTS "audit_entry" ("id" SERIAL NOT NULL, "action" "public"."audit_entry_action_enum" NOT NULL, "outcome" "public"."audit_entry_outcome_enum" NOT NULL, "actorType" "public"."audit_entry_actortype_enum" NOT NULL, "actorId" integer, "targetId" integer, "ipAddress" character varying, "userAgent" character varying, "correlationId" character varying, "details" jsonb, "createdAt" TIMESTAMP NOT NULL, CONSTRAINT "PK_58a130a4b9da189f46ba2a01801" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_b68dcc794cea3a97d59a0b8771" ON "audit_entry" ("action")`
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_16e974357664a336146e08efb4" ON "audit_entry" ("actorId")`
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_f44239d9bc92e3db48e508450c" ON "audit_entry" ("targetId")`
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_971f0c59fbf4201c745cdb5873" ON "audit_entry" ("correlationId")`
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_0a96ceef4d8ecdf4bedd9c7a64" ON "audit_entry" ("createdAt")`
+    );
+    await this.createType(
+      queryRunner,
+      `CREATE TYPE "public"."signing_key_algorithm_enum" AS ENUM('RS256', 'ES256')`
+    );
+    await queryRunner.query(
+      `CREATE TABLE IF NOT EXISTS "signing_key" ("kid" character varying NOT NULL, "algorithm" "public"."signing_key_algorithm_enum" NOT NULL, "privateKey" text NOT NULL, "publicKey" text NOT NULL, "activatesAt" TIMESTAMP NOT NULL, "retiresAt" TIMESTAMP, "revokedAt" TIMESTAMP, "createdAt" TIMESTAMP NOT NULL, CONSTRAINT "PK_00d7e305393ab903d6eb06c11f9" PRIMARY KEY ("kid"))`
+    );
+    await queryRunner.query(
+      `CREATE TABLE IF NOT EXISTS "revoked_token" ("jti" character varying NOT NULL, "expiresAt" TIMESTAMP NOT NULL, "revokedAt" TIMESTAMP NOT NULL, CONSTRAINT "PK_51805a32c382d2841b953c16880" PRIMARY KEY ("jti"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_286c90854f1b792998d2d74da2" ON "revoked_token" ("expiresAt")`
+    );
+    await queryRunner.query(
+      `CREATE TABLE IF NOT EXISTS "password_history" ("id" SERIAL NOT NULL, "userId" integer NOT NULL, "passwordHash" character varying NOT NULL, "createdAt" TIMESTAMP NOT NULL, CONSTRAINT "PK_da65ed4600e5e6bc9315754a8b2" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_20c510e5ca12f63b0c915c3e2d" ON "password_history" ("userId")`
+    );
+    await queryRunner.query(
+      `CREATE TABLE IF NOT EXISTS "erasure_record" ("id" SERIAL NOT NULL, "userId" integer NOT NULL, "reason" character varying NOT NULL, "requestedBy" integer, "requestedAt" TIMESTAMP NOT NULL, "completedAt" TIMESTAMP NOT NULL, CONSTRAINT "PK_438c9d94c42c1ff1b5b815a2699" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_c4b45c08c0e01bbe060cc9df0d" ON "erasure_record" ("userId")`
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_c188b29e2cec91e6a6700f4281" ON "erasure_record" ("completedAt")`
+    );
+  }
+}
@@ -0,0 +1,16 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Stores the Kafka headers of outbox events, so the request id travels with the message.
+ */
+export class OutboxEventHeaders1792437146170 implements MigrationInterface {
+  name = 'OutboxEventHeaders1792437146170';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "outbox_event" ADD "headers" jsonb`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "outbox_event" DROP COLUMN "headers"`);
+  }
+}
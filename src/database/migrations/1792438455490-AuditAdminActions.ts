@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Adds the audit actions of admin status changes, forced password resets and unlocks.
+ * Reverting fails while audit entries use them, since entries are never deleted.
+ */
+export class AuditAdminActions1792438455490 implements MigrationInterface {
+  name = 'AuditAdminActions1792438455490';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "public"."audit_entry_action_enum" RENAME TO "audit_entry_action_enum_old"`
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."audit_entry_action_enum" AS ENUM('auth.login', 'auth.mfa-verify', 'auth.register', 'auth.token-refresh', 'user.profile-update', 'user.password-change', 'user.email-change', 'user.data-export', 'user.role-change', 'user.status-change', 'user.password-reset-force', 'user.unlock', 'user.delete')`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "audit_entry" ALTER COLUMN "action" TYPE "public"."audit_entry_action_enum" USING "action"::"text"::"public"."audit_entry_action_enum"`
+    );
+    await queryRunner.query(`DROP TYPE "public"."audit_entry_action_enum_old"`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."audit_entry_action_enum_old" AS ENUM('auth.login', 'auth.mfa-verify', 'auth.register', 'auth.token-refresh', 'user.profile-update', 'user.password-change', 'user.email-change', 'user.data-export', 'user.role-change', 'user.delete')`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "audit_entry" ALTER COLUMN "action" TYPE "public"."audit_entry_action_enum_old" USING "action"::"text"::"public"."audit_entry_action_enum_old"`
+    );
+    await queryRunner.query(`DROP TYPE "public"."audit_entry_action_enum"`);
+    await queryRunner.query(
+      `ALTER TYPE "public"."audit_entry_action_enum_old" RENAME TO "audit_entry_action_enum"`
+    );
+  }
+}
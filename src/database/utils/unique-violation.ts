@@ -0,0 +1,8 @@
+import { QueryFailedError } from 'typeorm';
+
+// SQLSTATE postgres reports when an insert or update breaks a unique index
+const UNIQUE_VIOLATION = '23505';
+
+export const isUniqueViolation = (error: unknown): boolean =>
+  error instanceof QueryFailedError &&
+  (error.driverError as { code?: string }).code === UNIQUE_VIOLATION;
@@ -0,0 +1,28 @@
+import { Injectable } from '@nestjs/common';
+import {
+  EventBus,
+  EventMessage,
+  PublishedEvent,
+} from '../types/event-bus.type';
+
+/**
+ * Keeps every published message in memory. Selected with `EVENT_BUS=memory` for
+ * tests and local development.
+ */
+@Injectable()
+export class InMemoryEventBus implements EventBus {
+  readonly messages: PublishedEvent[] = [];
+
+  publish(topic: string, message: EventMessage): Promise<void> {
+    this.messages.push({ ...message, topic, publishedAt: new Date() });
+    return Promise.resolve();
+  }
+
+  checkHealth(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
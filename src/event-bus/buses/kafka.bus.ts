@@ -0,0 +1,60 @@
+import { Injectable, OnApplicationShutdown } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ClientKafka, KafkaStatus } from '@nestjs/microservices';
+import { firstValueFrom } from 'rxjs';
+import { getKafkaOptions } from 'src/kafka/kafka.config';
+import { EventBus, EventMessage } from '../types/event-bus.type';
+
+/**
+ * Publishes to Kafka. The producer connects on the first message or readiness check, so
+ * the app boots even when the broker is unreachable.
+ */
+@Injectable()
+export class KafkaEventBus implements EventBus, OnApplicationShutdown {
+  private client?: ClientKafka;
+  private connected = false;
+
+  constructor(private _configService: ConfigService) {}
+
+  async publish(topic: string, message: EventMessage): Promise<void> {
+    await firstValueFrom(this.getClient().emit(topic, message), {
+      defaultValue: undefined,
+    });
+  }
+
+  async checkHealth(): Promise<void> {
+    const client = this.getClient();
+    try {
+      await client.connect();
+    } catch (error) {
+      // The client keeps a failed connection attempt, so the next call starts over
+      this.client = undefined;
+      await client.close().catch(() => undefined);
+      throw error;
+    }
+    if (!this.connected) {
+      throw new Error('Kafka producer is disconnected');
+    }
+  }
+
+  async onApplicationShutdown(): Promise<void> {
+    await this.client?.close();
+  }
+
+  private getClient(): ClientKafka {
+    if (!this.client) {
+      // Without a consumer the status only reflects the producer
+      const client = new ClientKafka({
+        ...getKafkaOptions(this._configService),
+        producerOnlyMode: true,
+      });
+      client.status.subscribe((status) => {
+        if (this.client === client) {
+          this.connected = status === KafkaStatus.CONNECTED;
+        }
+      });
+      this.client = client;
+    }
+    return this.client;
+  }
+}
@@ -0,0 +1,16 @@
+import { Injectable } from '@nestjs/common';
+import { EventBus } from '../types/event-bus.type';
+
+/**
+ * Drops every message. Selected with `EVENT_BUS=none` when no other service listens.
+ */
+@Injectable()
+export class NoopEventBus implements EventBus {
+  publish(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  checkHealth(): Promise<void> {
+    return Promise.resolve();
+  }
+}
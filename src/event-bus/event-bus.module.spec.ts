@@ -0,0 +1,64 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigModule } from '@nestjs/config';
+import { EventBusModule } from './event-bus.module';
+import { KafkaEventBus } from './buses/kafka.bus';
+import { InMemoryEventBus } from './buses/in-memory.bus';
+import { NoopEventBus } from './buses/noop.bus';
+import { EVENT_BUS, EventBus, EventBusType } from './types/event-bus.type';
+
+describe('EventBusModule', () => {
+  let module: TestingModule;
+
+  const compile = async (eventBus?: string) => {
+    module = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          ignoreEnvFile: true,
+          skipProcessEnv: true,
+          load: [() => ({ EVENT_BUS: eventBus })],
+        }),
+        EventBusModule,
+      ],
+    }).compile();
+    return module.get<EventBus>(EVENT_BUS);
+  };
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  it.each([
+    [EventBusType.KAFKA, KafkaEventBus],
+    [EventBusType.MEMORY, InMemoryEventBus],
+    [EventBusType.NONE, NoopEventBus],
+    [undefined, KafkaEventBus],
+  ])('should select the bus for EVENT_BUS=%s', async (eventBus, bus) => {
+    await expect(compile(eventBus)).resolves.toBeInstanceOf(bus);
+  });
+
+  it('should deliver published events to the in-memory bus', async () => {
+    const eventBus = await compile(EventBusType.MEMORY);
+    const message = {
+      key: '1',
+      value: JSON.stringify({ userId: 1 }),
+      headers: { 'event-id': 'event-1' },
+    };
+
+    await eventBus.publish('user.created', message);
+
+    const { messages } = module.get(InMemoryEventBus);
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toMatchObject({ ...message, topic: 'user.created' });
+    expect(messages[0].publishedAt).toBeInstanceOf(Date);
+  });
+
+  it('should drop published events when disabled', async () => {
+    const eventBus = await compile(EventBusType.NONE);
+
+    await expect(
+      eventBus.publish('user.created', { key: '1', value: '{}' })
+    ).resolves.toBeUndefined();
+    expect(module.get(InMemoryEventBus).messages).toEqual([]);
+  });
+});
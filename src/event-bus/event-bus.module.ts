@@ -0,0 +1,35 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { KafkaEventBus } from './buses/kafka.bus';
+import { InMemoryEventBus } from './buses/in-memory.bus';
+import { NoopEventBus } from './buses/noop.bus';
+import { EVENT_BUS, EventBusType } from './types/event-bus.type';
+
+@Module({
+  providers: [
+    KafkaEventBus,
+    InMemoryEventBus,
+    NoopEventBus,
+    {
+      provide: EVENT_BUS,
+      inject: [ConfigService, KafkaEventBus, InMemoryEventBus, NoopEventBus],
+      useFactory: (
+        configService: ConfigService,
+        kafkaBus: KafkaEventBus,
+        inMemoryBus: InMemoryEventBus,
+        noopBus: NoopEventBus
+      ) => {
+        switch (configService.get<EventBusType>('EVENT_BUS')) {
+          case EventBusType.MEMORY:
+            return inMemoryBus;
+          case EventBusType.NONE:
+            return noopBus;
+          default:
+            return kafkaBus;
+        }
+      },
+    },
+  ],
+  exports: [EVENT_BUS, InMemoryEventBus],
+})
+export class EventBusModule {}
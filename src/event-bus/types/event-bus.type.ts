@@ -0,0 +1,28 @@
+export const EVENT_BUS = 'EVENT_BUS';
+
+export enum EventBusType {
+  KAFKA = 'kafka',
+  MEMORY = 'memory',
+  NONE = 'none',
+}
+
+export type EventMessage = {
+  key: string;
+  value: string;
+  headers?: Record<string, string>;
+};
+
+export type PublishedEvent = EventMessage & {
+  topic: string;
+  publishedAt: Date;
+};
+
+/**
+ * Publishes messages to other services. `publish` resolves only once the message has
+ * been accepted, so callers like the outbox relay can retry failures. `checkHealth`
+ * rejects while messages cannot be published, for the readiness check.
+ */
+export interface EventBus {
+  publish(topic: string, message: EventMessage): Promise<void>;
+  checkHealth(): Promise<void>;
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { OutboxModule } from 'src/outbox/outbox.module';
+import { UserEventsService } from './user-events.service';
+
+@Module({
+  imports: [OutboxModule],
+  providers: [UserEventsService],
+  exports: [UserEventsService],
+})
+export class EventsModule {}
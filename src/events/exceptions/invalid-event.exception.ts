@@ -0,0 +1,13 @@
+/**
+ * Thrown when code tries to publish an event that breaks its contract. This is a bug,
+ * not a client error, so it surfaces as a 500 and rolls back the surrounding transaction.
+ */
+export class InvalidEventException extends Error {
+  constructor(
+    public readonly type: string,
+    public readonly violations: string[]
+  ) {
+    super(`Invalid ${type} event: ${violations.join(', ')}`);
+    this.name = InvalidEventException.name;
+  }
+}
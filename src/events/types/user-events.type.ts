@@ -0,0 +1,208 @@
+import 'reflect-metadata';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsEmail,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsISO8601,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Min,
+} from 'class-validator';
+
+// Default topic, overridden with KAFKA_USER_EVENTS_TOPIC
+export const USER_EVENTS_TOPIC = 'user-topic';
+
+export enum UserEventType {
+  CREATED = 'user.created',
+  UPDATED = 'user.updated',
+  EMAIL_CHANGED = 'user.email-changed',
+  ROLE_CHANGED = 'user.role-changed',
+  DEACTIVATED = 'user.deactivated',
+  // No longer emitted since accounts are erased instead, kept for consumers of older events
+  DELETED = 'user.deleted',
+  ERASED = 'user.erased',
+}
+
+// Bump the version of a type whenever its payload changes incompatibly
+export const USER_EVENT_SCHEMA_VERSIONS: Record<UserEventType, number> = {
+  [UserEventType.CREATED]: 2,
+  [UserEventType.UPDATED]: 1,
+  [UserEventType.EMAIL_CHANGED]: 1,
+  [UserEventType.ROLE_CHANGED]: 2,
+  [UserEventType.DEACTIVATED]: 1,
+  [UserEventType.DELETED]: 1,
+  [UserEventType.ERASED]: 1,
+};
+
+export const USER_UPDATED_FIELDS = [
+  'password',
+  'isActive',
+  'emailVerified',
+  'mfaEnabled',
+  'deletedAt',
+  'displayName',
+  'givenName',
+  'familyName',
+  'avatarUrl',
+  'locale',
+  'timeZone',
+  'customAttributes',
+] as const;
+
+export type UserUpdatedField = (typeof USER_UPDATED_FIELDS)[number];
+
+export class UserCreatedPayload {
+  @IsInt()
+  @Min(1)
+  public readonly userId: number;
+
+  @IsEmail()
+  public readonly email: string;
+
+  @IsArray()
+  @IsString({ each: true })
+  public readonly roles: string[];
+
+  @IsBoolean()
+  public readonly isActive: boolean;
+
+  @IsBoolean()
+  public readonly emailVerified: boolean;
+}
+
+export class UserUpdatedPayload {
+  @IsInt()
+  @Min(1)
+  public readonly userId: number;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(USER_UPDATED_FIELDS, { each: true })
+  public readonly changedFields: UserUpdatedField[];
+
+  @IsOptional()
+  @IsIn([
+    'activated',
+    'restored',
+    'password-change',
+    'password-reset',
+    'password-reset-forced',
+  ])
+  public readonly reason?:
+    | 'activated'
+    | 'restored'
+    | 'password-change'
+    | 'password-reset'
+    | 'password-reset-forced';
+}
+
+export class UserEmailChangedPayload {
+  @IsInt()
+  @Min(1)
+  public readonly userId: number;
+
+  @IsEmail()
+  public readonly previousEmail: string;
+
+  @IsEmail()
+  public readonly email: string;
+}
+
+export class UserRoleChangedPayload {
+  @IsInt()
+  @Min(1)
+  public readonly userId: number;
+
+  @IsArray()
+  @IsString({ each: true })
+  public readonly previousRoles: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  public readonly roles: string[];
+}
+
+export class UserDeactivatedPayload {
+  @IsInt()
+  @Min(1)
+  public readonly userId: number;
+
+  @IsIn(['admin', 'deletion-scheduled'])
+  public readonly reason: 'admin' | 'deletion-scheduled';
+}
+
+export class UserDeletedPayload {
+  @IsInt()
+  @Min(1)
+  public readonly userId: number;
+
+  @IsIn(['admin', 'purged'])
+  public readonly reason: 'admin' | 'purged';
+}
+
+export class UserErasedPayload {
+  @IsInt()
+  @Min(1)
+  public readonly userId: number;
+
+  @IsIn(['admin', 'purged'])
+  public readonly reason: 'admin' | 'purged';
+}
+
+export type UserEventPayloads = {
+  [UserEventType.CREATED]: UserCreatedPayload;
+  [UserEventType.UPDATED]: UserUpdatedPayload;
+  [UserEventType.EMAIL_CHANGED]: UserEmailChangedPayload;
+  [UserEventType.ROLE_CHANGED]: UserRoleChangedPayload;
+  [UserEventType.DEACTIVATED]: UserDeactivatedPayload;
+  [UserEventType.DELETED]: UserDeletedPayload;
+  [UserEventType.ERASED]: UserErasedPayload;
+};
+
+export const USER_EVENT_PAYLOAD_CLASSES: {
+  [T in UserEventType]: new () => UserEventPayloads[T];
+} = {
+  [UserEventType.CREATED]: UserCreatedPayload,
+  [UserEventType.UPDATED]: UserUpdatedPayload,
+  [UserEventType.EMAIL_CHANGED]: UserEmailChangedPayload,
+  [UserEventType.ROLE_CHANGED]: UserRoleChangedPayload,
+  [UserEventType.DEACTIVATED]: UserDeactivatedPayload,
+  [UserEventType.DELETED]: UserDeletedPayload,
+  [UserEventType.ERASED]: UserErasedPayload,
+};
+
+/**
+ * Envelope published to `user-topic`. Consumers should dispatch on `type` and
+ * `schemaVersion` and ignore types they do not know.
+ */
+export class UserEventEnvelope<T extends UserEventType = UserEventType> {
+  @IsUUID()
+  public readonly eventId: string;
+
+  @IsEnum(UserEventType)
+  public readonly type: T;
+
+  @IsInt()
+  @Min(1)
+  public readonly schemaVersion: number;
+
+  @IsISO8601()
+  public readonly occurredAt: string;
+
+  @IsString()
+  public readonly correlationId: string;
+
+  // Validated against USER_EVENT_PAYLOAD_CLASSES[type]
+  @IsObject()
+  public readonly payload: UserEventPayloads[T];
+}
+
+export type UserEvent = {
+  [T in UserEventType]: UserEventEnvelope<T>;
+}[UserEventType];
@@ -0,0 +1,132 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { EntityManager } from 'typeorm';
+import { UserEventsService } from './user-events.service';
+import { OutboxService } from 'src/outbox/outbox.service';
+import { InvalidEventException } from './exceptions/invalid-event.exception';
+import {
+  USER_EVENTS_TOPIC,
+  UserCreatedPayload,
+  UserEventType,
+} from './types/user-events.type';
+import { Role } from 'src/users/types/users.type';
+import { runWithRequestId } from 'src/request-context/request-context';
+
+describe('UserEventsService', () => {
+  let service: UserEventsService;
+  let outboxService: { enqueue: jest.Mock; rewrite: jest.Mock };
+  const manager = {} as EntityManager;
+
+  beforeEach(async () => {
+    outboxService = { enqueue: jest.fn(), rewrite: jest.fn() };
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UserEventsService,
+        { provide: OutboxService, useValue: outboxService },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+
+    service = module.get<UserEventsService>(UserEventsService);
+  });
+
+  it('should wrap the payload in a versioned envelope keyed by user', async () => {
+    const envelope = await service.publish(
+      manager,
+      UserEventType.ROLE_CHANGED,
+      { userId: 1, previousRoles: [Role.USER], roles: [Role.ADMIN] },
+      'request-1'
+    );
+
+    expect(envelope).toMatchObject({
+      type: UserEventType.ROLE_CHANGED,
+      schemaVersion: 2,
+      correlationId: 'request-1',
+    });
+    expect(new Date(envelope.occurredAt).toISOString()).toBe(
+      envelope.occurredAt
+    );
+    expect(outboxService.enqueue).toHaveBeenCalledWith(
+      manager,
+      USER_EVENTS_TOPIC,
+      '1',
+      envelope,
+      { 'x-request-id': 'request-1' }
+    );
+  });
+
+  it('should default the correlation id to the id of the current request', async () => {
+    const envelope = await runWithRequestId('request-2', () =>
+      service.publish(manager, UserEventType.DEACTIVATED, {
+        userId: 1,
+        reason: 'admin',
+      })
+    );
+
+    expect(envelope.correlationId).toBe('request-2');
+    expect(outboxService.enqueue).toHaveBeenCalledWith(
+      manager,
+      USER_EVENTS_TOPIC,
+      '1',
+      envelope,
+      { 'x-request-id': 'request-2' }
+    );
+  });
+
+  it('should default the correlation id to the event id', async () => {
+    const envelope = await service.publish(manager, UserEventType.DELETED, {
+      userId: 1,
+      reason: 'admin',
+    });
+
+    expect(envelope.correlationId).toBe(envelope.eventId);
+  });
+
+  it('should replace the emails in the stored events of an erased user', async () => {
+    await service.forget(manager, 1, 'erased-1@erased.invalid');
+
+    const [, topic, key, rewrite] = outboxService.rewrite.mock.calls[0] as [
+      EntityManager,
+      string,
+      string,
+      (payload: object) => object,
+    ];
+    expect([topic, key]).toEqual([USER_EVENTS_TOPIC, '1']);
+    expect(
+      rewrite({
+        type: UserEventType.EMAIL_CHANGED,
+        payload: {
+          userId: 1,
+          previousEmail: 'kavishka@gmail.com',
+          email: 'kavishka@yahoo.com',
+        },
+      })
+    ).toEqual({
+      type: UserEventType.EMAIL_CHANGED,
+      payload: {
+        userId: 1,
+        previousEmail: 'erased-1@erased.invalid',
+        email: 'erased-1@erased.invalid',
+      },
+    });
+  });
+
+  it('should reject payloads that break the contract', async () => {
+    await expect(
+      service.publish(manager, UserEventType.CREATED, {
+        userId: 1,
+        email: 'not-an-email',
+        roles: [Role.USER],
+        isActive: true,
+      } as UserCreatedPayload)
+    ).rejects.toThrow(InvalidEventException);
+    await expect(
+      service.publish(manager, UserEventType.UPDATED, {
+        userId: 1,
+        changedFields: ['password'],
+        password: 'secret',
+      } as never)
+    ).rejects.toThrow(InvalidEventException);
+    expect(outboxService.enqueue).not.toHaveBeenCalled();
+  });
+});
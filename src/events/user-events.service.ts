@@ -0,0 +1,132 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
+import { randomUUID } from 'crypto';
+import { EntityManager } from 'typeorm';
+import { OutboxService } from 'src/outbox/outbox.service';
+import {
+  getRequestId,
+  REQUEST_ID_HEADER,
+} from 'src/request-context/request-context';
+import { InvalidEventException } from './exceptions/invalid-event.exception';
+import {
+  USER_EVENT_PAYLOAD_CLASSES,
+  USER_EVENT_SCHEMA_VERSIONS,
+  USER_EVENTS_TOPIC,
+  UserEventEnvelope,
+  UserEventPayloads,
+  UserEventType,
+} from './types/user-events.type';
+
+// Payload fields that hold an email address, see UserCreatedPayload and UserEmailChangedPayload
+const EMAIL_FIELDS = ['email', 'previousEmail'];
+
+@Injectable()
+export class UserEventsService {
+  constructor(
+    private _outboxService: OutboxService,
+    private _configService: ConfigService
+  ) {}
+
+  /**
+   * Wraps a payload in a versioned envelope, validates both and stores the event in the
+   * outbox within the given transaction. Events are keyed by user id, so a user's events
+   * are published in order. The correlation id is also sent as the `x-request-id` header,
+   * so consumers can trace a request without parsing the message.
+   *
+   * @param {EntityManager} manager - The entity manager of the transaction making the change.
+   * @param {UserEventType} type - The event type.
+   * @param {UserEventPayloads[T]} payload - The payload matching the event type.
+   * @param {string} correlationId - Ties the event to the request that caused it, defaults to the id of the current request or else the event id.
+   *
+   * @returns {Promise<UserEventEnvelope<T>>} Resolves with the stored envelope.
+   *
+   * @throws {InvalidEventException} Throws if the envelope or payload does not match the contract.
+   */
+  async publish<T extends UserEventType>(
+    manager: EntityManager,
+    type: T,
+    payload: UserEventPayloads[T],
+    correlationId?: string
+  ): Promise<UserEventEnvelope<T>> {
+    const eventId = randomUUID();
+    const envelope: UserEventEnvelope<T> = {
+      eventId,
+      type,
+      schemaVersion: USER_EVENT_SCHEMA_VERSIONS[type],
+      occurredAt: new Date().toISOString(),
+      correlationId: correlationId ?? getRequestId() ?? eventId,
+      payload,
+    };
+    this.validate(envelope);
+    await this._outboxService.enqueue(
+      manager,
+      this.getTopic(),
+      String(payload.userId),
+      envelope,
+      { [REQUEST_ID_HEADER]: envelope.correlationId }
+    );
+    return envelope;
+  }
+
+  /**
+   * Replaces the email addresses in the stored events of an erased user, so the outbox
+   * keeps no personal data. Events that are still pending are published with the
+   * replacement.
+   *
+   * @param {EntityManager} manager - The entity manager of the erasure transaction.
+   * @param {number} userId - The id of the erased user.
+   * @param {string} replacement - The address that replaces the user's emails.
+   *
+   * @returns {Promise<void>} Resolves once the events have been rewritten.
+   */
+  async forget(
+    manager: EntityManager,
+    userId: number,
+    replacement: string
+  ): Promise<void> {
+    await this._outboxService.rewrite(
+      manager,
+      this.getTopic(),
+      String(userId),
+      (envelope: UserEventEnvelope<UserEventType>) => ({
+        ...envelope,
+        payload: Object.fromEntries(
+          Object.entries(envelope.payload).map(([field, value]) => [
+            field,
+            EMAIL_FIELDS.includes(field) ? replacement : value,
+          ])
+        ),
+      })
+    );
+  }
+
+  private getTopic(): string {
+    return (
+      this._configService.get<string>('KAFKA_USER_EVENTS_TOPIC') ??
+      USER_EVENTS_TOPIC
+    );
+  }
+
+  private validate<T extends UserEventType>(
+    envelope: UserEventEnvelope<T>
+  ): void {
+    const errors = [
+      ...validateSync(plainToInstance(UserEventEnvelope, envelope)),
+      ...validateSync(
+        plainToInstance(
+          USER_EVENT_PAYLOAD_CLASSES[envelope.type] as new () => object,
+          envelope.payload
+        ),
+        { whitelist: true, forbidNonWhitelisted: true }
+      ),
+    ];
+    if (errors.length) {
+      throw new InvalidEventException(
+        envelope.type,
+        errors.flatMap((error) => Object.values(error.constraints ?? {}))
+      );
+    }
+  }
+}
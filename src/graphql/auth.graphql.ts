@@ -0,0 +1,73 @@
+import 'reflect-metadata';
+import { Field, InputType, ObjectType } from '@nestjs/graphql';
+import { Transform } from 'class-transformer';
+import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+
+@InputType()
+export class CredentialsInput {
+  @Field()
+  @IsEmail({}, { message: 'Invalid email address' })
+  @IsString()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  public readonly email: string;
+
+  @Field()
+  // Register checks it against the password policy, see PasswordPolicyService
+  @IsString()
+  @IsNotEmpty()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  public readonly password: string;
+}
+
+@InputType()
+export class ChangePasswordInput {
+  @Field()
+  @IsString()
+  @IsNotEmpty()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  public readonly currentPassword: string;
+
+  @Field()
+  // Checked against the password policy by the service, see PasswordPolicyService
+  @IsString()
+  @IsNotEmpty()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  public readonly newPassword: string;
+}
+
+@InputType()
+export class ChangeEmailInput {
+  @Field()
+  @IsEmail({}, { message: 'Invalid email address' })
+  @IsString()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  public readonly email: string;
+
+  @Field()
+  @IsString()
+  @IsNotEmpty()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  public readonly currentPassword: string;
+}
+
+/**
+ * Result of register, login and refreshToken. Holds either the token pair, an MFA
+ * challenge or a message, mirroring the REST responses.
+ */
+@ObjectType()
+export class AuthPayload {
+  @Field(() => String, { nullable: true })
+  accessToken?: string;
+
+  @Field(() => String, { nullable: true })
+  refreshToken?: string;
+
+  @Field({ defaultValue: false })
+  mfaRequired: boolean;
+
+  @Field(() => String, { nullable: true })
+  mfaToken?: string;
+
+  @Field(() => String, { nullable: true })
+  message?: string;
+}
@@ -0,0 +1,159 @@
+import 'reflect-metadata';
+import { ArgsType, Field, InputType, Int, ObjectType } from '@nestjs/graphql';
+import { Transform } from 'class-transformer';
+import {
+  IsBoolean,
+  IsInt,
+  IsLocale,
+  IsOptional,
+  IsString,
+  IsTimeZone,
+  IsUrl,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+@ObjectType('User')
+export class UserModel {
+  @Field(() => Int)
+  id: number;
+
+  @Field()
+  email: string;
+
+  @Field(() => [String])
+  roles: string[];
+
+  @Field()
+  isActive: boolean;
+
+  @Field()
+  emailVerified: boolean;
+
+  @Field()
+  mfaEnabled: boolean;
+
+  @Field(() => String, { nullable: true })
+  displayName?: string | null;
+
+  @Field(() => String, { nullable: true })
+  givenName?: string | null;
+
+  @Field(() => String, { nullable: true })
+  familyName?: string | null;
+
+  @Field(() => String, { nullable: true })
+  avatarUrl?: string | null;
+
+  @Field(() => String, { nullable: true })
+  locale?: string | null;
+
+  @Field(() => String, { nullable: true })
+  timeZone?: string | null;
+
+  @Field()
+  createdAt: Date;
+
+  @Field()
+  updatedAt: Date;
+}
+
+@ObjectType()
+export class UserEdge {
+  @Field()
+  cursor: string;
+
+  @Field(() => UserModel)
+  node: UserModel;
+}
+
+@ObjectType()
+export class PageInfo {
+  @Field()
+  hasNextPage: boolean;
+
+  @Field(() => String, { nullable: true })
+  endCursor: string | null;
+}
+
+@ObjectType()
+export class UserConnection {
+  @Field(() => [UserEdge])
+  edges: UserEdge[];
+
+  @Field(() => PageInfo)
+  pageInfo: PageInfo;
+
+  @Field(() => Int)
+  totalCount: number;
+}
+
+@ArgsType()
+export class UsersConnectionArgs {
+  @Field(() => Int, { defaultValue: 20 })
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  public readonly first: number = 20;
+
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsString()
+  public readonly after?: string;
+
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsString()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  public readonly search?: string;
+
+  @Field({ nullable: true, description: 'Lists users holding this role' })
+  @IsOptional()
+  @IsString()
+  public readonly role?: string;
+
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsBoolean()
+  public readonly isActive?: boolean;
+}
+
+// Null clears a field, see `PATCH /users/:id`
+@InputType()
+export class UpdateProfileInput {
+  @Field(() => String, { nullable: true })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  public readonly displayName?: string | null;
+
+  @Field(() => String, { nullable: true })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  public readonly givenName?: string | null;
+
+  @Field(() => String, { nullable: true })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  public readonly familyName?: string | null;
+
+  @Field(() => String, { nullable: true })
+  @IsOptional()
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  @MaxLength(2048)
+  public readonly avatarUrl?: string | null;
+
+  @Field(() => String, { nullable: true })
+  @IsOptional()
+  @IsLocale()
+  @MaxLength(35)
+  public readonly locale?: string | null;
+
+  @Field(() => String, { nullable: true })
+  @IsOptional()
+  @IsTimeZone()
+  public readonly timeZone?: string | null;
+}
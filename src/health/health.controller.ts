@@ -0,0 +1,33 @@
+import { Controller, Get, ServiceUnavailableException } from '@nestjs/common';
+import { HealthService } from './health.service';
+import { ReadinessReport } from './types/health.type';
+
+@Controller('health')
+export class HealthController {
+  constructor(private _healthService: HealthService) {}
+
+  @Get('/live')
+  /**
+   * Tells the orchestrator the process is running. It does not check dependencies, so an
+   * outage of the database does not get the service restarted.
+   */
+  live(): { status: 'up' } {
+    return { status: 'up' };
+  }
+
+  @Get('/ready')
+  /**
+   * Tells the orchestrator whether the service can take traffic.
+   *
+   * @returns {Promise<ReadinessReport>} Resolves with the result of every check.
+   *
+   * @throws {ServiceUnavailableException} Replies with a 503 and the report if a dependency is down.
+   */
+  async ready(): Promise<ReadinessReport> {
+    const report = await this._healthService.checkReadiness();
+    if (report.status === 'down') {
+      throw new ServiceUnavailableException(report);
+    }
+    return report;
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { EventBusModule } from 'src/event-bus/event-bus.module';
+import { HealthService } from './health.service';
+import { HealthController } from './health.controller';
+
+@Module({
+  imports: [EventBusModule],
+  providers: [HealthService],
+  controllers: [HealthController],
+})
+export class HealthModule {}
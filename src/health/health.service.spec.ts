@@ -0,0 +1,66 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getDataSourceToken } from '@nestjs/typeorm';
+import { HealthService } from './health.service';
+import { EVENT_BUS } from 'src/event-bus/types/event-bus.type';
+
+describe('HealthService', () => {
+  let service: HealthService;
+  let dataSource: { query: jest.Mock };
+  let eventBus: { checkHealth: jest.Mock };
+
+  beforeEach(async () => {
+    dataSource = { query: jest.fn(() => Promise.resolve([{ '?column?': 1 }])) };
+    eventBus = { checkHealth: jest.fn(() => Promise.resolve()) };
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HealthService,
+        { provide: getDataSourceToken(), useValue: dataSource },
+        { provide: EVENT_BUS, useValue: eventBus },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string) =>
+              key === 'HEALTH_CHECK_TIMEOUT_SECONDS' ? 0.05 : undefined,
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<HealthService>(HealthService);
+  });
+
+  it('should be ready when every dependency is up', async () => {
+    await expect(service.checkReadiness()).resolves.toEqual({
+      status: 'up',
+      checks: { database: { status: 'up' }, eventBus: { status: 'up' } },
+    });
+    expect(dataSource.query).toHaveBeenCalledWith('SELECT 1');
+  });
+
+  it('should report a dependency that fails as down', async () => {
+    eventBus.checkHealth.mockRejectedValueOnce(
+      new Error('Kafka producer is disconnected')
+    );
+
+    await expect(service.checkReadiness()).resolves.toEqual({
+      status: 'down',
+      checks: {
+        database: { status: 'up' },
+        eventBus: { status: 'down', error: 'Kafka producer is disconnected' },
+      },
+    });
+  });
+
+  it('should give up on a dependency that does not answer', async () => {
+    dataSource.query.mockReturnValueOnce(new Promise(() => undefined));
+
+    const report = await service.checkReadiness();
+
+    expect(report.status).toBe('down');
+    expect(report.checks.database).toEqual({
+      status: 'down',
+      error: 'Timed out after 0.05s',
+    });
+  });
+});
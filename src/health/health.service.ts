@@ -0,0 +1,61 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectDataSource } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { EVENT_BUS, EventBus } from 'src/event-bus/types/event-bus.type';
+import { DependencyHealth, ReadinessReport } from './types/health.type';
+
+@Injectable()
+export class HealthService {
+  private readonly logger = new Logger(HealthService.name);
+
+  constructor(
+    @InjectDataSource() private _dataSource: DataSource,
+    @Inject(EVENT_BUS) private readonly eventBus: EventBus,
+    private _configService: ConfigService
+  ) {}
+
+  /**
+   * Checks the dependencies the service cannot work without: the database and the event
+   * bus producer. Each check gives up after `HEALTH_CHECK_TIMEOUT_SECONDS`, so a hanging
+   * dependency reports as down instead of stalling the probe.
+   *
+   * @returns {Promise<ReadinessReport>} Resolves with the overall status and the result of every check.
+   */
+  async checkReadiness(): Promise<ReadinessReport> {
+    const [database, eventBus] = await Promise.all([
+      this.check('database', () => this._dataSource.query('SELECT 1')),
+      this.check('event bus', () => this.eventBus.checkHealth()),
+    ]);
+    return {
+      status:
+        database.status === 'up' && eventBus.status === 'up' ? 'up' : 'down',
+      checks: { database, eventBus },
+    };
+  }
+
+  private async check(
+    name: string,
+    probe: () => Promise<unknown>
+  ): Promise<DependencyHealth> {
+    const timeoutSeconds =
+      this._configService.get<number>('HEALTH_CHECK_TIMEOUT_SECONDS') ?? 3;
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Timed out after ${timeoutSeconds}s`)),
+        timeoutSeconds * 1000
+      );
+    });
+    try {
+      await Promise.race([probe(), timeout]);
+      return { status: 'up' };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Readiness check of the ${name} failed: ${message}`);
+      return { status: 'down', error: message };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
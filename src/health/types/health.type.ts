@@ -0,0 +1,15 @@
+export type HealthStatus = 'up' | 'down';
+
+export type DependencyHealth = {
+  status: HealthStatus;
+  // Why the check failed, only set when the dependency is down
+  error?: string;
+};
+
+export type ReadinessReport = {
+  status: HealthStatus;
+  checks: {
+    database: DependencyHealth;
+    eventBus: DependencyHealth;
+  };
+};
@@ -0,0 +1,34 @@
+import { ArgumentsHost, Catch, HttpException } from '@nestjs/common';
+import { BaseRpcExceptionFilter } from '@nestjs/microservices';
+import { Observable, throwError } from 'rxjs';
+
+export type RpcErrorReply = {
+  status: 'error';
+  statusCode: number;
+  message: string | string[];
+};
+
+/**
+ * Replies to message patterns with the status code and message of HTTP exceptions,
+ * e.g. `{ status: 'error', statusCode: 404, message: 'User not found' }`, instead of the
+ * generic "Internal server error" Nest sends for anything but `RpcException`.
+ */
+@Catch()
+export class RpcHttpExceptionFilter extends BaseRpcExceptionFilter {
+  catch(exception: unknown, host: ArgumentsHost): Observable<never> {
+    if (!(exception instanceof HttpException)) {
+      return super.catch(exception, host) as Observable<never>;
+    }
+    const response = exception.getResponse();
+    const reply: RpcErrorReply = {
+      status: 'error',
+      statusCode: exception.getStatus(),
+      message:
+        typeof response === 'string'
+          ? response
+          : ((response as { message?: string | string[] }).message ??
+            exception.message),
+    };
+    return throwError(() => reply);
+  }
+}
@@ -0,0 +1,34 @@
+import { ConfigService } from '@nestjs/config';
+import { KafkaOptions } from '@nestjs/microservices';
+import { SASLOptions } from '@nestjs/microservices/external/kafka.interface';
+
+/**
+ * Builds the Kafka client and consumer options shared by the event bus producer
+ * and the request/reply microservice.
+ */
+export const getKafkaOptions = (
+  configService: ConfigService
+): NonNullable<KafkaOptions['options']> => {
+  const mechanism = configService.get<string>('KAFKA_SASL_MECHANISM');
+  return {
+    client: {
+      clientId: configService.get<string>('KAFKA_CLIENT_ID') ?? 'user',
+      brokers: (configService.get<string>('KAFKA_BROKERS') ?? 'localhost:9092')
+        .split(',')
+        .map((broker) => broker.trim())
+        .filter(Boolean),
+      ssl: configService.get<boolean>('KAFKA_SSL') === true,
+      // The validation schema limits the mechanism to plain and scram
+      sasl: mechanism
+        ? ({
+            mechanism,
+            username: configService.get<string>('KAFKA_SASL_USERNAME') ?? '',
+            password: configService.get<string>('KAFKA_SASL_PASSWORD') ?? '',
+          } as SASLOptions)
+        : undefined,
+    },
+    consumer: {
+      groupId: configService.get<string>('KAFKA_GROUP_ID') ?? 'user-consumer',
+    },
+  };
+};
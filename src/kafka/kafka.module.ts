@@ -1,24 +0,0 @@
-import { Module } from '@nestjs/common';
-import { ClientsModule, Transport } from '@nestjs/microservices';
-
-@Module({
-  imports: [
-    ClientsModule.register([
-      {
-        name: 'USER_SERVICE',
-        transport: Transport.KAFKA,
-        options: {
-          client: {
-            clientId: 'user',
-            brokers: ['localhost:9092'],
-          },
-          consumer: {
-            groupId: 'user-consumer',
-          },
-        },
-      },
-    ]),
-  ],
-  exports: [ClientsModule],
-})
-export class KafkaModule {}
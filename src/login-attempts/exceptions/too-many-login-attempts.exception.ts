@@ -0,0 +1,14 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export class TooManyLoginAttemptsException extends HttpException {
+  constructor(public readonly retryAfter: number) {
+    super(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        message: 'Too many failed login attempts. Please try again later.',
+        retryAfter,
+      },
+      HttpStatus.TOO_MANY_REQUESTS
+    );
+  }
+}
@@ -0,0 +1,16 @@
+import { Entity, Column, PrimaryColumn } from 'typeorm';
+
+@Entity()
+export class LoginAttempt {
+  @PrimaryColumn()
+  key: string;
+
+  @Column()
+  count: number;
+
+  @Column()
+  windowStartedAt: Date;
+
+  @Column()
+  lastAttemptAt: Date;
+}
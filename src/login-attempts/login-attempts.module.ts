@@ -0,0 +1,40 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { UsersModule } from 'src/users/users.module';
+import { LoginAttempt } from './login-attempts.entity';
+import { LoginAttemptsService } from './login-attempts.service';
+import { DatabaseLoginAttemptStore } from './stores/database.store';
+import { InMemoryLoginAttemptStore } from './stores/in-memory.store';
+import {
+  LOGIN_ATTEMPT_STORE,
+  LoginAttemptStoreType,
+} from './types/login-attempts.type';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([LoginAttempt]), UsersModule],
+  providers: [
+    InMemoryLoginAttemptStore,
+    DatabaseLoginAttemptStore,
+    {
+      provide: LOGIN_ATTEMPT_STORE,
+      inject: [
+        ConfigService,
+        InMemoryLoginAttemptStore,
+        DatabaseLoginAttemptStore,
+      ],
+      useFactory: (
+        configService: ConfigService,
+        inMemoryStore: InMemoryLoginAttemptStore,
+        databaseStore: DatabaseLoginAttemptStore
+      ) =>
+        configService.get<LoginAttemptStoreType>('LOGIN_ATTEMPT_STORE') ===
+        LoginAttemptStoreType.DATABASE
+          ? databaseStore
+          : inMemoryStore,
+    },
+    LoginAttemptsService,
+  ],
+  exports: [LoginAttemptsService],
+})
+export class LoginAttemptsModule {}
@@ -0,0 +1,113 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { LoginAttemptsService } from './login-attempts.service';
+import { UsersService } from 'src/users/users.service';
+import { InMemoryLoginAttemptStore } from './stores/in-memory.store';
+import { LOGIN_ATTEMPT_STORE } from './types/login-attempts.type';
+import { TooManyLoginAttemptsException } from './exceptions/too-many-login-attempts.exception';
+
+const config: Record<string, number> = {
+  LOGIN_IP_THRESHOLD: 3,
+  LOGIN_IP_BASE_DELAY_SECONDS: 10,
+  ACCOUNT_LOCKOUT_THRESHOLD: 2,
+  ACCOUNT_LOCKOUT_BASE_SECONDS: 60,
+};
+
+describe('LoginAttemptsService', () => {
+  let service: LoginAttemptsService;
+  let usersService: Record<string, jest.Mock>;
+  const client = { ipAddress: '10.0.0.1' };
+  const user = {
+    id: 1,
+    email: 'kavishka@gmail.com',
+    password: 'hash',
+    roles: ['user'],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(async () => {
+    let failedLoginCount = 0;
+    usersService = {
+      incrementFailedLogins: jest.fn(() => Promise.resolve(++failedLoginCount)),
+      lockUntil: jest.fn(),
+      resetFailedLogins: jest.fn(),
+    };
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginAttemptsService,
+        { provide: UsersService, useValue: usersService },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+        { provide: LOGIN_ATTEMPT_STORE, useClass: InMemoryLoginAttemptStore },
+      ],
+    }).compile();
+
+    service = module.get<LoginAttemptsService>(LoginAttemptsService);
+  });
+
+  it('should throttle an IP address once it reaches the threshold', async () => {
+    for (let i = 0; i < 2; i++) {
+      await service.recordFailure(client);
+    }
+    await expect(service.assertAllowed(client)).resolves.toBeUndefined();
+
+    await service.recordFailure(client);
+    await expect(service.assertAllowed(client)).rejects.toMatchObject({
+      retryAfter: 10,
+    });
+  });
+
+  it('should double the IP delay on every further failure', async () => {
+    for (let i = 0; i < 4; i++) {
+      await service.recordFailure(client);
+    }
+
+    await expect(service.assertAllowed(client)).rejects.toMatchObject({
+      retryAfter: 20,
+    });
+  });
+
+  it('should lock the account after too many failures', async () => {
+    await service.recordFailure(client, user);
+    expect(usersService.lockUntil).not.toHaveBeenCalled();
+
+    await service.recordFailure(client, user);
+    expect(usersService.lockUntil).toHaveBeenCalledWith(
+      user.id,
+      expect.any(Date)
+    );
+  });
+
+  it('should reject a locked account with the remaining lock time', async () => {
+    const lockedUntil = new Date(Date.now() + 30_000);
+
+    await expect(
+      service.assertAllowed(undefined, { ...user, lockedUntil })
+    ).rejects.toThrow(TooManyLoginAttemptsException);
+  });
+
+  it('should clear the account counter after a successful login', async () => {
+    await service.recordSuccess({ ...user, failedLoginCount: 3 });
+
+    expect(usersService.resetFailedLogins).toHaveBeenCalledWith(user.id);
+  });
+
+  describe('in-memory store', () => {
+    afterEach(() => jest.useRealTimers());
+
+    it('should drop expired counters of other keys', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      const store = new InMemoryLoginAttemptStore();
+      await store.increment('ip:10.0.0.1', 900);
+      await store.increment('ip:10.0.0.2', 900);
+
+      jest.advanceTimersByTime(900_000);
+      await store.increment('ip:10.0.0.3', 900);
+
+      expect([...store['records'].keys()]).toEqual(['ip:10.0.0.3']);
+    });
+  });
+});
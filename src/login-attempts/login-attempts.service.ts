@@ -0,0 +1,137 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SafeUser, UsersService } from 'src/users/users.service';
+import { SessionClient } from 'src/sessions/types/sessions.type';
+import { TooManyLoginAttemptsException } from './exceptions/too-many-login-attempts.exception';
+import {
+  LOGIN_ATTEMPT_STORE,
+  LoginAttemptStore,
+} from './types/login-attempts.type';
+
+@Injectable()
+export class LoginAttemptsService {
+  private readonly logger = new Logger(LoginAttemptsService.name);
+
+  constructor(
+    private _usersService: UsersService,
+    private _configService: ConfigService,
+    @Inject(LOGIN_ATTEMPT_STORE) private readonly store: LoginAttemptStore
+  ) {}
+
+  /**
+   * Rejects a login attempt while the account is locked or while the caller's IP
+   * address has to wait out its progressive delay.
+   *
+   * @param {SessionClient} client - The user agent and IP address of the caller.
+   * @param {SafeUser} user - The account being signed into, if it exists.
+   *
+   * @returns {Promise<void>} Resolves if the attempt may proceed.
+   *
+   * @throws {TooManyLoginAttemptsException} Throws with the number of seconds to wait otherwise.
+   */
+  async assertAllowed(client?: SessionClient, user?: SafeUser): Promise<void> {
+    const now = Date.now();
+    if (user?.lockedUntil && user.lockedUntil.getTime() > now) {
+      throw new TooManyLoginAttemptsException(
+        Math.ceil((user.lockedUntil.getTime() - now) / 1000)
+      );
+    }
+    if (!client?.ipAddress) {
+      return;
+    }
+    const record = await this.store.get(
+      this.ipKey(client.ipAddress),
+      this.getNumber('LOGIN_IP_WINDOW_SECONDS', 900)
+    );
+    if (!record) {
+      return;
+    }
+    const retryAt =
+      record.lastAttemptAt.getTime() +
+      this.getDelaySeconds(
+        record.count,
+        this.getNumber('LOGIN_IP_THRESHOLD', 10),
+        this.getNumber('LOGIN_IP_BASE_DELAY_SECONDS', 1),
+        this.getNumber('LOGIN_IP_MAX_DELAY_SECONDS', 300)
+      ) *
+        1000;
+    if (retryAt > now) {
+      throw new TooManyLoginAttemptsException(
+        Math.ceil((retryAt - now) / 1000)
+      );
+    }
+  }
+
+  /**
+   * Counts a failed login against the caller's IP address and, if it exists, the account.
+   * Once the account reaches the lockout threshold it is locked, for twice as long on every further failure.
+   *
+   * @param {SessionClient} client - The user agent and IP address of the caller.
+   * @param {SafeUser} user - The account being signed into, if it exists.
+   *
+   * @returns {Promise<void>} Resolves once the failure has been recorded.
+   */
+  async recordFailure(client?: SessionClient, user?: SafeUser): Promise<void> {
+    if (client?.ipAddress) {
+      await this.store.increment(
+        this.ipKey(client.ipAddress),
+        this.getNumber('LOGIN_IP_WINDOW_SECONDS', 900)
+      );
+    }
+    if (!user) {
+      return;
+    }
+    const failedLoginCount = await this._usersService.incrementFailedLogins(
+      user.id
+    );
+    const lockSeconds = this.getDelaySeconds(
+      failedLoginCount,
+      this.getNumber('ACCOUNT_LOCKOUT_THRESHOLD', 5),
+      this.getNumber('ACCOUNT_LOCKOUT_BASE_SECONDS', 60),
+      this.getNumber('ACCOUNT_LOCKOUT_MAX_SECONDS', 3600)
+    );
+    if (lockSeconds > 0) {
+      this.logger.warn(
+        `Locking user ${user.id} for ${lockSeconds}s after ${failedLoginCount} failed logins`
+      );
+      await this._usersService.lockUntil(
+        user.id,
+        new Date(Date.now() + lockSeconds * 1000)
+      );
+    }
+  }
+
+  /**
+   * Clears the account's failed login counter after a successful login.
+   * The IP counter is left to expire, so one valid account cannot be used to reset it.
+   *
+   * @param {SafeUser} user - The account that signed in.
+   *
+   * @returns {Promise<void>} Resolves once the counter has been cleared.
+   */
+  async recordSuccess(user: SafeUser): Promise<void> {
+    if (user.failedLoginCount || user.lockedUntil) {
+      await this._usersService.resetFailedLogins(user.id);
+    }
+  }
+
+  private getDelaySeconds(
+    count: number,
+    threshold: number,
+    baseSeconds: number,
+    maxSeconds: number
+  ): number {
+    if (count < threshold) {
+      return 0;
+    }
+    return Math.min(baseSeconds * 2 ** (count - threshold), maxSeconds);
+  }
+
+  private getNumber(key: string, defaultValue: number): number {
+    return Number(this._configService.get<number>(key) ?? defaultValue);
+  }
+
+  private ipKey(ipAddress: string): string {
+    return `ip:${ipAddress}`;
+  }
+}
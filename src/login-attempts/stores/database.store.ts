@@ -0,0 +1,58 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { MoreThan, Repository } from 'typeorm';
+import { LoginAttempt } from '../login-attempts.entity';
+import {
+  LoginAttemptRecord,
+  LoginAttemptStore,
+} from '../types/login-attempts.type';
+
+/**
+ * Counters shared through Postgres, for deployments running several instances.
+ */
+@Injectable()
+export class DatabaseLoginAttemptStore implements LoginAttemptStore {
+  constructor(
+    @InjectRepository(LoginAttempt)
+    private _loginAttemptsRepository: Repository<LoginAttempt>
+  ) {}
+
+  async get(
+    key: string,
+    windowSeconds: number
+  ): Promise<LoginAttemptRecord | undefined> {
+    const record = await this._loginAttemptsRepository.findOne({
+      where: {
+        key,
+        windowStartedAt: MoreThan(new Date(Date.now() - windowSeconds * 1000)),
+      },
+    });
+    return record ?? undefined;
+  }
+
+  async increment(
+    key: string,
+    windowSeconds: number
+  ): Promise<LoginAttemptRecord> {
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - windowSeconds * 1000);
+    const table = this._loginAttemptsRepository.metadata.tableName;
+    // Single upsert so concurrent failures from several instances are all counted
+    const rows: LoginAttemptRecord[] =
+      await this._loginAttemptsRepository.query(
+        `INSERT INTO "${table}" ("key", "count", "windowStartedAt", "lastAttemptAt")
+         VALUES ($1, 1, $2, $2)
+         ON CONFLICT ("key") DO UPDATE SET
+           "count" = CASE WHEN "${table}"."windowStartedAt" <= $3 THEN 1 ELSE "${table}"."count" + 1 END,
+           "windowStartedAt" = CASE WHEN "${table}"."windowStartedAt" <= $3 THEN $2 ELSE "${table}"."windowStartedAt" END,
+           "lastAttemptAt" = $2
+         RETURNING "count", "windowStartedAt", "lastAttemptAt"`,
+        [key, now, windowStart]
+      );
+    return rows[0];
+  }
+
+  async reset(key: string): Promise<void> {
+    await this._loginAttemptsRepository.delete({ key });
+  }
+}
@@ -0,0 +1,66 @@
+import { Injectable } from '@nestjs/common';
+import {
+  LoginAttemptRecord,
+  LoginAttemptStore,
+} from '../types/login-attempts.type';
+
+// Expired counters of IP addresses that never come back are dropped at most this often
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Process-local counters. Only correct when a single instance serves logins.
+ */
+@Injectable()
+export class InMemoryLoginAttemptStore implements LoginAttemptStore {
+  private readonly records = new Map<string, LoginAttemptRecord>();
+  private lastSweptAt = Date.now();
+
+  get(
+    key: string,
+    windowSeconds: number
+  ): Promise<LoginAttemptRecord | undefined> {
+    const record = this.records.get(key);
+    if (record && this.isExpired(record, windowSeconds)) {
+      this.records.delete(key);
+      return Promise.resolve(undefined);
+    }
+    return Promise.resolve(record);
+  }
+
+  async increment(
+    key: string,
+    windowSeconds: number
+  ): Promise<LoginAttemptRecord> {
+    const now = new Date();
+    this.sweep(windowSeconds);
+    const current = await this.get(key, windowSeconds);
+    const record = current
+      ? { ...current, count: current.count + 1, lastAttemptAt: now }
+      : { count: 1, windowStartedAt: now, lastAttemptAt: now };
+    this.records.set(key, record);
+    return record;
+  }
+
+  reset(key: string): Promise<void> {
+    this.records.delete(key);
+    return Promise.resolve();
+  }
+
+  private sweep(windowSeconds: number) {
+    if (Date.now() - this.lastSweptAt < SWEEP_INTERVAL_MS) {
+      return;
+    }
+    this.lastSweptAt = Date.now();
+    for (const [key, record] of this.records) {
+      if (this.isExpired(record, windowSeconds)) {
+        this.records.delete(key);
+      }
+    }
+  }
+
+  private isExpired(record: LoginAttemptRecord, windowSeconds: number) {
+    return (
+      record.windowStartedAt.getTime() + windowSeconds * 1000 <= Date.now()
+    );
+  }
+}
@@ -0,0 +1,25 @@
+export const LOGIN_ATTEMPT_STORE = 'LOGIN_ATTEMPT_STORE';
+
+export enum LoginAttemptStoreType {
+  MEMORY = 'memory',
+  DATABASE = 'database',
+}
+
+export type LoginAttemptRecord = {
+  count: number;
+  windowStartedAt: Date;
+  lastAttemptAt: Date;
+};
+
+/**
+ * Keeps failed login counters in a fixed window. Implementations must make
+ * `increment` atomic so concurrent failures are all counted.
+ */
+export interface LoginAttemptStore {
+  get(
+    key: string,
+    windowSeconds: number
+  ): Promise<LoginAttemptRecord | undefined>;
+  increment(key: string, windowSeconds: number): Promise<LoginAttemptRecord>;
+  reset(key: string): Promise<void>;
+}
@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailerModule } from '@nestjs-modules/mailer';
+import { MailService } from './mail.service';
+import { InMemoryMailTransport } from './transports/in-memory.transport';
+import { MailTransportType } from './types/mail.type';
+
+@Module({
+  imports: [
+    MailerModule.forRootAsync({
+      inject: [ConfigService, InMemoryMailTransport],
+      extraProviders: [InMemoryMailTransport],
+      useFactory: (
+        configService: ConfigService,
+        inMemoryTransport: InMemoryMailTransport
+      ) => ({
+        transport:
+          configService.get<MailTransportType>('MAIL_TRANSPORT') ===
+          MailTransportType.MEMORY
+            ? inMemoryTransport
+            : configService.get<string>('SMTP_URL'),
+        defaults: {
+          from: configService.get<string>('MAIL_FROM'),
+        },
+      }),
+    }),
+  ],
+  providers: [MailService],
+  exports: [MailService],
+})
+export class MailModule {}
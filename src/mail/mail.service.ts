@@ -0,0 +1,68 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { MailerService } from '@nestjs-modules/mailer';
+
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+
+  constructor(private readonly _mailerService: MailerService) {}
+
+  /**
+   * Sends the link a user has to follow to prove they own their email address.
+   *
+   * @param {string} to - The address to verify.
+   * @param {string} link - The signed verification link.
+   *
+   * @returns {Promise<void>} Resolves once the message has been handed to the transport.
+   */
+  async sendEmailVerification(to: string, link: string): Promise<void> {
+    this.logger.log(`Sending email verification to: ${to}`);
+    await this._mailerService.sendMail({
+      to,
+      subject: 'Verify your email address',
+      text: `Please verify your email address by opening the following link:\n\n${link}\n\nIf you did not create an account, you can ignore this email.`,
+      html: `<p>Please verify your email address by opening the following link:</p><p><a href="${link}">${link}</a></p><p>If you did not create an account, you can ignore this email.</p>`,
+    });
+  }
+
+  /**
+   * Sends the link a user has to follow to move their account to a new email address.
+   *
+   * @param {string} to - The new address, which has to be confirmed.
+   * @param {string} link - The signed confirmation link.
+   *
+   * @returns {Promise<void>} Resolves once the message has been handed to the transport.
+   */
+  async sendEmailChangeConfirmation(to: string, link: string): Promise<void> {
+    this.logger.log(`Sending email change confirmation to: ${to}`);
+    await this._mailerService.sendMail({
+      to,
+      subject: 'Confirm your new email address',
+      text: `Please confirm that your account should use this email address by opening the following link:\n\n${link}\n\nIf you did not ask for this change, you can ignore this email.`,
+      html: `<p>Please confirm that your account should use this email address by opening the following link:</p><p><a href="${link}">${link}</a></p><p>If you did not ask for this change, you can ignore this email.</p>`,
+    });
+  }
+
+  /**
+   * Sends the single-use link a user follows to choose a new password.
+   *
+   * @param {string} to - The address of the account being recovered.
+   * @param {string} link - The password reset link.
+   * @param {number} ttlMinutes - How long the link stays valid, shown to the user.
+   *
+   * @returns {Promise<void>} Resolves once the message has been handed to the transport.
+   */
+  async sendPasswordReset(
+    to: string,
+    link: string,
+    ttlMinutes: number
+  ): Promise<void> {
+    this.logger.log(`Sending password reset to: ${to}`);
+    await this._mailerService.sendMail({
+      to,
+      subject: 'Reset your password',
+      text: `You can choose a new password by opening the following link within ${ttlMinutes} minutes:\n\n${link}\n\nIf you did not ask for a password reset, you can ignore this email.`,
+      html: `<p>You can choose a new password by opening the following link within ${ttlMinutes} minutes:</p><p><a href="${link}">${link}</a></p><p>If you did not ask for a password reset, you can ignore this email.</p>`,
+    });
+  }
+}
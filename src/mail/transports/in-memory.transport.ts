@@ -0,0 +1,36 @@
+import { Injectable } from '@nestjs/common';
+import { SentMessageInfo, Transport } from 'nodemailer';
+import MailMessage from 'nodemailer/lib/mailer/mail-message';
+import { CapturedMail } from '../types/mail.type';
+
+/**
+ * Nodemailer transport that keeps every message in memory instead of delivering it.
+ * Selected with `MAIL_TRANSPORT=memory` for tests and local development.
+ */
+@Injectable()
+export class InMemoryMailTransport implements Transport<SentMessageInfo> {
+  name = 'memory';
+  version = '1.0.0';
+  readonly messages: CapturedMail[] = [];
+
+  send(
+    mail: MailMessage<SentMessageInfo>,
+    callback: (err: Error | null, info: SentMessageInfo) => void
+  ): void {
+    const envelope = mail.message.getEnvelope();
+    const { subject, text, html } = mail.data;
+    this.messages.push({
+      from: envelope.from || undefined,
+      to: envelope.to.join(', '),
+      subject: subject ?? '',
+      text: typeof text === 'string' ? text : undefined,
+      html: typeof html === 'string' ? html : undefined,
+      sentAt: new Date(),
+    });
+    callback(null, { envelope, messageId: mail.message.messageId() });
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
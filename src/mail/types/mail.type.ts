@@ -0,0 +1,13 @@
+export enum MailTransportType {
+  SMTP = 'smtp',
+  MEMORY = 'memory',
+}
+
+export type CapturedMail = {
+  from?: string;
+  to: string;
+  subject: string;
+  text?: string;
+  html?: string;
+  sentAt: Date;
+};
@@ -2,20 +2,34 @@ import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { MicroserviceOptions, Transport } from '@nestjs/microservices';
+import { ConfigService } from '@nestjs/config';
+import { getKafkaOptions } from './kafka/kafka.config';
+import { EventBusType } from './event-bus/types/event-bus.type';
+import { JsonLogger } from './utils/logger';
+import { LogLevel } from '@nestjs/common';
+import { NestExpressApplication } from '@nestjs/platform-express';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
-  app.connectMicroservice<MicroserviceOptions>({
-    transport: Transport.KAFKA,
-    options: {
-      client: {
-        brokers: ['localhost:9092'],
-      },
-      consumer: {
-        groupId: 'user-consumer',
-      },
-    },
+  // Startup logs are held back until the JSON logger is installed
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
+    bufferLogs: true,
   });
+  const configService = app.get(ConfigService);
+  app.useLogger(new JsonLogger(configService.get<LogLevel>('LOG_LEVEL')));
+  // Behind a load balancer, request.ip is only the client's address when its proxy is trusted
+  app.set(
+    'trust proxy',
+    configService.get<boolean | number | string>('TRUST_PROXY')
+  );
+  // Request/reply handlers are only served when Kafka is the event bus
+  const useKafka =
+    configService.get<EventBusType>('EVENT_BUS') === EventBusType.KAFKA;
+  if (useKafka) {
+    app.connectMicroservice<MicroserviceOptions>({
+      transport: Transport.KAFKA,
+      options: getKafkaOptions(configService),
+    });
+  }
   // app.enableCors({
   //   origin: 'https://rooster.jobs/',
   //   methods: 'GET,HEAD,PUT,PATCH,POST,DELETE',
@@ -32,6 +46,8 @@ async function bootstrap() {
   const documentFactory = () => SwaggerModule.createDocument(app, config);
   SwaggerModule.setup('/', app, documentFactory);
   await app.listen(process.env.PORT ?? 3000);
-  await app.startAllMicroservices();
+  if (useKafka) {
+    await app.startAllMicroservices();
+  }
 }
 bootstrap();
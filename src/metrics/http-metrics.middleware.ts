@@ -0,0 +1,25 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { NextFunction, Request, Response } from 'express';
+import { MetricsService } from './metrics.service';
+
+// Label of requests no route matched, keeps scanners from creating a series per path
+const UNMATCHED_ROUTE = 'unmatched';
+
+@Injectable()
+export class HttpMetricsMiddleware implements NestMiddleware {
+  constructor(private _metricsService: MetricsService) {}
+
+  use(request: Request, response: Response, next: NextFunction): void {
+    const startedAt = process.hrtime.bigint();
+    response.on('finish', () => {
+      const route = (request.route as { path?: string } | undefined)?.path;
+      this._metricsService.recordRequest(
+        request.method,
+        route ? `${request.baseUrl}${route}` : UNMATCHED_ROUTE,
+        response.statusCode,
+        Number(process.hrtime.bigint() - startedAt) / 1e9
+      );
+    });
+    next();
+  }
+}
@@ -0,0 +1,17 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { Registry } from 'prom-client';
+import { MetricsService } from './metrics.service';
+
+@Controller('metrics')
+export class MetricsController {
+  constructor(private _metricsService: MetricsService) {}
+
+  @Get('/')
+  @Header('Content-Type', Registry.PROMETHEUS_CONTENT_TYPE)
+  /**
+   * Serves the metrics in the Prometheus text format.
+   */
+  async getMetrics(): Promise<string> {
+    return await this._metricsService.render();
+  }
+}
@@ -0,0 +1,46 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MetricsService } from './metrics.service';
+import { AuditOutcome } from 'src/audit/types/audit.type';
+
+describe('MetricsService', () => {
+  let service: MetricsService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [MetricsService],
+    }).compile();
+
+    service = module.get<MetricsService>(MetricsService);
+  });
+
+  it('should count sign ins by outcome', async () => {
+    service.recordLogin(AuditOutcome.SUCCESS);
+    service.recordLogin(AuditOutcome.FAILURE);
+    service.recordLogin(AuditOutcome.FAILURE);
+
+    const metrics = await service.render();
+    expect(metrics).toContain('user_service_logins_total{outcome="success"} 1');
+    expect(metrics).toContain('user_service_logins_total{outcome="failure"} 2');
+  });
+
+  it('should record request latency by route pattern', async () => {
+    service.recordRequest('GET', '/users/:id', 200, 0.02);
+
+    const metrics = await service.render();
+    expect(metrics).toContain(
+      'user_service_http_request_duration_seconds_count{method="GET",route="/users/:id",status_code="200"} 1'
+    );
+  });
+
+  it('should keep the metrics of every instance apart', async () => {
+    service.recordPublishFailure('user-topic');
+    const other = new MetricsService();
+
+    expect(await other.render()).not.toContain(
+      'user_service_event_publish_failures_total{topic="user-topic"}'
+    );
+    expect(await service.render()).toContain(
+      'user_service_event_publish_failures_total{topic="user-topic"} 1'
+    );
+  });
+});
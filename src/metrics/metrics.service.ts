@@ -0,0 +1,93 @@
+import { Injectable } from '@nestjs/common';
+import {
+  collectDefaultMetrics,
+  Counter,
+  Histogram,
+  Registry,
+} from 'prom-client';
+import { AuditOutcome } from 'src/audit/types/audit.type';
+
+/**
+ * Holds the Prometheus metrics of the service in its own registry, next to the default
+ * process metrics, and renders them for `/metrics`.
+ */
+@Injectable()
+export class MetricsService {
+  readonly registry = new Registry();
+
+  private readonly logins = new Counter({
+    name: 'user_service_logins_total',
+    help: 'Sign in attempts by outcome',
+    labelNames: ['outcome'] as const,
+    registers: [this.registry],
+  });
+
+  private readonly registrations = new Counter({
+    name: 'user_service_registrations_total',
+    help: 'Sign ups by outcome',
+    labelNames: ['outcome'] as const,
+    registers: [this.registry],
+  });
+
+  private readonly tokenRefreshes = new Counter({
+    name: 'user_service_token_refreshes_total',
+    help: 'Refresh token rotations by outcome',
+    labelNames: ['outcome'] as const,
+    registers: [this.registry],
+  });
+
+  private readonly publishFailures = new Counter({
+    name: 'user_service_event_publish_failures_total',
+    help: 'Outbox events the event bus did not accept, by topic',
+    labelNames: ['topic'] as const,
+    registers: [this.registry],
+  });
+
+  private readonly requestDuration = new Histogram({
+    name: 'user_service_http_request_duration_seconds',
+    help: 'HTTP request latency by method, route and status code',
+    labelNames: ['method', 'route', 'status_code'] as const,
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+    registers: [this.registry],
+  });
+
+  constructor() {
+    collectDefaultMetrics({ register: this.registry });
+  }
+
+  recordLogin(outcome: AuditOutcome): void {
+    this.logins.inc({ outcome });
+  }
+
+  recordRegistration(outcome: AuditOutcome): void {
+    this.registrations.inc({ outcome });
+  }
+
+  recordTokenRefresh(outcome: AuditOutcome): void {
+    this.tokenRefreshes.inc({ outcome });
+  }
+
+  recordPublishFailure(topic: string): void {
+    this.publishFailures.inc({ topic });
+  }
+
+  /**
+   * Records the latency of a request. The route is the matched pattern, such as
+   * `/users/:id`, so the number of series stays bounded.
+   */
+  recordRequest(
+    method: string,
+    route: string,
+    statusCode: number,
+    seconds: number
+  ): void {
+    this.requestDuration.observe(
+      { method, route, status_code: String(statusCode) },
+      seconds
+    );
+  }
+
+  async render(): Promise<string> {
+    return await this.registry.metrics();
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { UsersModule } from 'src/users/users.module';
+import { RecoveryCode } from './recovery-codes.entity';
+import { MfaService } from './mfa.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([RecoveryCode]), UsersModule],
+  providers: [MfaService],
+  exports: [MfaService],
+})
+export class MfaModule {}
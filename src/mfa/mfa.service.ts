@@ -0,0 +1,143 @@
+import { ConflictException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { UsersService } from 'src/users/users.service';
+import {
+  buildOtpAuthUri,
+  generateTotpSecret,
+  verifyTotp,
+} from 'src/auth/utils/totp';
+import { RecoveryCode } from './recovery-codes.entity';
+import { TotpSetup } from './types/mfa.type';
+
+const RECOVERY_CODE_COUNT = 10;
+
+const normalizeRecoveryCode = (code: string): string =>
+  code.replace(/[\s-]/g, '').toLowerCase();
+
+const hashRecoveryCode = (code: string): string =>
+  createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+
+@Injectable()
+export class MfaService {
+  private readonly logger = new Logger(MfaService.name);
+
+  constructor(
+    @InjectRepository(RecoveryCode)
+    private _recoveryCodesRepository: Repository<RecoveryCode>,
+    private _usersService: UsersService,
+    private _configService: ConfigService
+  ) {}
+
+  /**
+   * Generates a new TOTP secret for the user. The secret only takes effect once
+   * a code generated from it has been confirmed.
+   *
+   * @param {number} userId - The id of the user enrolling.
+   * @param {string} email - The email shown as account name in the authenticator app.
+   *
+   * @returns {Promise<TotpSetup>} Resolves with the secret and the otpauth URI to render as QR code.
+   *
+   * @throws {ConflictException} Throws if MFA is already enabled for the user.
+   */
+  async startTotpSetup(userId: number, email: string): Promise<TotpSetup> {
+    const { mfaEnabled } = await this._usersService.findTotpState(userId);
+    if (mfaEnabled) {
+      throw new ConflictException('MFA is already enabled.');
+    }
+    const secret = generateTotpSecret();
+    await this._usersService.setTotpSecret(userId, secret);
+    this.logger.log(`Started TOTP setup for user: ${userId}`);
+    return {
+      secret,
+      otpauth_url: buildOtpAuthUri(
+        secret,
+        email,
+        this._configService.get<string>('MFA_ISSUER') ?? 'User Service'
+      ),
+    };
+  }
+
+  /**
+   * Finishes TOTP enrollment with a code from the authenticator app and issues recovery codes.
+   *
+   * @param {number} userId - The id of the user enrolling.
+   * @param {string} code - The current code shown by the authenticator app.
+   *
+   * @returns {Promise<string[] | null>} Resolves with the recovery codes, or null if the code is wrong.
+   *
+   * @throws {ConflictException} Throws if MFA is already enabled or setup was never started.
+   */
+  async confirmTotp(userId: number, code: string): Promise<string[] | null> {
+    const { mfaEnabled, totpSecret } =
+      await this._usersService.findTotpState(userId);
+    if (mfaEnabled || !totpSecret) {
+      throw new ConflictException('No pending TOTP setup.');
+    }
+    const step = verifyTotp(totpSecret, code);
+    if (step === null) {
+      return null;
+    }
+    await this._usersService.enableMfa(userId, step);
+    this.logger.log(`Enabled TOTP for user: ${userId}`);
+    return await this.regenerateRecoveryCodes(userId);
+  }
+
+  /**
+   * Checks a second factor, either a TOTP code or an unused recovery code. TOTP codes
+   * cannot be replayed and recovery codes are consumed on use.
+   *
+   * @param {number} userId - The id of the user signing in.
+   * @param {string} code - The TOTP or recovery code.
+   *
+   * @returns {Promise<boolean>} Resolves with true if the code is valid.
+   */
+  async verifyCode(userId: number, code: string): Promise<boolean> {
+    const { mfaEnabled, totpSecret } =
+      await this._usersService.findTotpState(userId);
+    if (!mfaEnabled || !totpSecret) {
+      return false;
+    }
+    const step = verifyTotp(totpSecret, code.trim());
+    if (step !== null) {
+      return await this._usersService.markTotpStepUsed(userId, step);
+    }
+    const result = await this._recoveryCodesRepository.update(
+      { userId, codeHash: hashRecoveryCode(code), usedAt: IsNull() },
+      { usedAt: new Date() }
+    );
+    if (result.affected) {
+      this.logger.warn(`Recovery code used by user: ${userId}`);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Replaces all recovery codes of the user with a fresh set.
+   *
+   * @param {number} userId - The id of the user.
+   *
+   * @returns {Promise<string[]>} Resolves with the plaintext codes, shown to the user once.
+   */
+  async regenerateRecoveryCodes(userId: number): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+    await this._recoveryCodesRepository.delete({ userId });
+    await this._recoveryCodesRepository.save(
+      codes.map((code) =>
+        this._recoveryCodesRepository.create({
+          userId,
+          codeHash: hashRecoveryCode(code),
+          usedAt: null,
+          createdAt: new Date(),
+        })
+      )
+    );
+    return codes;
+  }
+}
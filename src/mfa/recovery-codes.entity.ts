@@ -0,0 +1,21 @@
+import { Entity, Column, PrimaryGeneratedColumn, Index } from 'typeorm';
+
+@Entity()
+export class RecoveryCode {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column()
+  userId: number;
+
+  // sha256 of the normalized code, the code itself is shown to the user once
+  @Column()
+  codeHash: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  usedAt: Date | null;
+
+  @Column()
+  createdAt: Date;
+}
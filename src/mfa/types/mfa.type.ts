@@ -0,0 +1,4 @@
+export type TotpSetup = {
+  secret: string;
+  otpauth_url: string;
+};
@@ -0,0 +1,58 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OutboxService } from './outbox.service';
+
+/**
+ * Periodically publishes pending outbox events to the event bus.
+ */
+@Injectable()
+export class OutboxRelayService
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger = new Logger(OutboxRelayService.name);
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private _outboxService: OutboxService,
+    private _configService: ConfigService
+  ) {}
+
+  onApplicationBootstrap(): void {
+    const interval =
+      this._configService.get<number>('OUTBOX_RELAY_INTERVAL_SECONDS') ?? 1;
+    if (interval <= 0) {
+      this.logger.log('Outbox relay is disabled');
+      return;
+    }
+    this.timer = setInterval(() => void this.relay(), interval * 1000);
+    this.timer.unref();
+  }
+
+  onApplicationShutdown(): void {
+    clearInterval(this.timer);
+  }
+
+  async relay(): Promise<void> {
+    // Skip the tick if the previous batch is still being published
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      const published = await this._outboxService.relay();
+      if (published > 0) {
+        this.logger.log(`Published ${published} outbox events`);
+      }
+    } catch (error) {
+      this.logger.error('Relaying outbox events failed', error.stack);
+    } finally {
+      this.running = false;
+    }
+  }
+}
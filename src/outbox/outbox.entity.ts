@@ -0,0 +1,45 @@
+import { Entity, Column, PrimaryGeneratedColumn, Index } from 'typeorm';
+import { OutboxStatus } from './types/outbox.type';
+
+@Entity()
+@Index(['status', 'id'])
+export class OutboxEvent {
+  // Increasing ids give the publish order within a key
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  topic: string;
+
+  @Index()
+  @Column()
+  key: string;
+
+  @Column({ type: 'jsonb' })
+  payload: object;
+
+  @Column({ type: 'jsonb', nullable: true })
+  headers: Record<string, string> | null;
+
+  @Column({
+    type: 'enum',
+    enum: OutboxStatus,
+    default: OutboxStatus.PENDING,
+  })
+  status: OutboxStatus;
+
+  @Column({ default: 0 })
+  attempts: number;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string | null;
+
+  @Column()
+  nextAttemptAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  publishedAt: Date | null;
+
+  @Column()
+  createdAt: Date;
+}
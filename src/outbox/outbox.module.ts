@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { EventBusModule } from 'src/event-bus/event-bus.module';
+import { MetricsModule } from 'src/metrics/metrics.module';
+import { OutboxEvent } from './outbox.entity';
+import { OutboxService } from './outbox.service';
+import { OutboxRelayService } from './outbox-relay.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([OutboxEvent]),
+    EventBusModule,
+    MetricsModule,
+  ],
+  providers: [OutboxService, OutboxRelayService],
+  exports: [OutboxService],
+})
+export class OutboxModule {}
@@ -0,0 +1,254 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { ConflictException } from '@nestjs/common';
+import { EntityManager, FindOperator } from 'typeorm';
+import { OutboxService } from './outbox.service';
+import { OutboxEvent } from './outbox.entity';
+import { OutboxStatus } from './types/outbox.type';
+import { EVENT_BUS } from 'src/event-bus/types/event-bus.type';
+import { MetricsService } from 'src/metrics/metrics.service';
+
+describe('OutboxService', () => {
+  let service: OutboxService;
+  let events: OutboxEvent[];
+  let eventBus: { publish: jest.Mock };
+  let metricsService: { recordPublishFailure: jest.Mock };
+  let locked: boolean;
+  let config: Record<string, number>;
+  let manager: { query: jest.Mock; getRepository: () => unknown };
+  let transaction: jest.Mock;
+
+  const event = (id: number, key: string, overrides = {}): OutboxEvent => ({
+    id,
+    topic: 'user-topic',
+    key,
+    payload: { id: Number(key), event: `event-${id}` },
+    headers: null,
+    status: OutboxStatus.PENDING,
+    attempts: 0,
+    lastError: null,
+    nextAttemptAt: new Date(0),
+    publishedAt: null,
+    createdAt: new Date(0),
+    ...overrides,
+  });
+
+  const published = () =>
+    eventBus.publish.mock.calls.map(
+      ([, message]: [string, { value: string }]) =>
+        (JSON.parse(message.value) as { event: string }).event
+    );
+
+  beforeEach(async () => {
+    locked = true;
+    config = { OUTBOX_MAX_ATTEMPTS: 2 };
+    events = [];
+    eventBus = { publish: jest.fn(() => Promise.resolve()) };
+    metricsService = { recordPublishFailure: jest.fn() };
+    // Mirrors the claim query: due pending events without an unpublished predecessor
+    const claimable = (limit: number) =>
+      events
+        .filter(
+          (event) =>
+            event.status === OutboxStatus.PENDING &&
+            event.nextAttemptAt <= new Date() &&
+            !events.some(
+              (earlier) =>
+                earlier.key === event.key &&
+                earlier.id < event.id &&
+                earlier.status !== OutboxStatus.PUBLISHED
+            )
+        )
+        .slice(0, limit);
+    const repository = {
+      createQueryBuilder: jest.fn(() => {
+        let limit = Infinity;
+        const builder = {
+          where: () => builder,
+          andWhere: () => builder,
+          orderBy: () => builder,
+          limit: (value: number) => {
+            limit = value;
+            return builder;
+          },
+          getMany: () => Promise.resolve(claimable(limit)),
+        };
+        return builder;
+      }),
+      update: jest.fn(
+        (
+          criteria: number | { id: FindOperator<number[]> },
+          changes: Partial<OutboxEvent>
+        ) => {
+          const ids =
+            typeof criteria === 'number' ? [criteria] : criteria.id.value;
+          events
+            .filter((event) => ids.includes(event.id))
+            .forEach((event) => Object.assign(event, changes));
+          return Promise.resolve();
+        }
+      ),
+      find: jest.fn(({ where }: { where: { topic: string; key: string } }) =>
+        Promise.resolve(
+          events.filter(
+            (event) => event.topic === where.topic && event.key === where.key
+          )
+        )
+      ),
+      findOne: jest.fn(({ where }: { where: { id: number } }) =>
+        Promise.resolve(events.find((event) => event.id === where.id))
+      ),
+      save: jest.fn((event: OutboxEvent) => Promise.resolve(event)),
+    };
+    manager = {
+      query: jest.fn(() => Promise.resolve([{ locked }])),
+      getRepository: () => repository,
+    };
+    transaction = jest.fn((work: (m: typeof manager) => unknown) =>
+      work(manager)
+    );
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OutboxService,
+        {
+          provide: getRepositoryToken(OutboxEvent),
+          useValue: {
+            ...repository,
+            manager: { transaction },
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string) => config[key],
+          },
+        },
+        { provide: EVENT_BUS, useValue: eventBus },
+        { provide: MetricsService, useValue: metricsService },
+      ],
+    }).compile();
+
+    service = module.get<OutboxService>(OutboxService);
+  });
+
+  it('should publish due events in order and mark them published', async () => {
+    events = [event(1, '1'), event(2, '2'), event(3, '1')];
+
+    await expect(service.relay()).resolves.toBe(3);
+    expect(published()).toEqual(['event-1', 'event-2', 'event-3']);
+    expect(events.every((e) => e.status === OutboxStatus.PUBLISHED)).toBe(true);
+  });
+
+  it('should publish the stored headers', async () => {
+    events = [event(1, '1', { headers: { 'x-request-id': 'request-1' } })];
+
+    await service.relay();
+
+    expect(eventBus.publish).toHaveBeenCalledWith(
+      'user-topic',
+      expect.objectContaining({ headers: { 'x-request-id': 'request-1' } })
+    );
+  });
+
+  it('should hold back later events of a key whose event failed', async () => {
+    events = [event(1, '1'), event(2, '2'), event(3, '1')];
+    eventBus.publish.mockRejectedValueOnce(new Error('broker down'));
+
+    await expect(service.relay()).resolves.toBe(1);
+    expect(published()).toEqual(['event-1', 'event-2']);
+    expect(events[0]).toMatchObject({
+      status: OutboxStatus.PENDING,
+      attempts: 1,
+      lastError: 'broker down',
+    });
+    expect(events[0].nextAttemptAt.getTime()).toBeGreaterThan(Date.now());
+    expect(events[2].status).toBe(OutboxStatus.PENDING);
+    expect(metricsService.recordPublishFailure).toHaveBeenCalledTimes(1);
+    expect(metricsService.recordPublishFailure).toHaveBeenCalledWith(
+      'user-topic'
+    );
+  });
+
+  it('should keep relaying other keys behind more failed events than a batch', async () => {
+    config.OUTBOX_BATCH_SIZE = 2;
+    events = [
+      event(1, '1', { status: OutboxStatus.FAILED, attempts: 2 }),
+      event(2, '2', { status: OutboxStatus.FAILED, attempts: 2 }),
+      event(3, '3', { status: OutboxStatus.FAILED, attempts: 2 }),
+      event(4, '1'),
+      event(5, '4'),
+    ];
+
+    await expect(service.relay()).resolves.toBe(1);
+    expect(published()).toEqual(['event-5']);
+    expect(events[3].status).toBe(OutboxStatus.PENDING);
+  });
+
+  it('should lease claimed events and publish them outside the transaction', async () => {
+    events = [event(1, '1')];
+    let inTransaction = false;
+    transaction.mockImplementationOnce(
+      async (work: (m: typeof manager) => unknown) => {
+        inTransaction = true;
+        try {
+          return await work(manager);
+        } finally {
+          inTransaction = false;
+        }
+      }
+    );
+    eventBus.publish.mockImplementationOnce(() => {
+      expect(inTransaction).toBe(false);
+      expect(events[0].nextAttemptAt.getTime()).toBeGreaterThan(Date.now());
+      return Promise.resolve();
+    });
+
+    await expect(service.relay()).resolves.toBe(1);
+    expect(eventBus.publish).toHaveBeenCalledTimes(1);
+  });
+
+  it('should mark an event failed after the last attempt', async () => {
+    events = [event(1, '1', { attempts: 1 })];
+    eventBus.publish.mockRejectedValueOnce(new Error('broker down'));
+
+    await service.relay();
+
+    expect(events[0].status).toBe(OutboxStatus.FAILED);
+  });
+
+  it('should not relay while another instance holds the lock', async () => {
+    locked = false;
+    events = [event(1, '1')];
+
+    await expect(service.relay()).resolves.toBe(0);
+    expect(eventBus.publish).not.toHaveBeenCalled();
+  });
+
+  it('should rewrite the payloads of a key', async () => {
+    events = [event(1, '1', { status: OutboxStatus.PUBLISHED }), event(2, '2')];
+
+    await service.rewrite(
+      manager as unknown as EntityManager,
+      'user-topic',
+      '1',
+      (payload) => ({ ...payload, event: 'scrubbed' })
+    );
+
+    expect(events[0].payload).toEqual({ id: 1, event: 'scrubbed' });
+    expect(events[1].payload).toEqual({ id: 2, event: 'event-2' });
+  });
+
+  it('should replay failed events but not published ones', async () => {
+    events = [
+      event(1, '1', { status: OutboxStatus.FAILED, attempts: 2 }),
+      event(2, '2', { status: OutboxStatus.PUBLISHED }),
+    ];
+
+    await expect(service.replay(1)).resolves.toMatchObject({
+      status: OutboxStatus.PENDING,
+      attempts: 0,
+    });
+    await expect(service.replay(2)).rejects.toThrow(ConflictException);
+  });
+});
@@ -0,0 +1,235 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { EntityManager, FindOptionsWhere, In, Repository } from 'typeorm';
+import { OutboxEvent } from './outbox.entity';
+import { ListOutboxQueryDto, OutboxStatus } from './types/outbox.type';
+import { Paginated } from 'src/users/types/users.type';
+import { EVENT_BUS, EventBus } from 'src/event-bus/types/event-bus.type';
+import { MetricsService } from 'src/metrics/metrics.service';
+
+// Arbitrary key for pg_try_advisory_xact_lock, so only one instance relays at a time
+const RELAY_LOCK_KEY = 7_305_001;
+
+@Injectable()
+export class OutboxService {
+  private readonly logger = new Logger(OutboxService.name);
+
+  constructor(
+    @InjectRepository(OutboxEvent)
+    private _outboxRepository: Repository<OutboxEvent>,
+    private _configService: ConfigService,
+    @Inject(EVENT_BUS) private readonly eventBus: EventBus,
+    private _metricsService: MetricsService
+  ) {}
+
+  /**
+   * Stores an event to be published by the relay. Pass the entity manager of the
+   * transaction that makes the change, so the event is saved if and only if the change is.
+   *
+   * @param {EntityManager} manager - The entity manager of the surrounding transaction.
+   * @param {string} topic - The topic to publish to.
+   * @param {string} key - The message key; events with the same key are published in order.
+   * @param {object} payload - The message value, serialized as JSON.
+   * @param {Record<string, string>} headers - The message headers.
+   *
+   * @returns {Promise<void>} Resolves once the event has been stored.
+   */
+  async enqueue(
+    manager: EntityManager,
+    topic: string,
+    key: string,
+    payload: object,
+    headers?: Record<string, string>
+  ): Promise<void> {
+    const now = new Date();
+    const repository = manager.getRepository(OutboxEvent);
+    await repository.save(
+      repository.create({
+        topic,
+        key,
+        payload,
+        headers: headers ?? null,
+        status: OutboxStatus.PENDING,
+        nextAttemptAt: now,
+        createdAt: now,
+      })
+    );
+  }
+
+  /**
+   * Rewrites the stored payloads of a key's events, published or not, e.g. to remove
+   * personal data. Pass the entity manager of the surrounding transaction.
+   *
+   * @param {EntityManager} manager - The entity manager of the surrounding transaction.
+   * @param {string} topic - The topic of the events.
+   * @param {string} key - The message key of the events.
+   * @param {Function} rewrite - Returns the new payload of an event.
+   *
+   * @returns {Promise<void>} Resolves once the payloads have been saved.
+   */
+  async rewrite(
+    manager: EntityManager,
+    topic: string,
+    key: string,
+    rewrite: (payload: object) => object
+  ): Promise<void> {
+    const repository = manager.getRepository(OutboxEvent);
+    const events = await repository.find({ where: { topic, key } });
+    for (const event of events) {
+      await repository.update(event.id, { payload: rewrite(event.payload) });
+    }
+  }
+
+  async findAll(query: ListOutboxQueryDto): Promise<Paginated<OutboxEvent>> {
+    const where: FindOptionsWhere<OutboxEvent> = {};
+    if (query.status) {
+      where.status = query.status;
+    }
+    if (query.key) {
+      where.key = query.key;
+    }
+    const [events, total] = await this._outboxRepository.findAndCount({
+      where,
+      order: { id: 'DESC' },
+      skip: (query.page - 1) * query.limit,
+      take: query.limit,
+    });
+    return { data: events, total, page: query.page, limit: query.limit };
+  }
+
+  /**
+   * Schedules an unpublished event for an immediate new attempt and resets its attempt count.
+   *
+   * @param {number} id - The id of the outbox event.
+   *
+   * @returns {Promise<OutboxEvent>} Resolves with the rescheduled event.
+   *
+   * @throws {NotFoundException} Throws if the event does not exist.
+   * @throws {ConflictException} Throws if the event has already been published.
+   */
+  async replay(id: number): Promise<OutboxEvent> {
+    const event = await this._outboxRepository.findOne({ where: { id } });
+    if (!event) {
+      throw new NotFoundException('Outbox event not found');
+    }
+    if (event.status === OutboxStatus.PUBLISHED) {
+      throw new ConflictException('Outbox event has already been published');
+    }
+    event.status = OutboxStatus.PENDING;
+    event.attempts = 0;
+    event.nextAttemptAt = new Date();
+    await this._outboxRepository.save(event);
+    this.logger.log(`Outbox event ${id} scheduled for replay`);
+    return event;
+  }
+
+  /**
+   * Publishes due events, oldest first, until a round publishes nothing. Only the oldest
+   * unpublished event of a key is due, so consumers always see a key's events in order and
+   * a key whose event failed waits without holding up other keys. Failed attempts are
+   * retried with exponential backoff.
+   *
+   * @returns {Promise<number>} Resolves with the number of published events.
+   */
+  async relay(): Promise<number> {
+    let published = 0;
+    for (;;) {
+      const events = await this.claim();
+      let round = 0;
+      for (const event of events) {
+        if (await this.publish(event)) {
+          round++;
+        }
+        await this._outboxRepository.save(event);
+      }
+      published += round;
+      if (round === 0) {
+        return published;
+      }
+    }
+  }
+
+  /**
+   * Picks the next batch of due events and leases them for `OUTBOX_CLAIM_TIMEOUT_SECONDS`,
+   * so other instances skip them while they are published. The lock is only held while
+   * claiming, not while talking to the event bus; if an instance dies, its lease expires
+   * and the events are claimed again.
+   */
+  private async claim(): Promise<OutboxEvent[]> {
+    return await this._outboxRepository.manager.transaction(async (manager) => {
+      const [{ locked }] = await manager.query<{ locked: boolean }[]>(
+        'SELECT pg_try_advisory_xact_lock($1) AS locked',
+        [RELAY_LOCK_KEY]
+      );
+      if (!locked) {
+        return [];
+      }
+      const repository = manager.getRepository(OutboxEvent);
+      const now = new Date();
+      const events = await repository
+        .createQueryBuilder('event')
+        .where('event.status = :pending', { pending: OutboxStatus.PENDING })
+        .andWhere('event.nextAttemptAt <= :now', { now })
+        .andWhere(
+          `NOT EXISTS (SELECT 1 FROM "outbox_event" "earlier" WHERE "earlier"."key" = "event"."key" AND "earlier"."id" < "event"."id" AND "earlier"."status" <> :published)`,
+          { published: OutboxStatus.PUBLISHED }
+        )
+        .orderBy('event.id', 'ASC')
+        .limit(this._configService.get<number>('OUTBOX_BATCH_SIZE') ?? 100)
+        .getMany();
+      if (events.length) {
+        const timeout =
+          this._configService.get<number>('OUTBOX_CLAIM_TIMEOUT_SECONDS') ?? 60;
+        await repository.update(
+          { id: In(events.map((event) => event.id)) },
+          { nextAttemptAt: new Date(now.getTime() + timeout * 1000) }
+        );
+      }
+      return events;
+    });
+  }
+
+  private async publish(event: OutboxEvent): Promise<boolean> {
+    try {
+      await this.eventBus.publish(event.topic, {
+        key: event.key,
+        value: JSON.stringify(event.payload),
+        headers: event.headers ?? undefined,
+      });
+      event.status = OutboxStatus.PUBLISHED;
+      event.publishedAt = new Date();
+      event.lastError = null;
+      return true;
+    } catch (error) {
+      this._metricsService.recordPublishFailure(event.topic);
+      event.attempts++;
+      event.lastError = error instanceof Error ? error.message : String(error);
+      event.nextAttemptAt = new Date(Date.now() + this.getRetryDelay(event));
+      if (
+        event.attempts >=
+        (this._configService.get<number>('OUTBOX_MAX_ATTEMPTS') ?? 10)
+      ) {
+        event.status = OutboxStatus.FAILED;
+        this.logger.error(
+          `Outbox event ${event.id} failed after ${event.attempts} attempts`
+        );
+      }
+      return false;
+    }
+  }
+
+  private getRetryDelay(event: OutboxEvent): number {
+    const base =
+      this._configService.get<number>('OUTBOX_RETRY_BASE_SECONDS') ?? 1;
+    const max =
+      this._configService.get<number>('OUTBOX_RETRY_MAX_SECONDS') ?? 300;
+    return Math.min(base * 2 ** (event.attempts - 1), max) * 1000;
+  }
+}
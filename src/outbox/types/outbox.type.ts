@@ -0,0 +1,33 @@
+import 'reflect-metadata';
+import { Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+
+export enum OutboxStatus {
+  PENDING = 'pending',
+  PUBLISHED = 'published',
+  // Gave up after OUTBOX_MAX_ATTEMPTS, blocks later events of the same key until replayed
+  FAILED = 'failed',
+}
+
+export class ListOutboxQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  public readonly page: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  public readonly limit: number = 20;
+
+  @IsOptional()
+  @IsEnum(OutboxStatus)
+  public readonly status?: OutboxStatus;
+
+  @IsOptional()
+  @IsString()
+  public readonly key?: string;
+}
@@ -0,0 +1,12 @@
+import { BadRequestException, HttpStatus } from '@nestjs/common';
+import { PasswordViolation } from '../types/password-policy.type';
+
+export class PasswordPolicyException extends BadRequestException {
+  constructor(public readonly violations: PasswordViolation[]) {
+    super({
+      statusCode: HttpStatus.BAD_REQUEST,
+      message: 'Password does not meet the password policy.',
+      violations,
+    });
+  }
+}
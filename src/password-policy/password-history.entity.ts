@@ -0,0 +1,18 @@
+import { Entity, Column, PrimaryGeneratedColumn, Index } from 'typeorm';
+
+// Hashes of the last passwords of a user, to keep them from being reused
+@Entity()
+export class PasswordHistory {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column()
+  userId: number;
+
+  @Column()
+  passwordHash: string;
+
+  @Column()
+  createdAt: Date;
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { PasswordHistory } from './password-history.entity';
+import { PasswordPolicyService } from './password-policy.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([PasswordHistory])],
+  providers: [PasswordPolicyService],
+  exports: [PasswordPolicyService],
+})
+export class PasswordPolicyModule {}
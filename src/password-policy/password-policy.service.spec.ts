@@ -0,0 +1,121 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { In } from 'typeorm';
+import { PasswordPolicyService } from './password-policy.service';
+import { PasswordHistory } from './password-history.entity';
+import { PasswordRule } from './types/password-policy.type';
+import { PasswordPolicyException } from './exceptions/password-policy.exception';
+import { hashPassword } from 'src/auth/utils/bycrypt';
+
+describe('PasswordPolicyService', () => {
+  let service: PasswordPolicyService;
+  let repository: Record<string, jest.Mock>;
+  let config: Record<string, unknown>;
+
+  const email = 'kavishka@gmail.com';
+
+  const rules = async (password: string, userId?: number) =>
+    (await service.validate(password, { email, userId })).map(
+      (violation) => violation.rule
+    );
+
+  beforeEach(async () => {
+    config = {
+      PASSWORD_MIN_LENGTH: 8,
+      PASSWORD_MAX_LENGTH: 64,
+      PASSWORD_BREACHED_CHECK: true,
+      PASSWORD_HISTORY_SIZE: 2,
+    };
+    repository = {
+      find: jest.fn(() => Promise.resolve([])),
+      create: jest.fn((entry: Partial<PasswordHistory>) => entry),
+      save: jest.fn(),
+      delete: jest.fn(),
+    };
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PasswordPolicyService,
+        { provide: getRepositoryToken(PasswordHistory), useValue: repository },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PasswordPolicyService>(PasswordPolicyService);
+    service.onModuleInit();
+  });
+
+  it('should accept a long uncommon password', async () => {
+    await expect(rules('tidal-Lantern-42')).resolves.toEqual([]);
+  });
+
+  it('should report every violated rule at once', async () => {
+    config.PASSWORD_MIN_LENGTH = 12;
+    config.PASSWORD_REQUIRE_UPPERCASE = true;
+    config.PASSWORD_REQUIRE_DIGIT = true;
+
+    await expect(rules('kavishka')).resolves.toEqual([
+      PasswordRule.MIN_LENGTH,
+      PasswordRule.UPPERCASE,
+      PasswordRule.DIGIT,
+      PasswordRule.CONTAINS_EMAIL,
+    ]);
+  });
+
+  it('should reject common passwords regardless of case', async () => {
+    await expect(rules('PassWord123')).resolves.toEqual([
+      PasswordRule.BREACHED,
+    ]);
+  });
+
+  it('should skip the breached check when disabled', async () => {
+    config.PASSWORD_BREACHED_CHECK = false;
+
+    await expect(rules('PassWord123')).resolves.toEqual([]);
+  });
+
+  it('should reject a recently used password', async () => {
+    repository.find.mockResolvedValueOnce([
+      { passwordHash: await hashPassword('tidal-Lantern-42') },
+    ]);
+
+    await expect(rules('tidal-Lantern-42', 1)).resolves.toEqual([
+      PasswordRule.REUSED,
+    ]);
+    expect(repository.find).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { userId: 1 }, take: 2 })
+    );
+  });
+
+  it('should throw with the violations', async () => {
+    const error = await service
+      .assertValid('short', { email })
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(PasswordPolicyException);
+    expect((error as PasswordPolicyException).getResponse()).toMatchObject({
+      violations: [expect.objectContaining({ rule: PasswordRule.MIN_LENGTH })],
+    });
+  });
+
+  it('should keep only the configured number of hashes', async () => {
+    repository.find.mockResolvedValueOnce([{ id: 1 }]);
+
+    await service.remember(
+      { getRepository: () => repository } as never,
+      1,
+      'hash'
+    );
+
+    expect(repository.save).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 1, passwordHash: 'hash' })
+    );
+    expect(repository.find).toHaveBeenCalledWith(
+      expect.objectContaining({ skip: 2 })
+    );
+    expect(repository.delete).toHaveBeenCalledWith({ id: In([1]) });
+  });
+});
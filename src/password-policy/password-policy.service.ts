@@ -0,0 +1,223 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, Repository } from 'typeorm';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { PasswordHistory } from './password-history.entity';
+import {
+  PasswordContext,
+  PasswordRule,
+  PasswordViolation,
+} from './types/password-policy.type';
+import { PasswordPolicyException } from './exceptions/password-policy.exception';
+import { comparePasswords } from 'src/auth/utils/bycrypt';
+
+const DEFAULT_BREACHED_LIST_PATH = join(
+  __dirname,
+  'data',
+  'common-passwords.txt'
+);
+
+const CHARACTER_CLASSES: {
+  rule: PasswordRule;
+  setting: string;
+  pattern: RegExp;
+  message: string;
+}[] = [
+  {
+    rule: PasswordRule.LOWERCASE,
+    setting: 'PASSWORD_REQUIRE_LOWERCASE',
+    pattern: /\p{Ll}/u,
+    message: 'Password must contain a lowercase letter',
+  },
+  {
+    rule: PasswordRule.UPPERCASE,
+    setting: 'PASSWORD_REQUIRE_UPPERCASE',
+    pattern: /\p{Lu}/u,
+    message: 'Password must contain an uppercase letter',
+  },
+  {
+    rule: PasswordRule.DIGIT,
+    setting: 'PASSWORD_REQUIRE_DIGIT',
+    pattern: /\p{N}/u,
+    message: 'Password must contain a digit',
+  },
+  {
+    rule: PasswordRule.SYMBOL,
+    setting: 'PASSWORD_REQUIRE_SYMBOL',
+    pattern: /[^\p{L}\p{N}]/u,
+    message: 'Password must contain a symbol',
+  },
+];
+
+@Injectable()
+export class PasswordPolicyService implements OnModuleInit {
+  private readonly logger = new Logger(PasswordPolicyService.name);
+  private breachedPasswords = new Set<string>();
+
+  constructor(
+    @InjectRepository(PasswordHistory)
+    private _passwordHistoryRepository: Repository<PasswordHistory>,
+    private _configService: ConfigService
+  ) {}
+
+  onModuleInit(): void {
+    if (!this._configService.get<boolean>('PASSWORD_BREACHED_CHECK')) {
+      return;
+    }
+    const path =
+      this._configService.get<string>('PASSWORD_BREACHED_LIST_PATH') ??
+      DEFAULT_BREACHED_LIST_PATH;
+    this.breachedPasswords = new Set(
+      readFileSync(path, 'utf8')
+        .split(/\r?\n/)
+        .map((line) => line.trim().toLowerCase())
+        .filter((line) => line && !line.startsWith('#'))
+    );
+    this.logger.log(`Loaded ${this.breachedPasswords.size} breached passwords`);
+  }
+
+  /**
+   * Checks a password against every rule of the policy and returns all violations, so
+   * users can fix them at once.
+   *
+   * @param {string} password - The plaintext password.
+   * @param {PasswordContext} context - The email of the account and, for existing accounts, its id.
+   *
+   * @returns {Promise<PasswordViolation[]>} Resolves with the violated rules, empty if the password is accepted.
+   */
+  async validate(
+    password: string,
+    context: PasswordContext
+  ): Promise<PasswordViolation[]> {
+    const violations: PasswordViolation[] = [];
+    const minLength =
+      this._configService.get<number>('PASSWORD_MIN_LENGTH') ?? 8;
+    const maxLength =
+      this._configService.get<number>('PASSWORD_MAX_LENGTH') ?? 64;
+    const length = [...password].length;
+    if (length < minLength) {
+      violations.push({
+        rule: PasswordRule.MIN_LENGTH,
+        message: `Password must be at least ${minLength} characters`,
+      });
+    }
+    if (length > maxLength) {
+      violations.push({
+        rule: PasswordRule.MAX_LENGTH,
+        message: `Password must be at most ${maxLength} characters`,
+      });
+    }
+    for (const { rule, setting, pattern, message } of CHARACTER_CLASSES) {
+      if (
+        this._configService.get<boolean>(setting) &&
+        !pattern.test(password)
+      ) {
+        violations.push({ rule, message });
+      }
+    }
+    if (this.containsEmail(password, context.email)) {
+      violations.push({
+        rule: PasswordRule.CONTAINS_EMAIL,
+        message: 'Password must not contain the email address',
+      });
+    }
+    if (
+      this._configService.get<boolean>('PASSWORD_BREACHED_CHECK') &&
+      this.breachedPasswords.has(password.toLowerCase())
+    ) {
+      violations.push({
+        rule: PasswordRule.BREACHED,
+        message: 'Password is too common or has appeared in a data breach',
+      });
+    }
+    if (context.userId && (await this.isReused(password, context.userId))) {
+      violations.push({
+        rule: PasswordRule.REUSED,
+        message: `Password must not match any of the last ${this.getHistorySize()} passwords`,
+      });
+    }
+    return violations;
+  }
+
+  /**
+   * @throws {PasswordPolicyException} Throws with every violated rule if the password is not accepted.
+   */
+  async assertValid(password: string, context: PasswordContext): Promise<void> {
+    const violations = await this.validate(password, context);
+    if (violations.length) {
+      throw new PasswordPolicyException(violations);
+    }
+  }
+
+  /**
+   * Adds a password hash to the user's history and drops hashes beyond the configured
+   * size. Runs in the transaction that stores the password.
+   *
+   * @param {EntityManager} manager - The entity manager of the surrounding transaction.
+   * @param {number} userId - The id of the user.
+   * @param {string} passwordHash - The bcrypt hash of the new password.
+   *
+   * @returns {Promise<void>} Resolves once the history has been updated.
+   */
+  async remember(
+    manager: EntityManager,
+    userId: number,
+    passwordHash: string
+  ): Promise<void> {
+    const size = this.getHistorySize();
+    if (size <= 0) {
+      return;
+    }
+    const repository = manager.getRepository(PasswordHistory);
+    await repository.save(
+      repository.create({ userId, passwordHash, createdAt: new Date() })
+    );
+    const stale = await repository.find({
+      where: { userId },
+      order: { id: 'DESC' },
+      skip: size,
+      select: { id: true },
+    });
+    if (stale.length) {
+      await repository.delete({ id: In(stale.map((entry) => entry.id)) });
+    }
+  }
+
+  async forget(manager: EntityManager, userId: number): Promise<void> {
+    await manager.getRepository(PasswordHistory).delete({ userId });
+  }
+
+  private async isReused(password: string, userId: number): Promise<boolean> {
+    const size = this.getHistorySize();
+    if (size <= 0) {
+      return false;
+    }
+    const history = await this._passwordHistoryRepository.find({
+      where: { userId },
+      order: { id: 'DESC' },
+      take: size,
+    });
+    for (const entry of history) {
+      if (await comparePasswords(password, entry.passwordHash)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // The local part alone counts too, unless it is too short to mean anything
+  private containsEmail(password: string, email: string): boolean {
+    const normalized = password.toLowerCase();
+    const [localPart] = email.toLowerCase().split('@');
+    return (
+      normalized.includes(email.toLowerCase()) ||
+      (localPart.length >= 3 && normalized.includes(localPart))
+    );
+  }
+
+  private getHistorySize(): number {
+    return this._configService.get<number>('PASSWORD_HISTORY_SIZE') ?? 5;
+  }
+}
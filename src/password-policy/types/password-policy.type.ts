@@ -0,0 +1,23 @@
+export enum PasswordRule {
+  MIN_LENGTH = 'min-length',
+  MAX_LENGTH = 'max-length',
+  LOWERCASE = 'lowercase',
+  UPPERCASE = 'uppercase',
+  DIGIT = 'digit',
+  SYMBOL = 'symbol',
+  CONTAINS_EMAIL = 'contains-email',
+  BREACHED = 'breached',
+  REUSED = 'reused',
+}
+
+export type PasswordViolation = {
+  rule: PasswordRule;
+  message: string;
+};
+
+// What a password is checked against besides its own content
+export type PasswordContext = {
+  email: string;
+  // Set for existing accounts, whose previous passwords must not be reused
+  userId?: number;
+};
@@ -0,0 +1,89 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, IsNull, MoreThan, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { PasswordReset } from './password-resets.entity';
+
+const hashToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
+
+@Injectable()
+export class PasswordResetsService {
+  constructor(
+    @InjectRepository(PasswordReset)
+    private _passwordResetsRepository: Repository<PasswordReset>
+  ) {}
+
+  /**
+   * Creates a reset token for the user. Only the hash of the token is stored.
+   *
+   * @param {number} userId - The id of the user who asked for a reset.
+   * @param {number} ttlSeconds - How long the token stays valid.
+   *
+   * @returns {Promise<string>} Resolves with the plaintext token to email to the user.
+   */
+  async create(userId: number, ttlSeconds: number): Promise<string> {
+    const token = randomBytes(32).toString('hex');
+    const now = new Date();
+    await this._passwordResetsRepository.save(
+      this._passwordResetsRepository.create({
+        userId,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(now.getTime() + ttlSeconds * 1000),
+        usedAt: null,
+        createdAt: now,
+      })
+    );
+    return token;
+  }
+
+  /**
+   * Looks up the user of a valid token without using it up, so the new password can be
+   * checked before the token is consumed.
+   */
+  async findUserId(token: string): Promise<number | undefined> {
+    const reset = await this._passwordResetsRepository.findOne({
+      where: {
+        tokenHash: hashToken(token),
+        usedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
+      },
+    });
+    return reset?.userId;
+  }
+
+  /**
+   * Marks a token as used if it is still valid. The update is conditional, so a
+   * token can be consumed only once even under concurrent requests.
+   *
+   * @param {string} token - The plaintext token from the emailed link.
+   *
+   * @returns {Promise<number | undefined>} Resolves with the id of the user the token belongs to, or undefined if it is invalid, expired or already used.
+   */
+  async consume(token: string): Promise<number | undefined> {
+    const tokenHash = hashToken(token);
+    const reset = await this._passwordResetsRepository.findOne({
+      where: { tokenHash, usedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+    });
+    if (!reset) {
+      return undefined;
+    }
+    const result = await this._passwordResetsRepository.update(
+      { id: reset.id, usedAt: IsNull() },
+      { usedAt: new Date() }
+    );
+    if (!result.affected) {
+      return undefined;
+    }
+    // Any other outstanding link for this user is now stale
+    await this._passwordResetsRepository.update(
+      { userId: reset.userId, usedAt: IsNull() },
+      { usedAt: new Date() }
+    );
+    return reset.userId;
+  }
+
+  async forget(manager: EntityManager, userId: number): Promise<void> {
+    await manager.getRepository(PasswordReset).delete({ userId });
+  }
+}
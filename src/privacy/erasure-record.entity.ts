@@ -0,0 +1,29 @@
+import { Entity, Column, PrimaryGeneratedColumn, Index } from 'typeorm';
+import { ErasureReason } from './types/privacy.type';
+
+// Kept for compliance reporting, one row per erased account
+@Entity()
+export class ErasureRecord {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  // Id of the tombstone left in the user table
+  @Index()
+  @Column()
+  userId: number;
+
+  @Column({ type: 'varchar' })
+  reason: ErasureReason;
+
+  // Id of the admin who erased the account, null for the purge of deleted accounts
+  @Column({ type: 'int', nullable: true })
+  requestedBy: number | null;
+
+  // When the user or an admin asked for the deletion
+  @Column()
+  requestedAt: Date;
+
+  @Index()
+  @Column()
+  completedAt: Date;
+}
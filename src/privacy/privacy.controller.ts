@@ -0,0 +1,59 @@
+import {
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Post,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from 'src/auth/guard/jwt-auth.guard';
+import { PermissionsGuard } from 'src/auth/guard/permissions.guard';
+import { RequirePermissions } from 'src/auth/permissions.decorator';
+import { ClientInfo, User } from 'src/auth/auth.decorator';
+import { AuthUser } from 'src/auth/types/auth.type';
+import { Permission } from 'src/roles/types/roles.type';
+import { SessionClient } from 'src/sessions/types/sessions.type';
+import { PrivacyService } from './privacy.service';
+
+@Controller('users/me')
+export class PrivacyController {
+  private readonly logger = new Logger(PrivacyController.name);
+  constructor(private _privacyService: PrivacyService) {}
+
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions(Permission.USERS_READ_SELF)
+  @UseGuards(PermissionsGuard)
+  @UseGuards(JwtAuthGuard)
+  @Post('/export')
+  /**
+   * Builds an archive of everything the service holds on the authenticated user.
+   *
+   * @param {AuthUser} user - The authenticated user.
+   * @param {SessionClient} client - The user agent and IP address of the caller.
+   *
+   * @returns {Promise<StreamableFile>} The archive as JSON, sent as an attachment.
+   */
+  async exportData(
+    @User() user: AuthUser,
+    @ClientInfo() client: SessionClient
+  ): Promise<StreamableFile> {
+    this.logger.log(`Exporting data for user: ${user.email}`);
+    try {
+      const archive = await this._privacyService.exportUserData(
+        user.userId,
+        client
+      );
+      return new StreamableFile(Buffer.from(JSON.stringify(archive, null, 2)), {
+        type: 'application/json',
+        disposition: `attachment; filename="user-${user.userId}-export.json"`,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Exporting data failed for user: ${user.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+}
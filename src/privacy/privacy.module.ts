@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { User } from 'src/users/users.entity';
+import { RecoveryCode } from 'src/mfa/recovery-codes.entity';
+import { SessionsModule } from 'src/sessions/sessions.module';
+import { PasswordResetsModule } from 'src/password-resets/password-resets.module';
+import { PasswordPolicyModule } from 'src/password-policy/password-policy.module';
+import { UserAttributesModule } from 'src/user-attributes/user-attributes.module';
+import { AuditModule } from 'src/audit/audit.module';
+import { EventsModule } from 'src/events/events.module';
+import { ErasureRecord } from './erasure-record.entity';
+import { PrivacyService } from './privacy.service';
+import { PrivacyController } from './privacy.controller';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([User, RecoveryCode, ErasureRecord]),
+    SessionsModule,
+    PasswordResetsModule,
+    PasswordPolicyModule,
+    UserAttributesModule,
+    AuditModule,
+    EventsModule,
+  ],
+  providers: [PrivacyService],
+  exports: [PrivacyService],
+  controllers: [PrivacyController],
+})
+export class PrivacyModule {}
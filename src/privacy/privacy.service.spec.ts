@@ -0,0 +1,247 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { PrivacyService } from './privacy.service';
+import { ErasureRecord } from './erasure-record.entity';
+import { User } from 'src/users/users.entity';
+import { Role } from 'src/users/types/users.type';
+import { RecoveryCode } from 'src/mfa/recovery-codes.entity';
+import { SessionsService } from 'src/sessions/sessions.service';
+import { PasswordResetsService } from 'src/password-resets/password-resets.service';
+import { PasswordPolicyService } from 'src/password-policy/password-policy.service';
+import { UserAttributesService } from 'src/user-attributes/user-attributes.service';
+import { AuditService } from 'src/audit/audit.service';
+import { AuditAction, AuditOutcome } from 'src/audit/types/audit.type';
+import { UserEventsService } from 'src/events/user-events.service';
+import { UserEventType } from 'src/events/types/user-events.type';
+
+describe('PrivacyService', () => {
+  let service: PrivacyService;
+  let users: Record<string, jest.Mock>;
+  let recoveryCodes: Record<string, jest.Mock>;
+  let erasures: Record<string, jest.Mock>;
+  let sessionsService: { findAllByUser: jest.Mock; forget: jest.Mock };
+  let passwordResetsService: { forget: jest.Mock };
+  let passwordPolicyService: { forget: jest.Mock };
+  let auditService: Record<string, jest.Mock>;
+  let userEventsService: { publish: jest.Mock; forget: jest.Mock };
+
+  const user = {
+    id: 1,
+    email: 'kavishka@gmail.com',
+    password: 'hash',
+    roles: [Role.USER],
+    isActive: true,
+    emailVerified: true,
+    mfaEnabled: true,
+    displayName: 'Kavishka',
+    customAttributes: { plan: 'pro' },
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    deletedAt: null,
+  };
+
+  beforeEach(async () => {
+    users = {
+      findOne: jest.fn(() => Promise.resolve({ ...user })),
+      update: jest.fn(),
+    };
+    recoveryCodes = {
+      count: jest.fn(() => Promise.resolve(8)),
+      delete: jest.fn(),
+    };
+    erasures = {
+      create: jest.fn((record: Partial<ErasureRecord>) => record),
+      save: jest.fn((record: Partial<ErasureRecord>) =>
+        Promise.resolve({ id: 1, ...record })
+      ),
+      findAndCount: jest.fn(() => Promise.resolve([[], 0])),
+    };
+    const repositories = new Map<unknown, Record<string, jest.Mock>>([
+      [User, users],
+      [RecoveryCode, recoveryCodes],
+      [ErasureRecord, erasures],
+    ]);
+    const manager = {
+      getRepository: (entity: unknown) => repositories.get(entity),
+    };
+    sessionsService = {
+      findAllByUser: jest.fn(() =>
+        Promise.resolve([
+          {
+            id: 'session',
+            userId: 1,
+            currentTokenId: 'jti',
+            userAgent: 'jest',
+            ipAddress: '127.0.0.1',
+            expiresAt: new Date(0),
+            revokedAt: null,
+            createdAt: new Date(0),
+            lastUsedAt: new Date(0),
+          },
+        ])
+      ),
+      forget: jest.fn(),
+    };
+    passwordResetsService = { forget: jest.fn() };
+    passwordPolicyService = { forget: jest.fn() };
+    auditService = {
+      record: jest.fn(),
+      recordFailure: jest.fn(),
+      findForUser: jest.fn(() =>
+        Promise.resolve([
+          { id: 1, actorId: 1, targetId: 1, ipAddress: '127.0.0.1' },
+          { id: 2, actorId: 2, targetId: 1, ipAddress: '10.0.0.2' },
+        ])
+      ),
+      anonymizeForUser: jest.fn(),
+    };
+    userEventsService = { publish: jest.fn(), forget: jest.fn() };
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PrivacyService,
+        {
+          provide: getRepositoryToken(User),
+          useValue: {
+            ...users,
+            manager: {
+              transaction: jest.fn((work: (manager: unknown) => unknown) =>
+                work(manager)
+              ),
+            },
+          },
+        },
+        { provide: getRepositoryToken(RecoveryCode), useValue: recoveryCodes },
+        { provide: getRepositoryToken(ErasureRecord), useValue: erasures },
+        { provide: SessionsService, useValue: sessionsService },
+        { provide: PasswordResetsService, useValue: passwordResetsService },
+        { provide: PasswordPolicyService, useValue: passwordPolicyService },
+        {
+          provide: UserAttributesService,
+          useValue: {
+            toReadable: jest.fn((attributes?: object): object => ({
+              ...attributes,
+            })),
+            pickConsents: jest.fn(() => ({ newsletter: true })),
+          },
+        },
+        { provide: AuditService, useValue: auditService },
+        { provide: UserEventsService, useValue: userEventsService },
+      ],
+    }).compile();
+
+    service = module.get<PrivacyService>(PrivacyService);
+  });
+
+  describe('export', () => {
+    it('should collect the profile, consents, MFA state, sessions and audit entries', async () => {
+      const archive = await service.exportUserData(1);
+
+      expect(archive.profile).toMatchObject({
+        id: 1,
+        email: user.email,
+        displayName: 'Kavishka',
+        customAttributes: { plan: 'pro' },
+      });
+      expect(archive.profile).not.toHaveProperty('password');
+      expect(archive.consents).toEqual({ newsletter: true });
+      expect(archive.mfa).toEqual({ enabled: true, recoveryCodesRemaining: 8 });
+      expect(archive.sessions).toHaveLength(1);
+      expect(archive.sessions[0]).not.toHaveProperty('currentTokenId');
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditAction.DATA_EXPORT,
+          outcome: AuditOutcome.SUCCESS,
+          actorId: 1,
+        })
+      );
+    });
+
+    it('should leave out the client of entries someone else acted in', async () => {
+      const archive = await service.exportUserData(1);
+
+      expect(archive.auditEntries).toEqual([
+        expect.objectContaining({ id: 1, ipAddress: '127.0.0.1' }),
+        expect.objectContaining({ id: 2, ipAddress: null, userAgent: null }),
+      ]);
+    });
+  });
+
+  describe('erasure', () => {
+    it('should anonymize the user and keep the id', async () => {
+      await service.erase(1, { reason: 'admin', requestedBy: 2 });
+
+      expect(users.update).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({
+          email: 'erased-1@erased.invalid',
+          displayName: null,
+          customAttributes: {},
+          totpSecret: null,
+          isActive: false,
+          deletedAt: expect.any(Date) as unknown,
+          erasedAt: expect.any(Date) as unknown,
+        })
+      );
+      expect(users.update).not.toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({ password: user.password })
+      );
+    });
+
+    it('should delete the related data and scrub the audit trail', async () => {
+      await service.erase(1, { reason: 'admin', requestedBy: 2 });
+
+      expect(sessionsService.forget).toHaveBeenCalledWith(expect.anything(), 1);
+      expect(passwordResetsService.forget).toHaveBeenCalledWith(
+        expect.anything(),
+        1
+      );
+      expect(passwordPolicyService.forget).toHaveBeenCalledWith(
+        expect.anything(),
+        1
+      );
+      expect(recoveryCodes.delete).toHaveBeenCalledWith({ userId: 1 });
+      expect(auditService.anonymizeForUser).toHaveBeenCalledWith(
+        expect.anything(),
+        1,
+        user.email
+      );
+      expect(userEventsService.forget).toHaveBeenCalledWith(
+        expect.anything(),
+        1,
+        'erased-1@erased.invalid'
+      );
+    });
+
+    it('should emit an erasure event and record the completion', async () => {
+      const deletedAt = new Date(0);
+      users.findOne.mockResolvedValueOnce({ ...user, deletedAt });
+
+      const record = await service.erase(1, { reason: 'purged' });
+
+      expect(userEventsService.publish).toHaveBeenCalledWith(
+        expect.anything(),
+        UserEventType.ERASED,
+        { userId: 1, reason: 'purged' }
+      );
+      expect(record).toMatchObject({
+        userId: 1,
+        reason: 'purged',
+        requestedBy: null,
+        requestedAt: deletedAt,
+        completedAt: expect.any(Date) as unknown,
+      });
+    });
+
+    it('should not erase a user twice', async () => {
+      users.findOne.mockResolvedValueOnce(null);
+
+      await expect(service.erase(1, { reason: 'admin' })).rejects.toThrow(
+        NotFoundException
+      );
+      expect(userEventsService.publish).not.toHaveBeenCalled();
+      expect(erasures.save).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  Between,
+  FindOptionsWhere,
+  IsNull,
+  LessThanOrEqual,
+  MoreThanOrEqual,
+  Repository,
+} from 'typeorm';
+import { randomBytes } from 'crypto';
+import { User } from 'src/users/users.entity';
+import { toPublicUser } from 'src/users/utils/public-user';
+import { Paginated } from 'src/users/types/users.type';
+import { RecoveryCode } from 'src/mfa/recovery-codes.entity';
+import { hashPassword } from 'src/auth/utils/bycrypt';
+import { SessionsService } from 'src/sessions/sessions.service';
+import { SessionClient } from 'src/sessions/types/sessions.type';
+import { PasswordResetsService } from 'src/password-resets/password-resets.service';
+import { PasswordPolicyService } from 'src/password-policy/password-policy.service';
+import { UserAttributesService } from 'src/user-attributes/user-attributes.service';
+import { AuditService } from 'src/audit/audit.service';
+import { AuditAction, AuditOutcome } from 'src/audit/types/audit.type';
+import { UserEventsService } from 'src/events/user-events.service';
+import { UserEventType } from 'src/events/types/user-events.type';
+import { ErasureRecord } from './erasure-record.entity';
+import {
+  ErasureRequest,
+  ListErasuresQueryDto,
+  UserDataExport,
+} from './types/privacy.type';
+
+@Injectable()
+export class PrivacyService {
+  private readonly logger = new Logger(PrivacyService.name);
+
+  constructor(
+    @InjectRepository(User)
+    private _usersRepository: Repository<User>,
+    @InjectRepository(RecoveryCode)
+    private _recoveryCodesRepository: Repository<RecoveryCode>,
+    @InjectRepository(ErasureRecord)
+    private _erasuresRepository: Repository<ErasureRecord>,
+    private _sessionsService: SessionsService,
+    private _passwordResetsService: PasswordResetsService,
+    private _passwordPolicyService: PasswordPolicyService,
+    private _userAttributesService: UserAttributesService,
+    private _auditService: AuditService,
+    private _userEventsService: UserEventsService
+  ) {}
+
+  /**
+   * Collects everything the service holds on a user: the profile, the consents, the MFA
+   * state, every session and the audit entries the user acted in or was the target of. Secrets such as
+   * the password hash, the TOTP secret and token hashes are left out.
+   *
+   * @param {number} userId - The id of the user.
+   * @param {SessionClient} client - The user agent and IP address of the caller, for the audit trail.
+   *
+   * @returns {Promise<UserDataExport>} Resolves with the archive.
+   *
+   * @throws {NotFoundException} Throws if the user does not exist.
+   */
+  async exportUserData(
+    userId: number,
+    client?: SessionClient
+  ): Promise<UserDataExport> {
+    const audit = {
+      action: AuditAction.DATA_EXPORT,
+      actorId: userId,
+      targetId: userId,
+      client,
+    };
+    try {
+      const user = await this._usersRepository.findOne({
+        where: { id: userId },
+      });
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+      const [recoveryCodesRemaining, sessions, auditEntries] =
+        await Promise.all([
+          this._recoveryCodesRepository.count({
+            where: { userId, usedAt: IsNull() },
+          }),
+          this._sessionsService.findAllByUser(userId),
+          this._auditService.findForUser(userId),
+        ]);
+      const customAttributes = this._userAttributesService.toReadable(
+        user.customAttributes
+      );
+      const archive: UserDataExport = {
+        exportedAt: new Date(),
+        profile: {
+          ...toPublicUser({ ...user, customAttributes }),
+          deletedAt: user.deletedAt,
+        },
+        consents: this._userAttributesService.pickConsents(customAttributes),
+        mfa: { enabled: user.mfaEnabled, recoveryCodesRemaining },
+        sessions: sessions.map((session) => ({
+          id: session.id,
+          userAgent: session.userAgent,
+          ipAddress: session.ipAddress,
+          createdAt: session.createdAt,
+          lastUsedAt: session.lastUsedAt,
+          expiresAt: session.expiresAt,
+          revokedAt: session.revokedAt,
+        })),
+        // The client of entries someone else acted in belongs to them, not to the user
+        auditEntries: auditEntries.map((entry) =>
+          entry.actorId === userId
+            ? entry
+            : { ...entry, ipAddress: null, userAgent: null }
+        ),
+      };
+      await this._auditService.record({
+        ...audit,
+        outcome: AuditOutcome.SUCCESS,
+      });
+      return archive;
+    } catch (error) {
+      await this._auditService.recordFailure(audit, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Erases the personal data of a user. The user row stays as a tombstone so the id
+   * other services and the audit trail refer to remains valid; its email, password and
+   * profile are overwritten and it stays soft deleted. Sessions, recovery codes, password
+   * resets and the password history are deleted, and the audit trail and the user's
+   * stored events are scrubbed. Consumers are told through a `user.erased` event and the
+   * completion is recorded.
+   *
+   * @param {number} userId - The id of the user to erase.
+   * @param {ErasureRequest} request - The reason, the admin asking for it and when the deletion was requested.
+   *
+   * @returns {Promise<ErasureRecord>} Resolves with the record of the completed erasure.
+   *
+   * @throws {NotFoundException} Throws if the user does not exist or has been erased already.
+   */
+  async erase(userId: number, request: ErasureRequest): Promise<ErasureRecord> {
+    // Replaces the password with one nobody knows, as forced resets do
+    const password = await hashPassword(randomBytes(32).toString('hex'));
+    const record = await this._usersRepository.manager.transaction(
+      async (manager) => {
+        const repository = manager.getRepository(User);
+        const user = await repository.findOne({
+          where: { id: userId, erasedAt: IsNull() },
+          withDeleted: true,
+        });
+        if (!user) {
+          throw new NotFoundException('User not found');
+        }
+        const now = new Date();
+        const erasedEmail = `erased-${user.id}@erased.invalid`;
+        await repository.update(user.id, {
+          email: erasedEmail,
+          password,
+          roles: [],
+          isActive: false,
+          emailVerified: false,
+          failedLoginCount: 0,
+          lockedUntil: null,
+          mfaEnabled: false,
+          totpSecret: null,
+          totpLastUsedStep: null,
+          displayName: null,
+          givenName: null,
+          familyName: null,
+          avatarUrl: null,
+          locale: null,
+          timeZone: null,
+          customAttributes: {},
+          updatedAt: now,
+          deletedAt: user.deletedAt ?? now,
+          erasedAt: now,
+        });
+        await this._sessionsService.forget(manager, user.id);
+        await this._passwordResetsService.forget(manager, user.id);
+        await this._passwordPolicyService.forget(manager, user.id);
+        // MfaModule depends on UsersModule, so the codes are deleted here
+        await manager.getRepository(RecoveryCode).delete({ userId: user.id });
+        await this._auditService.anonymizeForUser(manager, user.id, user.email);
+        await this._userEventsService.forget(manager, user.id, erasedEmail);
+        await this._userEventsService.publish(manager, UserEventType.ERASED, {
+          userId: user.id,
+          reason: request.reason,
+        });
+        const erasures = manager.getRepository(ErasureRecord);
+        return await erasures.save(
+          erasures.create({
+            userId: user.id,
+            reason: request.reason,
+            requestedBy: request.requestedBy ?? null,
+            requestedAt: request.requestedAt ?? user.deletedAt ?? now,
+            completedAt: now,
+          })
+        );
+      }
+    );
+    this.logger.log(`Erased user ${userId} (${request.reason})`);
+    return record;
+  }
+
+  /**
+   * Lists completed erasures page by page, most recent first.
+   *
+   * @param {ListErasuresQueryDto} query - The pagination and filter options.
+   *
+   * @returns {Promise<Paginated<ErasureRecord>>} Resolves with the requested page.
+   */
+  async findErasures(
+    query: ListErasuresQueryDto
+  ): Promise<Paginated<ErasureRecord>> {
+    const where: FindOptionsWhere<ErasureRecord> = {};
+    if (query.userId !== undefined) {
+      where.userId = query.userId;
+    }
+    if (query.reason) {
+      where.reason = query.reason;
+    }
+    if (query.from && query.to) {
+      where.completedAt = Between(query.from, query.to);
+    } else if (query.from) {
+      where.completedAt = MoreThanOrEqual(query.from);
+    } else if (query.to) {
+      where.completedAt = LessThanOrEqual(query.to);
+    }
+    const [records, total] = await this._erasuresRepository.findAndCount({
+      where,
+      order: { completedAt: 'DESC', id: 'DESC' },
+      skip: (query.page - 1) * query.limit,
+      take: query.limit,
+    });
+    return { data: records, total, page: query.page, limit: query.limit };
+  }
+}
@@ -0,0 +1,72 @@
+import 'reflect-metadata';
+import { Type } from 'class-transformer';
+import { IsDate, IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { PublicUser } from 'src/users/types/users.type';
+import { UserAttributes } from 'src/user-attributes/types/user-attributes.type';
+import { AuditEntry } from 'src/audit/audit.entity';
+import { UserErasedPayload } from 'src/events/types/user-events.type';
+
+export type ErasureReason = UserErasedPayload['reason'];
+
+export type ErasureRequest = {
+  reason: ErasureReason;
+  // Id of the admin who erases the account
+  requestedBy?: number;
+  // Defaults to the time of the erasure
+  requestedAt?: Date;
+};
+
+export type ExportedSession = {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+};
+
+export type UserDataExport = {
+  exportedAt: Date;
+  profile: PublicUser & { deletedAt: Date | null };
+  // Custom attributes the schema marks as consents
+  consents: UserAttributes;
+  mfa: { enabled: boolean; recoveryCodesRemaining: number };
+  sessions: ExportedSession[];
+  auditEntries: AuditEntry[];
+};
+
+export class ListErasuresQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  public readonly page: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  public readonly limit: number = 50;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  public readonly userId?: number;
+
+  @IsOptional()
+  @IsIn(['admin', 'purged'])
+  public readonly reason?: ErasureReason;
+
+  // Filters by completion time
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  public readonly from?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  public readonly to?: Date;
+}
@@ -0,0 +1,23 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+type RequestContext = {
+  requestId: string;
+};
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Runs `work` with the given request id. Everything it calls, awaited or not, sees the id
+ * through `getRequestId`, so it does not have to be passed through every service.
+ */
+export const runWithRequestId = <T>(requestId: string, work: () => T): T =>
+  storage.run({ requestId }, work);
+
+/**
+ * Returns the id of the request being handled, or `undefined` outside of a request, e.g.
+ * in scheduled jobs.
+ */
+export const getRequestId = (): string | undefined =>
+  storage.getStore()?.requestId;
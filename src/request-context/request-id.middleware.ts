@@ -0,0 +1,25 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { NextFunction, Request, Response } from 'express';
+import { randomUUID } from 'crypto';
+import { REQUEST_ID_HEADER, runWithRequestId } from './request-context';
+
+// Ids are copied into logs and message headers, so anything else is replaced
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+@Injectable()
+export class RequestIdMiddleware implements NestMiddleware {
+  use(request: Request, response: Response, next: NextFunction): void {
+    const requestId = this.getRequestId(request) ?? randomUUID();
+    response.setHeader(REQUEST_ID_HEADER, requestId);
+    runWithRequestId(requestId, next);
+  }
+
+  private getRequestId(request: Request): string | undefined {
+    // X-Correlation-Id is still read for clients written before X-Request-Id
+    const header =
+      request.headers[REQUEST_ID_HEADER] ?? request.headers['x-correlation-id'];
+    return typeof header === 'string' && VALID_REQUEST_ID.test(header)
+      ? header
+      : undefined;
+  }
+}
@@ -0,0 +1,16 @@
+import { Entity, Column, PrimaryColumn, Index } from 'typeorm';
+
+// Denylist entry for an access token revoked before it expired
+@Entity()
+export class RevokedToken {
+  @PrimaryColumn()
+  jti: string;
+
+  // When the token would have expired anyway, the entry can be dropped afterwards
+  @Index()
+  @Column()
+  expiresAt: Date;
+
+  @Column()
+  revokedAt: Date;
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { RevokedToken } from './revoked-tokens.entity';
+import { RevokedTokensService } from './revoked-tokens.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([RevokedToken])],
+  providers: [RevokedTokensService],
+  exports: [RevokedTokensService],
+})
+export class RevokedTokensModule {}
@@ -0,0 +1,60 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThan, MoreThan, Repository } from 'typeorm';
+import { RevokedToken } from './revoked-tokens.entity';
+
+@Injectable()
+export class RevokedTokensService {
+  constructor(
+    @InjectRepository(RevokedToken)
+    private _revokedTokensRepository: Repository<RevokedToken>
+  ) {}
+
+  /**
+   * Adds a token to the denylist until it expires. Entries of tokens that have expired
+   * in the meantime are dropped along the way, so the list stays small.
+   *
+   * @param {string} jti - The id of the token.
+   * @param {Date} expiresAt - When the token expires.
+   *
+   * @returns {Promise<void>} Resolves once the token is denylisted.
+   */
+  async revoke(jti: string, expiresAt: Date): Promise<void> {
+    const now = new Date();
+    await this._revokedTokensRepository
+      .createQueryBuilder()
+      .insert()
+      .into(RevokedToken)
+      .values({ jti, expiresAt, revokedAt: now })
+      .orIgnore()
+      .execute();
+    await this._revokedTokensRepository.delete({ expiresAt: LessThan(now) });
+  }
+
+  /**
+   * Denylists a single-use token, unless another request did so first. The insert is
+   * the check, so of two concurrent requests presenting the same token only one wins.
+   *
+   * @param {string} jti - The id of the token.
+   * @param {Date} expiresAt - When the token expires.
+   *
+   * @returns {Promise<boolean>} Resolves with true if this call used up the token, false if it was already used.
+   */
+  async consume(jti: string, expiresAt: Date): Promise<boolean> {
+    const result = await this._revokedTokensRepository
+      .createQueryBuilder()
+      .insert()
+      .into(RevokedToken)
+      .values({ jti, expiresAt, revokedAt: new Date() })
+      .orIgnore()
+      .returning('jti')
+      .execute();
+    return (result.raw as unknown[]).length > 0;
+  }
+
+  async isRevoked(jti: string): Promise<boolean> {
+    return await this._revokedTokensRepository.exists({
+      where: { jti, expiresAt: MoreThan(new Date()) },
+    });
+  }
+}
@@ -0,0 +1,20 @@
+import { Entity, Column, PrimaryColumn } from 'typeorm';
+
+// A named set of permissions; users can hold several roles
+@Entity('role')
+export class RoleEntity {
+  @PrimaryColumn()
+  name: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  description: string | null;
+
+  @Column('text', { array: true, default: '{}' })
+  permissions: string[];
+
+  @Column()
+  createdAt: Date;
+
+  @Column()
+  updatedAt: Date;
+}
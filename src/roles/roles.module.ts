@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { RoleEntity } from './roles.entity';
+import { RolesService } from './roles.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([RoleEntity])],
+  providers: [RolesService],
+  exports: [RolesService],
+})
+export class RolesModule {}
@@ -0,0 +1,98 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { RolesService } from './roles.service';
+import { RoleEntity } from './roles.entity';
+import { Permission } from './types/roles.type';
+import { Role } from 'src/users/types/users.type';
+
+describe('RolesService', () => {
+  let service: RolesService;
+  let repository: Record<string, jest.Mock>;
+  let usersRepository: { exists: jest.Mock };
+
+  const role = (name: string, permissions: Permission[]): RoleEntity => ({
+    name,
+    description: null,
+    permissions,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  });
+
+  beforeEach(async () => {
+    usersRepository = { exists: jest.fn(() => Promise.resolve(false)) };
+    repository = {
+      find: jest.fn(() =>
+        Promise.resolve([
+          role(Role.USER, [Permission.USERS_READ_SELF]),
+          role('support', [
+            Permission.USERS_READ_SELF,
+            Permission.USERS_READ_ANY,
+          ]),
+        ])
+      ),
+      findOne: jest.fn(({ where }: { where: { name: string } }) =>
+        Promise.resolve(role(where.name, []))
+      ),
+      create: jest.fn((values: Partial<RoleEntity>) => values),
+      save: jest.fn((saved: RoleEntity) => Promise.resolve(saved)),
+      remove: jest.fn(),
+    };
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RolesService,
+        {
+          provide: getRepositoryToken(RoleEntity),
+          useValue: {
+            ...repository,
+            manager: { getRepository: () => usersRepository },
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RolesService>(RolesService);
+  });
+
+  it('should merge the permissions of all roles', async () => {
+    await expect(
+      service.getPermissions([Role.USER, 'support'])
+    ).resolves.toEqual([Permission.USERS_READ_SELF, Permission.USERS_READ_ANY]);
+  });
+
+  it('should report roles that do not exist', async () => {
+    await expect(
+      service.findUnknown([Role.USER, 'support', 'auditor'])
+    ).resolves.toEqual(['auditor']);
+  });
+
+  it('should not let the admin role lose role management', async () => {
+    await expect(
+      service.upsert(Role.ADMIN, { permissions: [Permission.USERS_READ_ANY] })
+    ).rejects.toThrow(BadRequestException);
+    expect(repository.save).not.toHaveBeenCalled();
+  });
+
+  it('should replace the permissions of a role', async () => {
+    await expect(
+      service.upsert('support', { permissions: [Permission.USERS_READ_ANY] })
+    ).resolves.toMatchObject({
+      name: 'support',
+      permissions: [Permission.USERS_READ_ANY],
+    });
+  });
+
+  it('should only delete custom roles nobody holds', async () => {
+    await expect(service.delete(Role.USER)).rejects.toThrow(ForbiddenException);
+
+    usersRepository.exists.mockResolvedValueOnce(true);
+    await expect(service.delete('support')).rejects.toThrow(ConflictException);
+
+    await service.delete('support');
+    expect(repository.remove).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,154 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ArrayContains, In, Repository } from 'typeorm';
+import { RoleEntity } from './roles.entity';
+import {
+  DEFAULT_ROLE_PERMISSIONS,
+  Permission,
+  UpsertRoleDto,
+} from './types/roles.type';
+import { Role } from 'src/users/types/users.type';
+import { User } from 'src/users/users.entity';
+
+@Injectable()
+export class RolesService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(RolesService.name);
+
+  constructor(
+    @InjectRepository(RoleEntity)
+    private _rolesRepository: Repository<RoleEntity>
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    await this.seedDefaults();
+  }
+
+  /**
+   * Creates the built-in roles with their default permissions. Existing roles are left
+   * untouched, so changes made by admins survive restarts.
+   */
+  async seedDefaults(): Promise<void> {
+    const now = new Date();
+    await this._rolesRepository
+      .createQueryBuilder()
+      .insert()
+      .into(RoleEntity)
+      .values(
+        Object.entries(DEFAULT_ROLE_PERMISSIONS).map(([name, permissions]) => ({
+          name,
+          description: null,
+          permissions,
+          createdAt: now,
+          updatedAt: now,
+        }))
+      )
+      .orIgnore()
+      .execute();
+  }
+
+  async findAll(): Promise<RoleEntity[]> {
+    return await this._rolesRepository.find({ order: { name: 'ASC' } });
+  }
+
+  async findOne(name: string): Promise<RoleEntity> {
+    const role = await this._rolesRepository.findOne({ where: { name } });
+    if (!role) {
+      throw new NotFoundException('Role not found');
+    }
+    return role;
+  }
+
+  /**
+   * Creates a role or replaces the permissions of an existing one. Changes apply to the
+   * next request of every user holding the role.
+   *
+   * @param {string} name - The name of the role.
+   * @param {UpsertRoleDto} upsertRoleDto - The description and permissions of the role.
+   *
+   * @returns {Promise<RoleEntity>} Resolves with the saved role.
+   *
+   * @throws {BadRequestException} Throws if the admin role would lose the permission to manage roles.
+   */
+  async upsert(
+    name: string,
+    upsertRoleDto: UpsertRoleDto
+  ): Promise<RoleEntity> {
+    // Keeps admins from locking everyone out of role management
+    if (
+      name === (Role.ADMIN as string) &&
+      !upsertRoleDto.permissions.includes(Permission.ROLES_MANAGE_ANY)
+    ) {
+      throw new BadRequestException(
+        `The ${Role.ADMIN} role must keep the ${Permission.ROLES_MANAGE_ANY} permission`
+      );
+    }
+    const now = new Date();
+    const role =
+      (await this._rolesRepository.findOne({ where: { name } })) ??
+      this._rolesRepository.create({ name, createdAt: now });
+    role.description = upsertRoleDto.description ?? role.description ?? null;
+    role.permissions = upsertRoleDto.permissions;
+    role.updatedAt = now;
+    this.logger.log(`Saving role ${name}`);
+    return await this._rolesRepository.save(role);
+  }
+
+  /**
+   * Deletes a role that no user holds anymore.
+   *
+   * @param {string} name - The name of the role.
+   *
+   * @returns {Promise<void>} Resolves once the role has been deleted.
+   *
+   * @throws {ForbiddenException} Throws if the role is built in.
+   * @throws {NotFoundException} Throws if the role does not exist.
+   * @throws {ConflictException} Throws if users still hold the role.
+   */
+  async delete(name: string): Promise<void> {
+    if (Object.values<string>(Role).includes(name)) {
+      throw new ForbiddenException('Built-in roles cannot be deleted');
+    }
+    const role = await this.findOne(name);
+    const inUse = await this._rolesRepository.manager
+      .getRepository(User)
+      .exists({ where: { roles: ArrayContains([name]) }, withDeleted: true });
+    if (inUse) {
+      throw new ConflictException('Role is still assigned to users');
+    }
+    this.logger.log(`Deleting role ${name}`);
+    await this._rolesRepository.remove(role);
+  }
+
+  /**
+   * Returns the names among the given ones that are not defined roles.
+   */
+  async findUnknown(names: string[]): Promise<string[]> {
+    const roles = await this._rolesRepository.find({
+      where: { name: In(names) },
+      select: { name: true },
+    });
+    const known = new Set(roles.map((role) => role.name));
+    return names.filter((name) => !known.has(name));
+  }
+
+  /**
+   * Resolves the permissions granted by the given roles. Unknown roles grant nothing.
+   */
+  async getPermissions(names: string[]): Promise<string[]> {
+    if (!names.length) {
+      return [];
+    }
+    const roles = await this._rolesRepository.find({
+      where: { name: In(names) },
+    });
+    return [...new Set(roles.flatMap((role) => role.permissions))];
+  }
+}
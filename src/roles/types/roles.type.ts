@@ -0,0 +1,62 @@
+import 'reflect-metadata';
+import { Transform } from 'class-transformer';
+import {
+  ArrayUnique,
+  IsArray,
+  IsEnum,
+  IsOptional,
+  IsString,
+  Length,
+  Matches,
+} from 'class-validator';
+import { Role } from 'src/users/types/users.type';
+
+// Permissions read `<resource>:<action>:<scope>`; `any` implies `self`
+export enum Permission {
+  USERS_READ_SELF = 'users:read:self',
+  USERS_READ_ANY = 'users:read:any',
+  USERS_UPDATE_SELF = 'users:update:self',
+  USERS_UPDATE_ANY = 'users:update:any',
+  USERS_DELETE_SELF = 'users:delete:self',
+  USERS_DELETE_ANY = 'users:delete:any',
+  USERS_MANAGE_ANY = 'users:manage:any',
+  ROLES_MANAGE_ANY = 'roles:manage:any',
+  OUTBOX_MANAGE_ANY = 'outbox:manage:any',
+  API_KEYS_MANAGE_ANY = 'api-keys:manage:any',
+  AUDIT_READ_ANY = 'audit:read:any',
+  SIGNING_KEYS_MANAGE_ANY = 'signing-keys:manage:any',
+  TOKENS_INTROSPECT_ANY = 'tokens:introspect:any',
+  TOKENS_REVOKE_ANY = 'tokens:revoke:any',
+}
+
+// Seeded on startup when missing; admins can change them afterwards
+export const DEFAULT_ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  [Role.USER]: [
+    Permission.USERS_READ_SELF,
+    Permission.USERS_UPDATE_SELF,
+    Permission.USERS_DELETE_SELF,
+  ],
+  [Role.ADMIN]: Object.values(Permission),
+};
+
+export class UpsertRoleDto {
+  @IsOptional()
+  @IsString()
+  @Length(0, 255)
+  public readonly description?: string;
+
+  @IsArray()
+  @ArrayUnique()
+  @IsEnum(Permission, { each: true })
+  public readonly permissions: Permission[];
+}
+
+export class RoleNameDto {
+  @IsString()
+  @Matches(/^[a-z][a-z0-9-]{1,49}$/, {
+    message:
+      'Role names must be 2 to 50 lowercase letters, digits or dashes, starting with a letter',
+  })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  public readonly name: string;
+}
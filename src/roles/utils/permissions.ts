@@ -0,0 +1,8 @@
+/**
+ * Checks a required permission against the granted ones. A `:self` permission is also
+ * satisfied by the matching `:any` permission.
+ */
+export const hasPermission = (granted: string[], required: string): boolean =>
+  granted.includes(required) ||
+  (required.endsWith(':self') &&
+    granted.includes(`${required.slice(0, -':self'.length)}:any`));
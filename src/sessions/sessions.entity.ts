@@ -0,0 +1,33 @@
+import { Entity, Column, PrimaryColumn, Index } from 'typeorm';
+
+@Entity()
+export class Session {
+  @PrimaryColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column()
+  userId: number;
+
+  // jti of the only refresh token of this family that may still be used
+  @Column()
+  currentTokenId: string;
+
+  @Column()
+  expiresAt: Date;
+
+  @Column({ type: 'varchar', nullable: true })
+  userAgent: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  ipAddress: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  @Column()
+  createdAt: Date;
+
+  @Column()
+  lastUsedAt: Date;
+}
@@ -0,0 +1,149 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { FindOperator } from 'typeorm';
+import { SessionsService } from './sessions.service';
+import { Session } from './sessions.entity';
+
+// Evaluates the IsNull() and LessThan() conditions the service passes to `update`
+const matches = (session: Session, where: Record<string, unknown>) =>
+  Object.entries(where).every(([key, condition]) => {
+    const value = session[key as keyof Session];
+    if (!(condition instanceof FindOperator)) {
+      return value === condition;
+    }
+    if (condition.type === 'isNull') {
+      return value === null;
+    }
+    if (condition.type === 'lessThan') {
+      return value !== null && value < (condition.value as Date);
+    }
+    throw new Error(`Unsupported operator ${condition.type}`);
+  });
+
+describe('SessionsService', () => {
+  let service: SessionsService;
+  let stored: Session;
+  let repository: Record<string, jest.Mock>;
+
+  const minutesAgo = (minutes: number) =>
+    new Date(Date.now() - minutes * 60_000);
+
+  beforeEach(async () => {
+    stored = {
+      id: 'session-1',
+      userId: 1,
+      currentTokenId: 'token-1',
+      expiresAt: new Date(Date.now() + 86_400_000),
+      userAgent: null,
+      ipAddress: null,
+      revokedAt: null,
+      createdAt: minutesAgo(10),
+      lastUsedAt: minutesAgo(10),
+    };
+    repository = {
+      update: jest.fn(
+        (where: Record<string, unknown>, values: Partial<Session>) => {
+          if (!matches(stored, where)) {
+            return Promise.resolve({ affected: 0 });
+          }
+          stored = { ...stored, ...values };
+          return Promise.resolve({ affected: 1 });
+        }
+      ),
+    };
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionsService,
+        { provide: getRepositoryToken(Session), useValue: repository },
+      ],
+    }).compile();
+
+    service = module.get<SessionsService>(SessionsService);
+  });
+
+  describe('touch', () => {
+    it('should not write when the session was used within the last minute', async () => {
+      const lastUsedAt = new Date(Date.now() - 30_000);
+      stored.lastUsedAt = lastUsedAt;
+
+      await service.touch({ ...stored });
+
+      expect(repository.update).not.toHaveBeenCalled();
+      expect(stored.lastUsedAt).toBe(lastUsedAt);
+    });
+
+    it('should record the use when the last one is older than a minute', async () => {
+      const lastUsedAt = minutesAgo(2);
+      stored.lastUsedAt = lastUsedAt;
+
+      await service.touch({ ...stored });
+
+      expect(repository.update).toHaveBeenCalledTimes(1);
+      expect(stored.lastUsedAt.getTime()).toBeGreaterThan(lastUsedAt.getTime());
+    });
+
+    it('should write once when concurrent requests touch a stale session', async () => {
+      const session = { ...stored };
+
+      await service.touch(session);
+      await service.touch(session);
+
+      await expect(repository.update.mock.results[1].value).resolves.toEqual({
+        affected: 0,
+      });
+    });
+  });
+
+  describe('rotate', () => {
+    const expiresAt = new Date(Date.now() + 2 * 86_400_000);
+
+    it('should swap the current refresh token for the next one', async () => {
+      await expect(
+        service.rotate('session-1', 'token-1', 'token-2', expiresAt)
+      ).resolves.toBe(true);
+
+      expect(stored).toMatchObject({
+        currentTokenId: 'token-2',
+        expiresAt,
+        revokedAt: null,
+      });
+    });
+
+    it('should revoke the family when an already-rotated token is reused', async () => {
+      await service.rotate('session-1', 'token-1', 'token-2', expiresAt);
+
+      await expect(
+        service.rotate('session-1', 'token-1', 'token-3', expiresAt)
+      ).resolves.toBe(false);
+
+      expect(stored.revokedAt).toBeInstanceOf(Date);
+      expect(stored.currentTokenId).toBe('token-2');
+      // The legitimate holder of the rotated token is signed out as well
+      await expect(
+        service.rotate('session-1', 'token-2', 'token-3', expiresAt)
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('revokeForUser', () => {
+    it('should revoke an active session of the user', async () => {
+      await expect(service.revokeForUser('session-1', 1)).resolves.toBe(true);
+
+      expect(stored.revokedAt).toBeInstanceOf(Date);
+    });
+
+    it('should not revoke a session of another user', async () => {
+      await expect(service.revokeForUser('session-1', 2)).resolves.toBe(false);
+
+      expect(stored.revokedAt).toBeNull();
+    });
+
+    it('should report an already revoked session as not revoked', async () => {
+      await service.revokeForUser('session-1', 1);
+      const { revokedAt } = stored;
+
+      await expect(service.revokeForUser('session-1', 1)).resolves.toBe(false);
+      expect(stored.revokedAt).toBe(revokedAt);
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  EntityManager,
+  IsNull,
+  LessThan,
+  MoreThan,
+  Not,
+  Repository,
+} from 'typeorm';
+import { Session } from './sessions.entity';
+import { SessionClient, SessionView } from './types/sessions.type';
+
+// Requests with an access token update `lastUsedAt` at most this often per session
+const TOUCH_INTERVAL_MS = 60_000;
+
+@Injectable()
+export class SessionsService {
+  constructor(
+    @InjectRepository(Session)
+    private _sessionsRepository: Repository<Session>
+  ) {}
+
+  /**
+   * Persists a new session (refresh token family) for the given user.
+   *
+   * @param {string} id - The session id, already embedded in the issued tokens.
+   * @param {number} userId - The id of the user who signed in.
+   * @param {string} tokenId - The jti of the first refresh token of the family.
+   * @param {Date} expiresAt - When the first refresh token expires.
+   * @param {SessionClient} client - The user agent and IP address the user signed in from.
+   *
+   * @returns {Promise<Session>} Resolves with the stored session.
+   */
+  async create(
+    id: string,
+    userId: number,
+    tokenId: string,
+    expiresAt: Date,
+    client: SessionClient = {}
+  ): Promise<Session> {
+    const now = new Date();
+    const session = this._sessionsRepository.create({
+      id,
+      userId,
+      currentTokenId: tokenId,
+      expiresAt,
+      userAgent: client.userAgent ?? null,
+      ipAddress: client.ipAddress ?? null,
+      revokedAt: null,
+      createdAt: now,
+      lastUsedAt: now,
+    });
+    return await this._sessionsRepository.save(session);
+  }
+
+  async findById(id: string): Promise<Session | undefined> {
+    const session = await this._sessionsRepository.findOne({ where: { id } });
+    return session ?? undefined;
+  }
+
+  /**
+   * Lists the sessions of a user that are neither revoked nor expired, most recently used first.
+   *
+   * @param {number} userId - The id of the user.
+   * @param {string} currentSessionId - The session of the caller, flagged as `current` in the result.
+   *
+   * @returns {Promise<SessionView[]>} Resolves with the sessions, without any token material.
+   */
+  async findActiveByUser(
+    userId: number,
+    currentSessionId?: string
+  ): Promise<SessionView[]> {
+    const sessions = await this._sessionsRepository.find({
+      where: { userId, revokedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+      order: { lastUsedAt: 'DESC' },
+    });
+    return sessions.map((session) => ({
+      id: session.id,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * Lists every session of a user, including revoked and expired ones, newest first.
+   */
+  async findAllByUser(userId: number): Promise<Session[]> {
+    return await this._sessionsRepository.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  isActive(session: Session): boolean {
+    return !session.revokedAt && session.expiresAt > new Date();
+  }
+
+  /**
+   * Swaps the current refresh token of a session for the next one. The swap only
+   * succeeds when the presented token is still the current one; presenting an
+   * already-rotated token is treated as theft and revokes the whole family.
+   *
+   * @param {string} id - The id of the session being refreshed.
+   * @param {string} presentedTokenId - The jti of the refresh token sent by the client.
+   * @param {string} nextTokenId - The jti of the refresh token about to be issued.
+   * @param {Date} expiresAt - When the next refresh token expires.
+   *
+   * @returns {Promise<boolean>} Resolves with true if rotated, false if the token was reused.
+   */
+  async rotate(
+    id: string,
+    presentedTokenId: string,
+    nextTokenId: string,
+    expiresAt: Date
+  ): Promise<boolean> {
+    const result = await this._sessionsRepository.update(
+      { id, currentTokenId: presentedTokenId, revokedAt: IsNull() },
+      { currentTokenId: nextTokenId, expiresAt, lastUsedAt: new Date() }
+    );
+    if (!result.affected) {
+      await this.revoke(id);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Records that a session was used by a request. Skipped while the last recorded use is
+   * recent, so authenticated requests do not each write to the session.
+   *
+   * @param {Session} session - The session of the access token being used.
+   *
+   * @returns {Promise<void>} Resolves once the use has been recorded.
+   */
+  async touch(session: Session): Promise<void> {
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - TOUCH_INTERVAL_MS);
+    if (session.lastUsedAt > staleBefore) {
+      return;
+    }
+    // Conditional, so concurrent requests on a stale session write only once
+    await this._sessionsRepository.update(
+      { id: session.id, lastUsedAt: LessThan(staleBefore) },
+      { lastUsedAt: now }
+    );
+  }
+
+  async revoke(id: string): Promise<void> {
+    await this._sessionsRepository.update(
+      { id, revokedAt: IsNull() },
+      { revokedAt: new Date() }
+    );
+  }
+
+  /**
+   * Revokes a session only if it belongs to the given user.
+   *
+   * @param {string} id - The id of the session to revoke.
+   * @param {number} userId - The id of the user who must own the session.
+   *
+   * @returns {Promise<boolean>} Resolves with true if an active session was revoked.
+   */
+  async revokeForUser(id: string, userId: number): Promise<boolean> {
+    const result = await this._sessionsRepository.update(
+      { id, userId, revokedAt: IsNull() },
+      { revokedAt: new Date() }
+    );
+    return !!result.affected;
+  }
+
+  /**
+   * Revokes every session of a user, optionally except the one the change was made from.
+   *
+   * @param {number} userId - The id of the user.
+   * @param {string} exceptSessionId - The id of a session to keep.
+   *
+   * @returns {Promise<void>} Resolves once the sessions have been revoked.
+   */
+  async revokeAllForUser(
+    userId: number,
+    exceptSessionId?: string
+  ): Promise<void> {
+    await this._sessionsRepository.update(
+      {
+        userId,
+        revokedAt: IsNull(),
+        ...(exceptSessionId && { id: Not(exceptSessionId) }),
+      },
+      { revokedAt: new Date() }
+    );
+  }
+
+  async forget(manager: EntityManager, userId: number): Promise<void> {
+    await manager.getRepository(Session).delete({ userId });
+  }
+}
@@ -0,0 +1,15 @@
+export type SessionClient = {
+  userAgent?: string;
+  ipAddress?: string;
+  // Ties audit entries of one request together; not stored on sessions
+  correlationId?: string;
+};
+
+export type SessionView = {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  current: boolean;
+};
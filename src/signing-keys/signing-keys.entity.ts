@@ -0,0 +1,34 @@
+import { Entity, Column, PrimaryColumn } from 'typeorm';
+import { SigningAlgorithm } from './types/signing-keys.type';
+
+// A key pair for access tokens, identified by the `kid` header of the tokens it signs
+@Entity()
+export class SigningKey {
+  @PrimaryColumn()
+  kid: string;
+
+  @Column({ type: 'enum', enum: SigningAlgorithm })
+  algorithm: SigningAlgorithm;
+
+  // PEM encoded, never returned by default
+  @Column({ type: 'text', select: false })
+  privateKey: string;
+
+  // PEM encoded, published in the JWKS
+  @Column({ type: 'text' })
+  publicKey: string;
+
+  // Published before this point so verifiers already know the key when it starts signing
+  @Column()
+  activatesAt: Date;
+
+  // Set when a newer key takes over; tokens signed before stay verifiable for a while
+  @Column({ type: 'timestamp', nullable: true })
+  retiresAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  @Column()
+  createdAt: Date;
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { SigningKey } from './signing-keys.entity';
+import { SigningKeysService } from './signing-keys.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([SigningKey])],
+  providers: [SigningKeysService],
+  exports: [SigningKeysService],
+})
+export class SigningKeysModule {}
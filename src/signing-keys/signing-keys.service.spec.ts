@@ -0,0 +1,151 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { SigningKeysService } from './signing-keys.service';
+import { SigningKey } from './signing-keys.entity';
+import { SigningAlgorithm } from './types/signing-keys.type';
+
+describe('SigningKeysService', () => {
+  let service: SigningKeysService;
+  let keys: SigningKey[];
+  let now: number;
+  const jwtService = new JwtService();
+
+  const config: Record<string, string | number> = {
+    JWT_ALGORITHM: SigningAlgorithm.ES256,
+    JWT_KEY_ACTIVATION_DELAY_SECONDS: 300,
+    JWT_KEY_RETENTION_SECONDS: 3600,
+  };
+
+  const later = (seconds: number) => {
+    now += seconds * 1000;
+    jest.setSystemTime(now);
+  };
+
+  const tokenOf = async () => {
+    const key = await service.getSigningKey();
+    return jwtService.sign(
+      { sub: 1 },
+      { privateKey: key.privateKey, algorithm: key.algorithm, keyid: key.kid }
+    );
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    now = Date.now();
+    keys = [];
+    const repository = {
+      create: jest.fn((key: SigningKey) => key),
+      save: jest.fn((key: SigningKey) => {
+        keys.push(key);
+        return Promise.resolve(key);
+      }),
+      find: jest.fn(() =>
+        Promise.resolve(
+          keys
+            .filter((key) => !key.revokedAt)
+            .sort((a, b) => b.activatesAt.getTime() - a.activatesAt.getTime())
+        )
+      ),
+      findOne: jest.fn(({ where }: { where: { kid: string } }) =>
+        Promise.resolve(keys.find((key) => key.kid === where.kid))
+      ),
+      update: jest.fn((kid: string, changes: Partial<SigningKey>) => {
+        Object.assign(
+          keys.find((key) => key.kid === kid)!,
+          changes
+        );
+        return Promise.resolve();
+      }),
+    };
+    // Retires every key still in use, like the criteria of the real update
+    const retire = (criteria: unknown, changes: Partial<SigningKey>) => {
+      keys
+        .filter((key) => !key.retiresAt && !key.revokedAt)
+        .forEach((key) => Object.assign(key, changes));
+      return Promise.resolve();
+    };
+    const manager = {
+      transaction: jest.fn((work: (manager: unknown) => unknown) =>
+        work({ getRepository: () => ({ ...repository, update: retire }) })
+      ),
+    };
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SigningKeysService,
+        {
+          provide: getRepositoryToken(SigningKey),
+          useValue: { ...repository, manager },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SigningKeysService>(SigningKeysService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should create a key on first use and verify its tokens', async () => {
+    const token = await tokenOf();
+    const key = await service.getVerificationKey(token);
+
+    expect(keys).toHaveLength(1);
+    expect(key?.kid).toBe(keys[0].kid);
+    expect(
+      jwtService.verify<{ sub: number }>(token, {
+        publicKey: key!.publicKey,
+        algorithms: [key!.algorithm],
+      })
+    ).toMatchObject({ sub: 1 });
+  });
+
+  it('should publish a rotated key before it starts signing', async () => {
+    const { kid: previous } = await service.getSigningKey();
+    const { kid: next } = await service.rotate();
+
+    const { keys: published } = await service.getJwks();
+    expect(published.map((key) => key.kid).sort()).toEqual(
+      [previous, next].sort()
+    );
+    expect(published[0]).toMatchObject({ kty: 'EC', alg: 'ES256', use: 'sig' });
+    expect(published[0]).not.toHaveProperty('d');
+    await expect(service.getSigningKey()).resolves.toMatchObject({
+      kid: previous,
+    });
+
+    later(300);
+    await expect(service.getSigningKey()).resolves.toMatchObject({ kid: next });
+  });
+
+  it('should keep verifying retired keys until the retention ends', async () => {
+    const token = await tokenOf();
+    await service.rotate();
+
+    later(300 + 3599);
+    await expect(service.getVerificationKey(token)).resolves.toBeDefined();
+
+    later(2);
+    await expect(service.getVerificationKey(token)).resolves.toBeUndefined();
+    expect((await service.getJwks()).keys).toHaveLength(1);
+  });
+
+  it('should only revoke keys that no longer sign', async () => {
+    const { kid } = await service.getSigningKey();
+    await expect(service.revoke(kid)).rejects.toThrow(BadRequestException);
+
+    const token = await tokenOf();
+    await service.rotate();
+    later(300);
+    await service.revoke(kid);
+
+    await expect(service.getVerificationKey(token)).resolves.toBeUndefined();
+  });
+});
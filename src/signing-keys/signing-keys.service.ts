@@ -0,0 +1,253 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { createPublicKey, generateKeyPair, randomBytes } from 'crypto';
+import { promisify } from 'util';
+import { SigningKey } from './signing-keys.entity';
+import {
+  JsonWebKeySet,
+  SigningAlgorithm,
+  SigningKeyMaterial,
+  VerificationKey,
+} from './types/signing-keys.type';
+
+const generateKeyPairAsync = promisify(generateKeyPair);
+
+// How long an instance signs and verifies with its cached keys before reloading them
+const KEY_CACHE_TTL_MS = 60_000;
+// Unknown kids trigger a reload, at most this often so garbage tokens cannot flood the database
+const MIN_RELOAD_INTERVAL_MS = 1_000;
+
+@Injectable()
+export class SigningKeysService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(SigningKeysService.name);
+  private keys: SigningKey[] = [];
+  private loadedAt = 0;
+
+  constructor(
+    @InjectRepository(SigningKey)
+    private _signingKeysRepository: Repository<SigningKey>,
+    private _configService: ConfigService
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    await this.getSigningKey();
+  }
+
+  /**
+   * Returns the key new access tokens are signed with. The first key is created on
+   * demand, so a fresh database needs no setup.
+   *
+   * @returns {Promise<SigningKeyMaterial>} Resolves with the kid, algorithm and private key.
+   */
+  async getSigningKey(): Promise<SigningKeyMaterial> {
+    const now = new Date();
+    let key = (await this.loadKeys()).find((key) => this.isSigning(key, now));
+    if (!key) {
+      // Instances starting together may each create one, the newest wins on reload
+      key = await this._signingKeysRepository.save(
+        await this.generate(now, now)
+      );
+      this.logger.log(`Created signing key ${key.kid}`);
+      this.loadedAt = 0;
+    }
+    return {
+      kid: key.kid,
+      algorithm: key.algorithm,
+      privateKey: key.privateKey,
+    };
+  }
+
+  /**
+   * Looks up the key a token claims to be signed with, by the `kid` in its header.
+   *
+   * @param {string} token - The encoded JWT.
+   *
+   * @returns {Promise<VerificationKey | undefined>} Resolves with the public key, or `undefined` if the kid is unknown, revoked or past retention.
+   */
+  async getVerificationKey(
+    token: string
+  ): Promise<VerificationKey | undefined> {
+    const kid = this.readKid(token);
+    if (!kid) {
+      return undefined;
+    }
+    const now = new Date();
+    const find = (keys: SigningKey[]) =>
+      keys.find((key) => key.kid === kid && this.isVerifiable(key, now));
+    // A key created by another instance may not be cached here yet
+    const key = find(await this.loadKeys()) ?? find(await this.loadKeys(true));
+    return key
+      ? { kid: key.kid, algorithm: key.algorithm, publicKey: key.publicKey }
+      : undefined;
+  }
+
+  /**
+   * Lists the public keys tokens can currently be verified with, including keys about
+   * to start signing and retired keys whose tokens may not have expired yet.
+   */
+  async getJwks(): Promise<JsonWebKeySet> {
+    const now = new Date();
+    const keys = (await this.loadKeys()).filter((key) =>
+      this.isVerifiable(key, now)
+    );
+    return {
+      keys: keys.map((key) => ({
+        ...createPublicKey(key.publicKey).export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.algorithm,
+        use: 'sig',
+      })),
+    };
+  }
+
+  async findAll(): Promise<SigningKey[]> {
+    return await this._signingKeysRepository.find({
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Creates a key with the configured algorithm. It is published right away and takes
+   * over signing after `JWT_KEY_ACTIVATION_DELAY_SECONDS`, when the keys in use retire.
+   *
+   * @returns {Promise<Omit<SigningKey, 'privateKey'>>} Resolves with the new key.
+   */
+  async rotate(): Promise<Omit<SigningKey, 'privateKey'>> {
+    const now = new Date();
+    const activatesAt = new Date(
+      now.getTime() +
+        (this._configService.get<number>('JWT_KEY_ACTIVATION_DELAY_SECONDS') ??
+          300) *
+          1000
+    );
+    const key = await this.generate(activatesAt, now);
+    await this._signingKeysRepository.manager.transaction(async (manager) => {
+      await manager
+        .getRepository(SigningKey)
+        .update(
+          { retiresAt: IsNull(), revokedAt: IsNull() },
+          { retiresAt: activatesAt }
+        );
+      await manager.getRepository(SigningKey).save(key);
+    });
+    this.loadedAt = 0;
+    this.logger.log(
+      `Created signing key ${key.kid}, signing from ${activatesAt.toISOString()}`
+    );
+    return this.withoutPrivateKey(key);
+  }
+
+  /**
+   * Revokes a retired key, tokens signed with it are rejected from then on. Meant for
+   * keys that may have leaked; retired keys otherwise drop out after the retention.
+   *
+   * @throws {NotFoundException} Throws if the key does not exist or is already revoked.
+   * @throws {BadRequestException} Throws if the key still signs or is about to.
+   */
+  async revoke(kid: string): Promise<void> {
+    const key = await this._signingKeysRepository.findOne({ where: { kid } });
+    if (!key || key.revokedAt) {
+      throw new NotFoundException('Signing key not found');
+    }
+    if (!key.retiresAt || key.retiresAt > new Date()) {
+      throw new BadRequestException(
+        'Only retired keys can be revoked, rotate first'
+      );
+    }
+    await this._signingKeysRepository.update(kid, { revokedAt: new Date() });
+    this.loadedAt = 0;
+    this.logger.log(`Revoked signing key ${kid}`);
+  }
+
+  private async loadKeys(force = false): Promise<SigningKey[]> {
+    const age = Date.now() - this.loadedAt;
+    if (age < (force ? MIN_RELOAD_INTERVAL_MS : KEY_CACHE_TTL_MS)) {
+      return this.keys;
+    }
+    this.keys = await this._signingKeysRepository.find({
+      where: { revokedAt: IsNull() },
+      select: {
+        kid: true,
+        algorithm: true,
+        privateKey: true,
+        publicKey: true,
+        activatesAt: true,
+        retiresAt: true,
+        revokedAt: true,
+        createdAt: true,
+      },
+      order: { activatesAt: 'DESC' },
+    });
+    this.loadedAt = Date.now();
+    return this.keys;
+  }
+
+  private isSigning(key: SigningKey, now: Date): boolean {
+    return key.activatesAt <= now && (!key.retiresAt || key.retiresAt > now);
+  }
+
+  private isVerifiable(key: SigningKey, now: Date): boolean {
+    const retention =
+      (this._configService.get<number>('JWT_KEY_RETENTION_SECONDS') ?? 86400) *
+      1000;
+    return (
+      !key.retiresAt || key.retiresAt.getTime() + retention > now.getTime()
+    );
+  }
+
+  private readKid(token: string): string | undefined {
+    try {
+      const header = JSON.parse(
+        Buffer.from(token.split('.')[0], 'base64url').toString()
+      ) as { kid?: unknown };
+      return typeof header.kid === 'string' ? header.kid : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async generate(activatesAt: Date, now: Date): Promise<SigningKey> {
+    const algorithm =
+      this._configService.get<SigningAlgorithm>('JWT_ALGORITHM') ??
+      SigningAlgorithm.RS256;
+    const { publicKey, privateKey } =
+      algorithm === SigningAlgorithm.ES256
+        ? await generateKeyPairAsync('ec', {
+            namedCurve: 'P-256',
+            publicKeyEncoding: { type: 'spki', format: 'pem' },
+            privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+          })
+        : await generateKeyPairAsync('rsa', {
+            modulusLength: 2048,
+            publicKeyEncoding: { type: 'spki', format: 'pem' },
+            privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+          });
+    return this._signingKeysRepository.create({
+      kid: randomBytes(12).toString('base64url'),
+      algorithm,
+      privateKey,
+      publicKey,
+      activatesAt,
+      retiresAt: null,
+      revokedAt: null,
+      createdAt: now,
+    });
+  }
+
+  private withoutPrivateKey(key: SigningKey): Omit<SigningKey, 'privateKey'> {
+    // Exclude the private key from returned object
+    const keyWithoutPrivateKey: Omit<SigningKey, 'privateKey'> & {
+      privateKey?: string;
+    } = { ...key };
+    delete keyWithoutPrivateKey.privateKey;
+    return keyWithoutPrivateKey;
+  }
+}
@@ -0,0 +1,28 @@
+import { JsonWebKey } from 'crypto';
+
+export enum SigningAlgorithm {
+  RS256 = 'RS256',
+  ES256 = 'ES256',
+}
+
+export type SigningKeyMaterial = {
+  kid: string;
+  algorithm: SigningAlgorithm;
+  privateKey: string;
+};
+
+export type VerificationKey = {
+  kid: string;
+  algorithm: SigningAlgorithm;
+  publicKey: string;
+};
+
+export type PublicJsonWebKey = JsonWebKey & {
+  kid: string;
+  alg: SigningAlgorithm;
+  use: 'sig';
+};
+
+export type JsonWebKeySet = {
+  keys: PublicJsonWebKey[];
+};
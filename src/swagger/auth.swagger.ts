@@ -4,7 +4,7 @@ export class SignInSwagger {
   @ApiProperty({ default: 'kavishka@gmail.com' })
   email: string;
 
-  @ApiProperty({ default: 'kavishka@123' })
+  @ApiProperty({ default: 'tidal-Lantern-42' })
   password: string;
 }
 
@@ -12,15 +12,70 @@ export class SignUpSwagger {
   @ApiProperty({ default: 'kavishka@gmail.com' })
   email: string;
 
-  @ApiProperty({ default: 'kavishka@123' })
+  @ApiProperty({ default: 'tidal-Lantern-42' })
   password: string;
 }
 
-export class RefreshTokenDto {
+export class VerifyEmailSwagger {
+  @ApiProperty({ default: '<verification_token>' })
+  token: string;
+}
+
+export class ResendVerificationSwagger {
   @ApiProperty({ default: 'kavishka@gmail.com' })
   email: string;
 }
 
+export class ForgotPasswordSwagger {
+  @ApiProperty({ default: 'kavishka@gmail.com' })
+  email: string;
+}
+
+export class ResetPasswordSwagger {
+  @ApiProperty({ default: '<reset_token>' })
+  token: string;
+
+  @ApiProperty({ default: 'amber-Harbor-57' })
+  password: string;
+}
+
+export class ChangePasswordSwagger {
+  @ApiProperty({ default: 'tidal-Lantern-42' })
+  currentPassword: string;
+
+  @ApiProperty({ default: 'amber-Harbor-57' })
+  newPassword: string;
+}
+
+export class ChangeEmailSwagger {
+  @ApiProperty({ default: 'kavishka.new@gmail.com' })
+  email: string;
+
+  @ApiProperty({ default: 'tidal-Lantern-42' })
+  currentPassword: string;
+}
+
+export class ConfirmEmailChangeSwagger {
+  @ApiProperty({ default: '<confirmation_token>' })
+  token: string;
+}
+
+export class ConfirmTotpSwagger {
+  @ApiProperty({ default: '123456' })
+  code: string;
+}
+
+export class VerifyMfaSwagger {
+  @ApiProperty({ default: '<mfa_token>' })
+  mfa_token: string;
+
+  @ApiProperty({
+    default: '123456',
+    description: 'A code from the authenticator app or a recovery code',
+  })
+  code: string;
+}
+
 export class UserResponseDto {
   @ApiProperty({
     type: 'object',
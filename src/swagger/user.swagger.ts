@@ -1,6 +1,62 @@
-// import { ApiProperty, ApiBody } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Role } from 'src/users/types/users.type';
 
 // export class UserProfileSwagger {
 //   @ApiProperty({ example: 1 })
 //   id: number;
 // }
+
+export class UpdateUserSwagger {
+  @ApiPropertyOptional({ default: 'Kavishka' })
+  displayName?: string | null;
+
+  @ApiPropertyOptional({ default: 'Kavishka' })
+  givenName?: string | null;
+
+  @ApiPropertyOptional({ default: 'Perera' })
+  familyName?: string | null;
+
+  @ApiPropertyOptional({
+    default: 'https://example.com/avatars/kavishka.png',
+  })
+  avatarUrl?: string | null;
+
+  @ApiPropertyOptional({ default: 'en-GB' })
+  locale?: string | null;
+
+  @ApiPropertyOptional({ default: 'Asia/Colombo' })
+  timeZone?: string | null;
+
+  @ApiPropertyOptional({
+    type: 'object',
+    additionalProperties: true,
+    default: { plan: 'pro' },
+    description:
+      'Merged into the stored attributes, null removes one. Must match the attribute schema.',
+  })
+  customAttributes?: object;
+
+  @ApiPropertyOptional({
+    default: 'kavishka@gmail.com',
+    description:
+      'Needs users:update:any, users change their own at POST /users/me/email',
+  })
+  email?: string;
+
+  @ApiPropertyOptional({
+    default: 'tidal-Lantern-42',
+    description:
+      'Needs users:update:any, users change their own at POST /users/me/password',
+  })
+  password?: string;
+}
+
+export class UpdateRolesSwagger {
+  @ApiProperty({ type: [String], default: [Role.USER, Role.ADMIN] })
+  roles: string[];
+}
+
+export class UpdateStatusSwagger {
+  @ApiProperty({ default: false })
+  isActive: boolean;
+}
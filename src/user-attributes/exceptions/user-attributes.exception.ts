@@ -0,0 +1,12 @@
+import { BadRequestException, HttpStatus } from '@nestjs/common';
+import { AttributeViolation } from '../types/user-attributes.type';
+
+export class UserAttributesException extends BadRequestException {
+  constructor(public readonly violations: AttributeViolation[]) {
+    super({
+      statusCode: HttpStatus.BAD_REQUEST,
+      message: 'Custom attributes do not match the attribute schema.',
+      violations,
+    });
+  }
+}
@@ -0,0 +1,8 @@
+// Values are whatever the deployment's JSON Schema allows
+export type UserAttributes = Record<string, unknown>;
+
+export type AttributeViolation = {
+  // JSON Pointer to the offending value, empty for the attributes object itself
+  path: string;
+  message: string;
+};
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { UserAttributesService } from './user-attributes.service';
+
+@Module({
+  providers: [UserAttributesService],
+  exports: [UserAttributesService],
+})
+export class UserAttributesModule {}
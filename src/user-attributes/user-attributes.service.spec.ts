@@ -0,0 +1,110 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { UserAttributesService } from './user-attributes.service';
+import { UserAttributesException } from './exceptions/user-attributes.exception';
+
+describe('UserAttributesService', () => {
+  let service: UserAttributesService;
+  let directory: string;
+  let config: Record<string, unknown>;
+
+  const schema = {
+    type: 'object',
+    properties: {
+      plan: { type: 'string', enum: ['free', 'pro'] },
+      employeeId: { type: 'string', pattern: '^E\\d{4}$' },
+      newsletter: { type: 'boolean', 'x-consent': true },
+    },
+    additionalProperties: false,
+  };
+
+  const init = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UserAttributesService,
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<UserAttributesService>(UserAttributesService);
+    service.onModuleInit();
+  };
+
+  beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), 'user-attributes-'));
+    writeFileSync(join(directory, 'schema.json'), JSON.stringify(schema));
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    config = { USER_ATTRIBUTES_SCHEMA_PATH: join(directory, 'schema.json') };
+    await init();
+  });
+
+  it('should merge changes and remove attributes set to null', () => {
+    expect(
+      service.merge(
+        { plan: 'free', newsletter: true },
+        { plan: 'pro', newsletter: null }
+      )
+    ).toEqual({ plan: 'pro' });
+  });
+
+  it('should report every violation of the schema', () => {
+    let error: unknown;
+    try {
+      service.merge({}, { plan: 'gold', employeeId: '42', team: 'core' });
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(UserAttributesException);
+    expect((error as UserAttributesException).violations).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ path: '/plan' }),
+        expect.objectContaining({ path: '/employeeId' }),
+        expect.objectContaining({ path: '' }),
+      ])
+    );
+  });
+
+  it('should drop stored attributes the schema no longer allows', () => {
+    const stored = { plan: 'legacy', employeeId: 'E1234', team: 'core' };
+
+    expect(service.toReadable(stored)).toEqual({ employeeId: 'E1234' });
+    expect(stored).toHaveProperty('team');
+  });
+
+  it('should pick the attributes marked as consents', () => {
+    expect(service.pickConsents({ plan: 'pro', newsletter: false })).toEqual({
+      newsletter: false,
+    });
+  });
+
+  it('should only search by declared attributes', () => {
+    expect(() => service.assertSearchable({ plan: 'pro' })).not.toThrow();
+    expect(() => service.assertSearchable({ team: 'core' })).toThrow(
+      BadRequestException
+    );
+  });
+
+  it('should accept no attributes without a schema', async () => {
+    config = {};
+    await init();
+
+    expect(service.toReadable(null)).toEqual({});
+    expect(() => service.merge({}, { plan: 'pro' })).toThrow(
+      UserAttributesException
+    );
+  });
+});
@@ -0,0 +1,160 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFileSync } from 'fs';
+import Ajv, { ErrorObject, SchemaObject, ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import {
+  AttributeViolation,
+  UserAttributes,
+} from './types/user-attributes.type';
+import { UserAttributesException } from './exceptions/user-attributes.exception';
+
+// Without a configured schema no custom attributes are accepted
+const EMPTY_SCHEMA: SchemaObject = {
+  type: 'object',
+  properties: {},
+  additionalProperties: false,
+};
+
+@Injectable()
+export class UserAttributesService implements OnModuleInit {
+  private readonly logger = new Logger(UserAttributesService.name);
+  private schema: SchemaObject = EMPTY_SCHEMA;
+  private validateWrite: ValidateFunction;
+  // Drops undeclared properties instead of failing, for values stored under an older schema
+  private validateRead: ValidateFunction;
+
+  constructor(private _configService: ConfigService) {}
+
+  onModuleInit(): void {
+    const path = this._configService.get<string>('USER_ATTRIBUTES_SCHEMA_PATH');
+    const schema = path
+      ? (JSON.parse(readFileSync(path, 'utf8')) as SchemaObject)
+      : EMPTY_SCHEMA;
+    if (schema.type !== 'object') {
+      throw new Error('The user attribute schema must describe an object');
+    }
+    this.schema = schema;
+    this.validateWrite = this.compile(schema, false);
+    this.validateRead = this.compile(schema, true);
+    this.logger.log(
+      `Loaded user attribute schema with ${this.getDeclaredNames().length} attributes`
+    );
+  }
+
+  /**
+   * Applies a change to a user's custom attributes like a JSON merge patch: given keys
+   * replace the stored ones and `null` removes a key. The result has to match the schema.
+   *
+   * @param {UserAttributes} current - The stored attributes.
+   * @param {UserAttributes} changes - The attributes to set or, with `null`, remove.
+   *
+   * @returns {UserAttributes} The merged attributes.
+   *
+   * @throws {UserAttributesException} Throws with every violation if the result does not match the schema.
+   */
+  merge(current: UserAttributes, changes: UserAttributes): UserAttributes {
+    const merged: UserAttributes = { ...current };
+    for (const [name, value] of Object.entries(changes)) {
+      if (value === null) {
+        delete merged[name];
+      } else {
+        merged[name] = value;
+      }
+    }
+    if (!this.validateWrite(merged)) {
+      throw new UserAttributesException(
+        this.toViolations(this.validateWrite.errors)
+      );
+    }
+    return merged;
+  }
+
+  /**
+   * Returns the attributes that still match the schema. Stored values are checked on
+   * every read because the schema may have changed since they were written.
+   *
+   * @param {UserAttributes | null | undefined} attributes - The stored attributes.
+   *
+   * @returns {UserAttributes} A copy without undeclared or invalid attributes.
+   */
+  toReadable(attributes: UserAttributes | null | undefined): UserAttributes {
+    const readable = structuredClone(attributes ?? {});
+    if (this.validateRead(readable)) {
+      return readable;
+    }
+    const invalid = new Set(
+      (this.validateRead.errors ?? [])
+        .map((error) => error.instancePath.split('/')[1])
+        .filter((name): name is string => !!name)
+    );
+    for (const name of invalid) {
+      delete readable[name];
+    }
+    this.logger.warn(
+      `Dropped stored attributes that no longer match the schema: ${[...invalid].join(', ')}`
+    );
+    return readable;
+  }
+
+  /**
+   * Picks the attributes the schema marks with `"x-consent": true`, such as a newsletter
+   * opt-in. The service keeps no other consent records.
+   *
+   * @param {UserAttributes} readable - Attributes returned by `toReadable`.
+   *
+   * @returns {UserAttributes} The consents the user has given or refused.
+   */
+  pickConsents(readable: UserAttributes): UserAttributes {
+    const properties = (this.schema.properties ?? {}) as Record<
+      string,
+      SchemaObject
+    >;
+    return Object.fromEntries(
+      Object.entries(readable).filter(
+        ([name]) => properties[name]?.['x-consent'] === true
+      )
+    );
+  }
+
+  /**
+   * Checks that users are only searched by declared attributes.
+   *
+   * @throws {BadRequestException} Throws if a filter names an attribute the schema does not declare.
+   */
+  assertSearchable(filter: UserAttributes): void {
+    const declared = new Set(this.getDeclaredNames());
+    const unknown = Object.keys(filter).filter((name) => !declared.has(name));
+    if (unknown.length) {
+      throw new BadRequestException(
+        `Unknown custom attributes: ${unknown.join(', ')}`
+      );
+    }
+  }
+
+  private compile(schema: SchemaObject, removeAdditional: boolean) {
+    const ajv = new Ajv({ allErrors: true, removeAdditional });
+    addFormats(ajv);
+    // Marks attributes that record a consent, see pickConsents
+    ajv.addKeyword({ keyword: 'x-consent', schemaType: 'boolean' });
+    return ajv.compile(schema);
+  }
+
+  private getDeclaredNames(): string[] {
+    return Object.keys((this.schema.properties as object | undefined) ?? {});
+  }
+
+  private toViolations(
+    errors: ErrorObject[] | null | undefined
+  ): AttributeViolation[] {
+    return (errors ?? []).map((error) => ({
+      path: error.instancePath,
+      message: error.message ?? 'is invalid',
+    }));
+  }
+}
@@ -0,0 +1,14 @@
+import { ownershipPolicy } from 'src/auth/policies/ownership.policy';
+
+// The resource of these policies is the id of the target user
+export const canReadUser = ownershipPolicy<number>('users', 'read', (id) => id);
+export const canUpdateUser = ownershipPolicy<number>(
+  'users',
+  'update',
+  (id) => id
+);
+export const canDeleteUser = ownershipPolicy<number>(
+  'users',
+  'delete',
+  (id) => id
+);
@@ -1,4 +1,228 @@
+import 'reflect-metadata';
+import { Transform, Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsDate,
+  IsEmail,
+  IsIn,
+  IsInt,
+  IsLocale,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsTimeZone,
+  IsUrl,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { UserAttributes } from 'src/user-attributes/types/user-attributes.type';
+
 export enum Role {
   USER = 'user',
   ADMIN = 'admin',
 }
+
+const toBoolean = ({ value }: { value: unknown }) =>
+  value === 'true' ? true : value === 'false' ? false : value;
+
+export class ListUsersQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  public readonly page: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  public readonly limit: number = 20;
+
+  @IsOptional()
+  @IsIn(['id', 'email', 'createdAt', 'updatedAt'])
+  public readonly sort: 'id' | 'email' | 'createdAt' | 'updatedAt' =
+    'createdAt';
+
+  @IsOptional()
+  @IsIn(['ASC', 'DESC'])
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.toUpperCase() : value
+  )
+  public readonly order: 'ASC' | 'DESC' = 'DESC';
+
+  @IsOptional()
+  @IsString()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  public readonly search?: string;
+
+  // Lists users holding this role
+  @IsOptional()
+  @IsString()
+  public readonly role?: string;
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  public readonly isActive?: boolean;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  public readonly createdFrom?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  public readonly createdTo?: Date;
+
+  // JSON object matched by containment, e.g. {"plan":"pro"}
+  @IsOptional()
+  @Transform(({ value }) => {
+    try {
+      return typeof value === 'string' ? (JSON.parse(value) as unknown) : value;
+    } catch {
+      return value;
+    }
+  })
+  @IsObject()
+  public readonly attributes?: UserAttributes;
+}
+
+export const PROFILE_FIELDS = [
+  'displayName',
+  'givenName',
+  'familyName',
+  'avatarUrl',
+  'locale',
+  'timeZone',
+] as const;
+
+export type ProfileField = (typeof PROFILE_FIELDS)[number];
+
+export type UserProfile = { [K in ProfileField]: string | null };
+
+// Email and password of the caller's own account change through their dedicated flows,
+// profile fields are cleared with null
+export class UpdateUserDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  public readonly displayName?: string | null;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  public readonly givenName?: string | null;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  public readonly familyName?: string | null;
+
+  @IsOptional()
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  @MaxLength(2048)
+  public readonly avatarUrl?: string | null;
+
+  @IsOptional()
+  @IsLocale()
+  @MaxLength(35)
+  public readonly locale?: string | null;
+
+  @IsOptional()
+  @IsTimeZone()
+  public readonly timeZone?: string | null;
+
+  // Merged into the stored attributes and checked against the attribute schema
+  @IsOptional()
+  @IsObject()
+  public readonly customAttributes?: UserAttributes;
+
+  @IsOptional()
+  @IsEmail({}, { message: 'Invalid email address' })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  public readonly email?: string;
+
+  // Checked against the password policy by the service, see PasswordPolicyService
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  public readonly password?: string;
+}
+
+export class UpdateRolesDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsString({ each: true })
+  public readonly roles: string[];
+}
+
+export class UpdateStatusDto {
+  @IsBoolean()
+  public readonly isActive: boolean;
+}
+
+export class GetUserByIdDto {
+  @IsInt()
+  @Min(1)
+  public readonly id: number;
+}
+
+export class GetUserByEmailDto {
+  @IsEmail({}, { message: 'Invalid email address' })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  public readonly email: string;
+}
+
+export class BatchGetUsersDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(100)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  public readonly ids: number[];
+}
+
+export type PublicUser = UserProfile & {
+  id: number;
+  email: string;
+  roles: string[];
+  isActive: boolean;
+  emailVerified: boolean;
+  mfaEnabled: boolean;
+  customAttributes: UserAttributes;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type BatchGetUsersResult = {
+  users: PublicUser[];
+  notFound: number[];
+};
+
+export type Paginated<T> = {
+  data: T[];
+  total: number;
+  page: number;
+  limit: number;
+};
+
+export type UserFilters = Pick<
+  ListUsersQueryDto,
+  'search' | 'role' | 'isActive' | 'createdFrom' | 'createdTo' | 'attributes'
+>;
+
+export type Connection<T> = {
+  edges: { cursor: string; node: T }[];
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  totalCount: number;
+};
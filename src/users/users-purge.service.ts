@@ -0,0 +1,50 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { UsersService } from './users.service';
+
+/**
+ * Periodically purges accounts whose deletion grace period has ended.
+ */
+@Injectable()
+export class UsersPurgeService
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger = new Logger(UsersPurgeService.name);
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private _usersService: UsersService,
+    private _configService: ConfigService
+  ) {}
+
+  onApplicationBootstrap(): void {
+    const interval =
+      this._configService.get<number>('ACCOUNT_PURGE_INTERVAL_SECONDS') ?? 3600;
+    if (interval <= 0) {
+      this.logger.log('Account purge is disabled');
+      return;
+    }
+    this.timer = setInterval(() => void this.purge(), interval * 1000);
+    this.timer.unref();
+  }
+
+  onApplicationShutdown(): void {
+    clearInterval(this.timer);
+  }
+
+  async purge(): Promise<void> {
+    try {
+      const purged = await this._usersService.purgeDeleted();
+      if (purged > 0) {
+        this.logger.log(`Purged ${purged} deleted accounts`);
+      }
+    } catch (error) {
+      this.logger.error('Purging deleted accounts failed', error.stack);
+    }
+  }
+}
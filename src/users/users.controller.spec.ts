@@ -0,0 +1,218 @@
+import { Test } from '@nestjs/testing';
+import {
+  ExecutionContext,
+  INestApplication,
+  INestMicroservice,
+} from '@nestjs/common';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { lastValueFrom } from 'rxjs';
+import { UsersController } from './users.controller';
+import { UsersService } from './users.service';
+import { UnauthorizedException } from '@nestjs/common';
+import { ApiKeysService } from 'src/api-keys/api-keys.service';
+import { Permission } from 'src/roles/types/roles.type';
+import { JwtOrApiKeyAuthGuard } from 'src/auth/guard/jwt-or-api-key-auth.guard';
+import { JwtAuthGuard } from 'src/auth/guard/jwt-auth.guard';
+import { ServicePrincipal } from 'src/auth/types/auth.type';
+import {
+  InProcessBroker,
+  InProcessClient,
+  InProcessServer,
+} from '../../test/helpers/in-process.transport';
+
+describe('UsersController messages', () => {
+  let app: INestMicroservice;
+  let client: InProcessClient;
+  let usersService: Record<string, jest.Mock>;
+
+  const user = {
+    id: 1,
+    email: 'kavishka@gmail.com',
+    password: 'hash',
+    roles: ['user'],
+    isActive: true,
+    emailVerified: true,
+    mfaEnabled: false,
+    failedLoginCount: 2,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  };
+
+  beforeEach(async () => {
+    usersService = {
+      findById: jest.fn((id: number) =>
+        Promise.resolve(id === user.id ? user : undefined)
+      ),
+      findOne: jest.fn(() => Promise.resolve(user)),
+      findByIds: jest.fn(() => Promise.resolve([user])),
+    };
+    const apiKeysService = {
+      authenticate: jest.fn((key: string) => {
+        const scopes: Record<string, Permission[]> = {
+          'usk_reader.secret': [Permission.USERS_READ_ANY],
+          'usk_other.secret': [Permission.TOKENS_INTROSPECT_ANY],
+        };
+        if (!scopes[key]) {
+          return Promise.reject(new UnauthorizedException('Invalid API key'));
+        }
+        return Promise.resolve({
+          apiKeyId: 1,
+          name: 'orders',
+          permissions: scopes[key],
+        });
+      }),
+    };
+    const module = await Test.createTestingModule({
+      controllers: [UsersController],
+      providers: [
+        { provide: UsersService, useValue: usersService },
+        { provide: ApiKeysService, useValue: apiKeysService },
+      ],
+    }).compile();
+
+    const broker = new InProcessBroker();
+    app = module.createNestMicroservice({
+      strategy: new InProcessServer(broker),
+      logger: false,
+    });
+    await app.listen();
+    client = new InProcessClient(broker);
+  });
+
+  const send = (pattern: string, value: unknown, key = 'usk_reader.secret') =>
+    lastValueFrom(
+      client.send(pattern, { headers: { 'x-api-key': key }, value })
+    );
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should reply with the user without secrets', async () => {
+    const reply: unknown = await send('user.get-by-id', { id: 1 });
+
+    expect(reply).toEqual({
+      id: 1,
+      email: user.email,
+      roles: ['user'],
+      isActive: true,
+      emailVerified: true,
+      mfaEnabled: false,
+      displayName: null,
+      givenName: null,
+      familyName: null,
+      avatarUrl: null,
+      locale: null,
+      timeZone: null,
+      customAttributes: {},
+      createdAt: new Date(0).toISOString(),
+      updatedAt: new Date(0).toISOString(),
+    });
+  });
+
+  it('should reply with a not found error for unknown users', async () => {
+    await expect(send('user.get-by-id', { id: 2 })).rejects.toEqual({
+      status: 'error',
+      statusCode: 404,
+      message: 'User not found',
+    });
+  });
+
+  it('should reply with a validation error for malformed messages', async () => {
+    await expect(
+      send('user.get-by-email', { email: 'nope' })
+    ).rejects.toMatchObject({
+      status: 'error',
+      statusCode: 400,
+      message: ['Invalid email address'],
+    });
+  });
+
+  it('should list unknown ids of a batch', async () => {
+    const reply: unknown = await send('user.batch-get', { ids: [1, 2] });
+
+    expect(reply).toMatchObject({ users: [{ id: 1 }], notFound: [2] });
+    expect(reply).not.toHaveProperty('users.0.password');
+  });
+
+  it('should reject messages without a valid API key', async () => {
+    await expect(
+      lastValueFrom(client.send('user.get-by-email', { email: user.email }))
+    ).rejects.toEqual({
+      status: 'error',
+      statusCode: 401,
+      message: 'Invalid API key',
+    });
+    await expect(
+      send('user.batch-get', { ids: [1] }, 'usk_unknown.secret')
+    ).rejects.toMatchObject({ statusCode: 401 });
+    expect(usersService.findOne).not.toHaveBeenCalled();
+  });
+
+  it('should reject API keys without the users:read:any scope', async () => {
+    await expect(
+      send('user.get-by-email', { email: user.email }, 'usk_other.secret')
+    ).rejects.toMatchObject({ status: 'error', statusCode: 403 });
+    expect(usersService.findOne).not.toHaveBeenCalled();
+  });
+});
+
+describe('UsersController routes', () => {
+  let app: INestApplication<App>;
+  let usersService: Record<string, jest.Mock>;
+  const principal: ServicePrincipal = {
+    apiKeyId: 1,
+    name: 'orders',
+    permissions: [Permission.USERS_READ_ANY, Permission.USERS_UPDATE_ANY],
+  };
+  const authenticate = {
+    canActivate: (context: ExecutionContext) => {
+      context.switchToHttp().getRequest<{ user: unknown }>().user = principal;
+      return true;
+    },
+  };
+
+  beforeEach(async () => {
+    usersService = {
+      findById: jest.fn(() => Promise.resolve(undefined)),
+      update: jest.fn(),
+    };
+    const module = await Test.createTestingModule({
+      controllers: [UsersController],
+      providers: [
+        { provide: UsersService, useValue: usersService },
+        { provide: ApiKeysService, useValue: {} },
+      ],
+    })
+      .overrideGuard(JwtOrApiKeyAuthGuard)
+      .useValue(authenticate)
+      .overrideGuard(JwtAuthGuard)
+      .useValue(authenticate)
+      .compile();
+
+    app = module.createNestApplication({ logger: false });
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should reject ids that are not numbers', async () => {
+    await request(app.getHttpServer()).get('/users/abc').expect(400);
+    await request(app.getHttpServer())
+      .patch('/users/abc')
+      .send({ displayName: 'Kavishka' })
+      .expect(400);
+
+    expect(usersService.findById).not.toHaveBeenCalled();
+    expect(usersService.update).not.toHaveBeenCalled();
+  });
+
+  it('should reply with 404 for unknown users', async () => {
+    await request(app.getHttpServer()).get('/users/2').expect(404);
+
+    expect(usersService.findById).toHaveBeenCalledWith(2);
+  });
+});
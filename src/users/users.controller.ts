@@ -4,59 +4,112 @@ import {
   Delete,
   Get,
   Logger,
+  NotFoundException,
   Param,
-  Put,
+  ParseIntPipe,
+  Patch,
   Request,
+  UseFilters,
   UseGuards,
+  ValidationPipe,
 } from '@nestjs/common';
-import { Roles } from 'src/auth/roles.decorator';
-import { Role } from './types/users.type';
-import { RolesGuard } from 'src/auth/guard/roles.guard';
+import { RequirePermissions } from 'src/auth/permissions.decorator';
+import {
+  BatchGetUsersDto,
+  BatchGetUsersResult,
+  GetUserByEmailDto,
+  GetUserByIdDto,
+  PublicUser,
+  UpdateUserDto,
+} from './types/users.type';
+import { PermissionsGuard } from 'src/auth/guard/permissions.guard';
 import { JwtAuthGuard } from 'src/auth/guard/jwt-auth.guard';
 import { Request as Req } from 'express';
 import { UsersService } from './users.service';
-import { User } from 'src/auth/auth.decorator';
+import { ClientInfo, User } from 'src/auth/auth.decorator';
+import { SessionClient } from 'src/sessions/types/sessions.type';
 import { ApiBody } from '@nestjs/swagger';
+import { UpdateUserSwagger } from 'src/swagger/user.swagger';
+import { MessagePattern, Payload } from '@nestjs/microservices';
+import { RpcHttpExceptionFilter } from 'src/kafka/filters/rpc-http-exception.filter';
+import { toPublicUser } from './utils/public-user';
+import { Permission } from 'src/roles/types/roles.type';
+import { AuthUser, Principal } from 'src/auth/types/auth.type';
+import { JwtOrApiKeyAuthGuard } from 'src/auth/guard/jwt-or-api-key-auth.guard';
+import { RpcApiKeyAuthGuard } from 'src/auth/guard/rpc-api-key-auth.guard';
+import { describePrincipal } from 'src/auth/utils/principal';
+import { enforcePolicy } from 'src/auth/policies/ownership.policy';
+import { canReadUser } from './policies/user.policy';
 
 @Controller('users')
 export class UsersController {
   private readonly logger = new Logger(UsersController.name);
   constructor(private _usersService: UsersService) {}
 
-  @Roles(Role.USER, Role.ADMIN)
-  @UseGuards(RolesGuard)
-  @UseGuards(JwtAuthGuard)
+  @RequirePermissions(Permission.USERS_READ_SELF)
+  @UseGuards(PermissionsGuard)
+  @UseGuards(JwtOrApiKeyAuthGuard)
   @Get('/:id')
-  async getUserProfile(@Param('id') id: number, @User() user: any) {
-    this.logger.log(`Fetching profile for user: ${user.email}`);
+  async getUserProfile(
+    @Param('id', ParseIntPipe) id: number,
+    @User() principal: Principal
+  ) {
+    this.logger.log(
+      `Fetching profile ${id} for: ${describePrincipal(principal)}`
+    );
     try {
+      enforcePolicy(
+        canReadUser,
+        principal,
+        id,
+        'You are not allowed to view this user'
+      );
       const foundUser = await this._usersService.findById(id);
+      if (!foundUser) {
+        throw new NotFoundException('User not found');
+      }
       return foundUser;
     } catch (error) {
       this.logger.error(
-        `Fetching profile failed for user: ${user.email}`,
+        `Fetching profile ${id} failed for: ${describePrincipal(principal)}`,
         error.stack
       );
       throw error;
     }
   }
 
-  @Roles(Role.USER)
-  @UseGuards(RolesGuard)
+  @RequirePermissions(Permission.USERS_UPDATE_SELF)
+  @UseGuards(PermissionsGuard)
   @UseGuards(JwtAuthGuard)
-  @Put('/:id')
+  @Patch('/:id')
+  @ApiBody({ type: UpdateUserSwagger })
+  /**
+   * Updates the given fields of a user. Users change their own email and password
+   * with `POST /users/me/email` and `POST /users/me/password`.
+   *
+   * @param {number} id - The id of the user to update.
+   * @param {UpdateUserDto} updateUserDto - The fields to change.
+   * @param {AuthUser} user - The authenticated user.
+   * @param {SessionClient} client - The user agent and IP address of the caller.
+   *
+   * @returns {Promise<any>} Resolves with the updated user.
+   *
+   * @throws {ForbiddenException} Throws if the user may not update this account.
+   * @throws {BadRequestException} Throws if users try to change their own email or password here.
+   */
   async updateUserProfile(
-    @Param('id') id: number,
-    @Body() updateUserDto: any,
-    @User() user: any
+    @Param('id', ParseIntPipe) id: number,
+    @Body(new ValidationPipe()) updateUserDto: UpdateUserDto,
+    @User() user: AuthUser,
+    @ClientInfo() client: SessionClient
   ) {
     this.logger.log(`Updating profile for user: ${user.email}`);
     try {
       const updatedUser = await this._usersService.update(
         id,
-        updateUserDto.email,
-        updateUserDto.password,
-        user
+        updateUserDto,
+        user,
+        client
       );
       return updatedUser;
     } catch (error) {
@@ -68,15 +121,22 @@ export class UsersController {
     }
   }
 
-  @Roles(Role.USER)
-  @UseGuards(RolesGuard)
+  @RequirePermissions(Permission.USERS_DELETE_SELF)
+  @UseGuards(PermissionsGuard)
   @UseGuards(JwtAuthGuard)
   @Delete('/:id')
-  async deleteUserProfile(@Param('id') id: number, @User() user: any) {
+  async deleteUserProfile(
+    @Param('id', ParseIntPipe) id: number,
+    @User() user: AuthUser,
+    @ClientInfo() client: SessionClient
+  ) {
     this.logger.log(`Deleting profile for user: ${user.email}`);
     try {
-      await this._usersService.delete(id, user);
-      return { message: 'User deleted successfully' };
+      await this._usersService.delete(id, user, client);
+      return {
+        message:
+          'User scheduled for deletion, it can be restored until the grace period ends',
+      };
     } catch (error) {
       this.logger.error(
         `Deleting profile failed for user: ${user.email}`,
@@ -85,4 +145,105 @@ export class UsersController {
       throw error;
     }
   }
+
+  @UseFilters(RpcHttpExceptionFilter)
+  @RequirePermissions(Permission.USERS_READ_ANY)
+  @UseGuards(RpcApiKeyAuthGuard)
+  @MessagePattern('user.get-by-id')
+  /**
+   * Looks up a user for other services. Callers send an API key with the
+   * `users:read:any` scope in the `x-api-key` message header.
+   *
+   * @param {GetUserByIdDto} getUserByIdDto - The message containing the user id.
+   *
+   * @returns {Promise<PublicUser>} Resolves with the user, without secrets.
+   *
+   * @throws {UnauthorizedException} Replies with a 401 error if the API key is missing or invalid.
+   * @throws {ForbiddenException} Replies with a 403 error if the API key lacks the scope.
+   * @throws {NotFoundException} Replies with a 404 error if the user does not exist.
+   */
+  async getUserById(
+    @Payload(new ValidationPipe()) getUserByIdDto: GetUserByIdDto
+  ): Promise<PublicUser> {
+    this.logger.log(`Looking up user by id: ${getUserByIdDto.id}`);
+    try {
+      const user = await this._usersService.findById(getUserByIdDto.id);
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+      return toPublicUser(user);
+    } catch (error) {
+      this.logger.error(
+        `Looking up user by id failed: ${getUserByIdDto.id}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @UseFilters(RpcHttpExceptionFilter)
+  @RequirePermissions(Permission.USERS_READ_ANY)
+  @UseGuards(RpcApiKeyAuthGuard)
+  @MessagePattern('user.get-by-email')
+  /**
+   * Looks up a user by email address for other services, authenticated like `user.get-by-id`.
+   *
+   * @param {GetUserByEmailDto} getUserByEmailDto - The message containing the email address.
+   *
+   * @returns {Promise<PublicUser>} Resolves with the user, without secrets.
+   *
+   * @throws {UnauthorizedException} Replies with a 401 error if the API key is missing or invalid.
+   * @throws {ForbiddenException} Replies with a 403 error if the API key lacks the scope.
+   * @throws {NotFoundException} Replies with a 404 error if the user does not exist.
+   */
+  async getUserByEmail(
+    @Payload(new ValidationPipe()) getUserByEmailDto: GetUserByEmailDto
+  ): Promise<PublicUser> {
+    this.logger.log(`Looking up user by email: ${getUserByEmailDto.email}`);
+    try {
+      const user = await this._usersService.findOne(getUserByEmailDto.email);
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+      return toPublicUser(user);
+    } catch (error) {
+      this.logger.error(
+        `Looking up user by email failed: ${getUserByEmailDto.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @UseFilters(RpcHttpExceptionFilter)
+  @RequirePermissions(Permission.USERS_READ_ANY)
+  @UseGuards(RpcApiKeyAuthGuard)
+  @MessagePattern('user.batch-get')
+  /**
+   * Looks up to 100 users at once. Unknown ids are listed in `notFound` instead of failing the batch.
+   * Authenticated like `user.get-by-id`.
+   *
+   * @param {BatchGetUsersDto} batchGetUsersDto - The message containing the user ids.
+   *
+   * @returns {Promise<BatchGetUsersResult>} Resolves with the found users and the missing ids.
+   *
+   * @throws {UnauthorizedException} Replies with a 401 error if the API key is missing or invalid.
+   * @throws {ForbiddenException} Replies with a 403 error if the API key lacks the scope.
+   */
+  async batchGetUsers(
+    @Payload(new ValidationPipe()) batchGetUsersDto: BatchGetUsersDto
+  ): Promise<BatchGetUsersResult> {
+    this.logger.log(`Looking up ${batchGetUsersDto.ids.length} users`);
+    try {
+      const users = await this._usersService.findByIds(batchGetUsersDto.ids);
+      const found = new Set(users.map((user) => user.id));
+      return {
+        users: users.map(toPublicUser),
+        notFound: batchGetUsersDto.ids.filter((id) => !found.has(id)),
+      };
+    } catch (error) {
+      this.logger.error('Looking up users failed', error.stack);
+      throw error;
+    }
+  }
 }
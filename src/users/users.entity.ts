@@ -1,30 +1,87 @@
-import { Entity, Column, PrimaryGeneratedColumn } from 'typeorm';
+import {
+  Entity,
+  Column,
+  DeleteDateColumn,
+  Index,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
 import { Role } from './types/users.type';
 
 @Entity()
+// Unique on lower(email), created by the baseline migration since TypeORM cannot declare expression indexes
+@Index('UQ_user_email_lower', { synchronize: false })
 export class User {
   @PrimaryGeneratedColumn()
   id: number;
 
+  @Index('UQ_user_email', { unique: true })
   @Column()
   email: string;
 
   @Column()
   password: string;
 
-  @Column({
-    type: 'enum',
-    enum: Role,
-    default: Role.USER,
-  })
-  role: Role;
+  // Names of roles defined in the role table
+  @Column('text', { array: true, default: `{${Role.USER}}` })
+  roles: string[];
 
   @Column({ default: true })
   isActive: boolean;
 
+  @Column({ default: false })
+  emailVerified: boolean;
+
+  @Column({ default: 0 })
+  failedLoginCount: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lockedUntil: Date | null;
+
+  @Column({ default: false })
+  mfaEnabled: boolean;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  displayName: string | null;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  givenName: string | null;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  familyName: string | null;
+
+  @Column({ type: 'varchar', length: 2048, nullable: true })
+  avatarUrl: string | null;
+
+  // BCP 47 language tag, such as en-GB
+  @Column({ type: 'varchar', length: 35, nullable: true })
+  locale: string | null;
+
+  // IANA time zone, such as Asia/Colombo
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  timeZone: string | null;
+
+  // Shaped by the deployment's attribute schema, see UserAttributesService
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  customAttributes: Record<string, unknown>;
+
+  // Never selected by default so it cannot leak through profile reads
+  @Column({ type: 'varchar', nullable: true, select: false })
+  totpSecret: string | null;
+
+  @Column({ type: 'int', nullable: true, select: false })
+  totpLastUsedStep: number | null;
+
   @Column()
   createdAt: Date;
 
   @Column()
   updatedAt: Date;
+
+  // Set when the user deletes their account; the row is erased after the grace period
+  @DeleteDateColumn({ type: 'timestamp', nullable: true })
+  deletedAt: Date | null;
+
+  // Set once the personal data has been erased; the row stays as a tombstone for the id
+  @Column({ type: 'timestamp', nullable: true })
+  erasedAt: Date | null;
 }
@@ -3,11 +3,28 @@ import { UsersService } from './users.service';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { User } from './users.entity';
 import { UsersController } from './users.controller';
-import { KafkaModule } from 'src/kafka/kafka.module';
+import { EventsModule } from 'src/events/events.module';
+import { SessionsModule } from 'src/sessions/sessions.module';
+import { UsersPurgeService } from './users-purge.service';
+import { UsersResolver } from './users.resolver';
+import { ApiKeysModule } from 'src/api-keys/api-keys.module';
+import { AuditModule } from 'src/audit/audit.module';
+import { PasswordPolicyModule } from 'src/password-policy/password-policy.module';
+import { UserAttributesModule } from 'src/user-attributes/user-attributes.module';
+import { PrivacyModule } from 'src/privacy/privacy.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([User]), KafkaModule],
-  providers: [UsersService],
+  imports: [
+    TypeOrmModule.forFeature([User]),
+    EventsModule,
+    SessionsModule,
+    ApiKeysModule,
+    AuditModule,
+    PasswordPolicyModule,
+    UserAttributesModule,
+    PrivacyModule,
+  ],
+  providers: [UsersService, UsersPurgeService, UsersResolver],
   exports: [UsersService],
   controllers: [UsersController],
 })
@@ -0,0 +1,142 @@
+import { Test } from '@nestjs/testing';
+import { INestApplication, UnauthorizedException } from '@nestjs/common';
+import { App } from 'supertest/types';
+import { UsersResolver } from './users.resolver';
+import { UsersService } from './users.service';
+import { AuthService } from 'src/auth/auth.service';
+import { JwtPayload } from 'src/auth/types/auth.type';
+import { DEFAULT_ROLE_PERMISSIONS } from 'src/roles/types/roles.type';
+import { Role } from './types/users.type';
+import {
+  graphql,
+  TestAccessTokens,
+  TestGraphQLModule,
+} from '../../test/helpers/graphql';
+
+describe('UsersResolver', () => {
+  let app: INestApplication<App>;
+  let usersService: Record<string, jest.Mock>;
+  const tokens = new TestAccessTokens();
+
+  const user = {
+    id: 1,
+    email: 'kavishka@gmail.com',
+    roles: [Role.USER],
+    isActive: true,
+    emailVerified: true,
+    mfaEnabled: false,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  };
+
+  const tokenFor = (roles: Role[]) =>
+    tokens.sign({ sub: user.id, email: user.email, roles, sid: 'session-1' });
+
+  beforeEach(async () => {
+    usersService = {
+      findById: jest.fn((id: number) =>
+        Promise.resolve(id === user.id ? user : undefined)
+      ),
+      findConnection: jest.fn(() =>
+        Promise.resolve({
+          edges: [],
+          pageInfo: { hasNextPage: false, endCursor: null },
+        })
+      ),
+    };
+    const authService = {
+      validateUserRole: jest.fn((payload: JwtPayload) => {
+        if (payload.sid !== 'session-1') {
+          return Promise.reject(
+            new UnauthorizedException('Unauthorized access.')
+          );
+        }
+        return Promise.resolve({
+          userId: payload.sub,
+          email: payload.email,
+          roles: payload.roles,
+          permissions: payload.roles.flatMap(
+            (role) => DEFAULT_ROLE_PERMISSIONS[role as Role]
+          ),
+          sessionId: payload.sid,
+        });
+      }),
+    };
+    const module = await Test.createTestingModule({
+      imports: [TestGraphQLModule],
+      providers: [
+        UsersResolver,
+        ...tokens.providers,
+        { provide: UsersService, useValue: usersService },
+        { provide: AuthService, useValue: authService },
+      ],
+    }).compile();
+
+    app = module.createNestApplication({ logger: false });
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should resolve the authenticated user for me', async () => {
+    const res = await graphql(
+      app,
+      '{ me { id email roles } }',
+      {},
+      tokenFor([Role.USER])
+    );
+
+    expect(res.body).toEqual({
+      data: { me: { id: 1, email: user.email, roles: [Role.USER] } },
+    });
+    expect(usersService.findById).toHaveBeenCalledWith(1);
+  });
+
+  it('should reject queries without a valid access token', async () => {
+    const withoutToken = await graphql(app, '{ me { id } }');
+    const revokedSession = await graphql(
+      app,
+      '{ me { id } }',
+      {},
+      tokens.sign({
+        sub: user.id,
+        email: user.email,
+        roles: [Role.USER],
+        sid: 'session-2',
+      })
+    );
+
+    for (const res of [withoutToken, revokedSession]) {
+      expect(res.body.data).toEqual({ me: null });
+      expect(res.body.errors?.[0].extensions.code).toBe('UNAUTHENTICATED');
+    }
+    expect(usersService.findById).not.toHaveBeenCalled();
+  });
+
+  it('should require users:read:any to list users', async () => {
+    const query = '{ users(first: 10) { pageInfo { hasNextPage } } }';
+
+    const asUser = await graphql(app, query, {}, tokenFor([Role.USER]));
+    const asAdmin = await graphql(app, query, {}, tokenFor([Role.ADMIN]));
+
+    expect(asUser.body.errors?.[0].extensions.code).toBe('FORBIDDEN');
+    expect(asAdmin.body).toEqual({
+      data: { users: { pageInfo: { hasNextPage: false } } },
+    });
+    expect(usersService.findConnection).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not let users read other users', async () => {
+    const res = await graphql(
+      app,
+      '{ user(id: 2) { id } }',
+      {},
+      tokenFor([Role.USER])
+    );
+
+    expect(res.body.errors?.[0].extensions.code).toBe('FORBIDDEN');
+    expect(usersService.findById).not.toHaveBeenCalled();
+  });
+});
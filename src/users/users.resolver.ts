@@ -0,0 +1,117 @@
+import { Logger, UseGuards, ValidationPipe } from '@nestjs/common';
+import { Args, Int, Mutation, Query, Resolver } from '@nestjs/graphql';
+import { RequirePermissions } from 'src/auth/permissions.decorator';
+import { PermissionsGuard } from 'src/auth/guard/permissions.guard';
+import { JwtAuthGuard } from 'src/auth/guard/jwt-auth.guard';
+import { ClientInfo, User } from 'src/auth/auth.decorator';
+import { SessionClient } from 'src/sessions/types/sessions.type';
+import { AuthUser } from 'src/auth/types/auth.type';
+import {
+  UpdateProfileInput,
+  UserConnection,
+  UserModel,
+  UsersConnectionArgs,
+} from 'src/graphql/user.graphql';
+import { Connection } from './types/users.type';
+import { SafeUser, UsersService } from './users.service';
+import { Permission } from 'src/roles/types/roles.type';
+import { enforcePolicy } from 'src/auth/policies/ownership.policy';
+import { canReadUser } from './policies/user.policy';
+
+@Resolver(() => UserModel)
+export class UsersResolver {
+  private readonly logger = new Logger(UsersResolver.name);
+  constructor(private _usersService: UsersService) {}
+
+  @UseGuards(JwtAuthGuard)
+  @Query(() => UserModel, { nullable: true })
+  async me(@User() user: AuthUser): Promise<SafeUser | undefined> {
+    return await this._usersService.findById(user.userId);
+  }
+
+  @RequirePermissions(Permission.USERS_READ_SELF)
+  @UseGuards(PermissionsGuard)
+  @UseGuards(JwtAuthGuard)
+  @Query(() => UserModel, { nullable: true })
+  async user(
+    @Args('id', { type: () => Int }) id: number,
+    @User() user: AuthUser
+  ): Promise<SafeUser | undefined> {
+    enforcePolicy(
+      canReadUser,
+      user,
+      id,
+      'You are not allowed to view this user'
+    );
+    return await this._usersService.findById(id);
+  }
+
+  @RequirePermissions(Permission.USERS_READ_ANY)
+  @UseGuards(PermissionsGuard)
+  @UseGuards(JwtAuthGuard)
+  @Query(() => UserConnection)
+  /**
+   * Lists users for admins with cursor pagination. Pass `pageInfo.endCursor` as `after`
+   * to fetch the next page.
+   *
+   * @param {UsersConnectionArgs} args - The page size, cursor and filters.
+   *
+   * @returns {Promise<Connection<SafeUser>>} Resolves with the page of users.
+   *
+   * @throws {BadRequestException} Throws if the cursor is malformed.
+   */
+  async users(
+    @Args(new ValidationPipe({ transform: true })) args: UsersConnectionArgs
+  ): Promise<Connection<SafeUser>> {
+    const { first, after, ...filters } = args;
+    return await this._usersService.findConnection(first, after, filters);
+  }
+
+  @RequirePermissions(Permission.USERS_UPDATE_SELF)
+  @UseGuards(PermissionsGuard)
+  @UseGuards(JwtAuthGuard)
+  @Mutation(() => UserModel)
+  /**
+   * Updates the authenticated user's profile fields, see `PATCH /users/:id`.
+   */
+  async updateProfile(
+    @Args('input', new ValidationPipe()) input: UpdateProfileInput,
+    @User() user: AuthUser,
+    @ClientInfo() client: SessionClient
+  ): Promise<SafeUser> {
+    this.logger.log(`Updating profile for user: ${user.email}`);
+    try {
+      return await this._usersService.update(user.userId, input, user, client);
+    } catch (error) {
+      this.logger.error(
+        `Updating profile failed for user: ${user.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+
+  @RequirePermissions(Permission.USERS_DELETE_SELF)
+  @UseGuards(PermissionsGuard)
+  @UseGuards(JwtAuthGuard)
+  @Mutation(() => Boolean)
+  /**
+   * Schedules the authenticated user's account for deletion, see `DELETE /users/:id`.
+   */
+  async deleteAccount(
+    @User() user: AuthUser,
+    @ClientInfo() client: SessionClient
+  ): Promise<boolean> {
+    this.logger.log(`Deleting profile for user: ${user.email}`);
+    try {
+      await this._usersService.delete(user.userId, user, client);
+      return true;
+    } catch (error) {
+      this.logger.error(
+        `Deleting profile failed for user: ${user.email}`,
+        error.stack
+      );
+      throw error;
+    }
+  }
+}
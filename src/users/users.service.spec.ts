@@ -1,12 +1,119 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { FindOperator, QueryFailedError } from 'typeorm';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
 import { UsersService } from './users.service';
+import { Role } from './types/users.type';
+import { Permission } from 'src/roles/types/roles.type';
+import { User } from './users.entity';
+import { SessionsService } from 'src/sessions/sessions.service';
+import { UserEventsService } from 'src/events/user-events.service';
+import { UserEventType } from 'src/events/types/user-events.type';
+import { AuditService } from 'src/audit/audit.service';
+import { PasswordPolicyService } from 'src/password-policy/password-policy.service';
+import { UserAttributesService } from 'src/user-attributes/user-attributes.service';
+import { PrivacyService } from 'src/privacy/privacy.service';
+import {
+  AuditAction,
+  AuditActorType,
+  AuditOutcome,
+} from 'src/audit/types/audit.type';
 
 describe('UsersService', () => {
   let service: UsersService;
+  let repository: Record<string, jest.Mock>;
+  let sessionsService: { revokeAllForUser: jest.Mock };
+  let userEventsService: { publish: jest.Mock };
+  let auditService: { record: jest.Mock; recordFailure: jest.Mock };
+  let passwordPolicyService: {
+    assertValid: jest.Mock;
+    remember: jest.Mock;
+    forget: jest.Mock;
+  };
+  let privacyService: { erase: jest.Mock };
+
+  const user = {
+    id: 1,
+    email: 'kavishka@gmail.com',
+    roles: [Role.USER],
+    isActive: true,
+    deletedAt: null,
+  };
+
+  const actor = (userId: number, permissions: Permission[] = []) => ({
+    userId,
+    email: 'kavishka@gmail.com',
+    roles: [Role.USER],
+    permissions: [
+      Permission.USERS_UPDATE_SELF,
+      Permission.USERS_DELETE_SELF,
+      ...permissions,
+    ],
+    sessionId: 'session',
+  });
+
+  const emittedEvents = () =>
+    userEventsService.publish.mock.calls.map(
+      ([, type]: [unknown, UserEventType]) => type
+    );
 
   beforeEach(async () => {
+    repository = {
+      findOne: jest.fn(() => Promise.resolve({ ...user })),
+      find: jest.fn(() => Promise.resolve([])),
+      save: jest.fn(),
+      softDelete: jest.fn(),
+      restore: jest.fn(),
+      delete: jest.fn(),
+      count: jest.fn(() => Promise.resolve(3)),
+    };
+    // Transactions run against the same mocked repository
+    const manager = {
+      transaction: jest.fn((work: (manager: unknown) => unknown) =>
+        work({ getRepository: () => repository })
+      ),
+    };
+    sessionsService = { revokeAllForUser: jest.fn() };
+    userEventsService = { publish: jest.fn() };
+    auditService = { record: jest.fn(), recordFailure: jest.fn() };
+    passwordPolicyService = {
+      assertValid: jest.fn(),
+      remember: jest.fn(),
+      forget: jest.fn(),
+    };
+    privacyService = { erase: jest.fn() };
     const module: TestingModule = await Test.createTestingModule({
-      providers: [UsersService],
+      providers: [
+        UsersService,
+        {
+          provide: getRepositoryToken(User),
+          useValue: { ...repository, manager },
+        },
+        { provide: SessionsService, useValue: sessionsService },
+        { provide: ConfigService, useValue: { get: () => 30 } },
+        { provide: UserEventsService, useValue: userEventsService },
+        { provide: AuditService, useValue: auditService },
+        { provide: PasswordPolicyService, useValue: passwordPolicyService },
+        {
+          provide: UserAttributesService,
+          useValue: {
+            merge: jest.fn((current: object, changes: object): object => ({
+              ...current,
+              ...changes,
+            })),
+            toReadable: jest.fn((attributes?: object): object => ({
+              ...attributes,
+            })),
+            assertSearchable: jest.fn(),
+          },
+        },
+        { provide: PrivacyService, useValue: privacyService },
+      ],
     }).compile();
 
     service = module.get<UsersService>(UsersService);
@@ -15,4 +122,326 @@ describe('UsersService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('cursor pagination', () => {
+    it('should page through users after the cursor', async () => {
+      repository.find.mockResolvedValueOnce([
+        { ...user, id: 1 },
+        { ...user, id: 2 },
+        { ...user, id: 3 },
+      ]);
+      const page = await service.findConnection(2);
+
+      expect(page.edges.map((edge) => edge.node.id)).toEqual([1, 2]);
+      expect(page.pageInfo.hasNextPage).toBe(true);
+      expect(page.totalCount).toBe(3);
+
+      repository.find.mockResolvedValueOnce([{ ...user, id: 3 }]);
+      const next = await service.findConnection(2, page.pageInfo.endCursor!);
+
+      expect(next.pageInfo.hasNextPage).toBe(false);
+      expect(repository.find).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: { id: expect.objectContaining({ _value: 2 }) },
+        })
+      );
+    });
+
+    it('should filter by custom attributes with JSON containment', async () => {
+      await service.findConnection(2, undefined, {
+        attributes: { plan: 'pro' },
+      });
+
+      expect(repository.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            customAttributes: expect.objectContaining({
+              _type: 'raw',
+              _objectLiteralParameters: { attributes: '{"plan":"pro"}' },
+            }),
+          },
+        })
+      );
+    });
+
+    it('should reject a malformed cursor', async () => {
+      await expect(service.findConnection(2, 'not-a-cursor')).rejects.toThrow(
+        BadRequestException
+      );
+    });
+  });
+
+  describe('events', () => {
+    it('should emit the previous and new roles on role changes', async () => {
+      await service.updateRoles(user.id, [Role.USER, Role.ADMIN]);
+
+      expect(userEventsService.publish).toHaveBeenCalledWith(
+        expect.anything(),
+        UserEventType.ROLE_CHANGED,
+        {
+          userId: user.id,
+          previousRoles: [Role.USER],
+          roles: [Role.USER, Role.ADMIN],
+        }
+      );
+    });
+
+    it('should let admins change the email and password of other users', async () => {
+      repository.findOne
+        .mockResolvedValueOnce({ ...user, emailVerified: false })
+        .mockResolvedValueOnce(undefined);
+      const updated = await service.update(
+        user.id,
+        { email: 'new@gmail.com', password: 'kavishka@456' },
+        actor(2, [Permission.USERS_UPDATE_ANY])
+      );
+
+      expect(updated).toMatchObject({
+        email: 'new@gmail.com',
+        emailVerified: true,
+      });
+      expect(updated).not.toHaveProperty('password');
+      expect(passwordPolicyService.assertValid).toHaveBeenCalledWith(
+        'kavishka@456',
+        { email: 'new@gmail.com', userId: user.id }
+      );
+      expect(passwordPolicyService.remember).toHaveBeenCalledWith(
+        expect.anything(),
+        user.id,
+        expect.any(String)
+      );
+      expect(emittedEvents()).toEqual([
+        UserEventType.EMAIL_CHANGED,
+        UserEventType.UPDATED,
+      ]);
+      expect(userEventsService.publish.mock.calls[0][2]).toEqual({
+        userId: user.id,
+        previousEmail: user.email,
+        email: 'new@gmail.com',
+      });
+      expect(userEventsService.publish.mock.calls[1][2]).toEqual({
+        userId: user.id,
+        changedFields: ['emailVerified', 'password'],
+      });
+      expect(sessionsService.revokeAllForUser).toHaveBeenCalledWith(user.id);
+    });
+
+    it('should keep an email set by an admin verified', async () => {
+      repository.findOne
+        .mockResolvedValueOnce({ ...user, emailVerified: true })
+        .mockResolvedValueOnce(undefined);
+
+      const updated = await service.update(
+        user.id,
+        { email: 'new@gmail.com' },
+        actor(2, [Permission.USERS_UPDATE_ANY])
+      );
+
+      expect(updated).toMatchObject({
+        email: 'new@gmail.com',
+        emailVerified: true,
+      });
+      expect(emittedEvents()).toEqual([UserEventType.EMAIL_CHANGED]);
+    });
+
+    it('should send users to the dedicated flows for their own email and password', async () => {
+      await expect(
+        service.update(user.id, { email: 'new@gmail.com' }, actor(user.id))
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.update(user.id, { password: 'kavishka@456' }, actor(user.id))
+      ).rejects.toThrow(BadRequestException);
+      expect(repository.save).not.toHaveBeenCalled();
+      expect(emittedEvents()).toEqual([]);
+    });
+
+    it('should update only the given profile fields', async () => {
+      repository.findOne.mockResolvedValueOnce({
+        ...user,
+        displayName: 'Kavi',
+        locale: 'en-GB',
+        customAttributes: { plan: 'free' },
+      });
+      const updated = await service.update(
+        user.id,
+        {
+          displayName: 'Kavishka',
+          locale: null,
+          customAttributes: { plan: 'pro' },
+        },
+        actor(user.id)
+      );
+
+      expect(updated).toMatchObject({
+        displayName: 'Kavishka',
+        locale: null,
+        customAttributes: { plan: 'pro' },
+      });
+      expect(userEventsService.publish).toHaveBeenCalledWith(
+        expect.anything(),
+        UserEventType.UPDATED,
+        {
+          userId: user.id,
+          changedFields: ['displayName', 'locale', 'customAttributes'],
+        }
+      );
+      expect(passwordPolicyService.assertValid).not.toHaveBeenCalled();
+    });
+
+    it('should leave the user untouched when nothing changes', async () => {
+      await service.update(user.id, {}, actor(user.id));
+
+      expect(repository.save).not.toHaveBeenCalled();
+      expect(emittedEvents()).toEqual([]);
+    });
+  });
+
+  describe('unique emails', () => {
+    const uniqueViolation = new QueryFailedError('INSERT', [], {
+      code: '23505',
+    } as unknown as Error);
+
+    it('should reject a sign up that lost the race for the address', async () => {
+      repository.create = jest.fn((fields: object) => fields);
+      repository.save.mockRejectedValueOnce(uniqueViolation);
+
+      await expect(
+        service.create('Kavishka@gmail.com', 'kavishka@456')
+      ).rejects.toThrow(ConflictException);
+      expect(emittedEvents()).toEqual([]);
+    });
+
+    it('should find users by email ignoring case', async () => {
+      await service.findOne('Bob@X.io');
+      await service.findRestorable('Bob@X.io');
+
+      for (const [{ where }] of repository.findOne.mock.calls as [
+        { where: { email: FindOperator<string> } },
+      ][]) {
+        expect(where.email.type).toBe('raw');
+        expect(where.email.getSql?.('"email"')).toBe(
+          'lower("email") = lower(:email)'
+        );
+        expect(where.email.objectLiteralParameters).toEqual({
+          email: 'Bob@X.io',
+        });
+      }
+      expect(repository.findOne).toHaveBeenCalledTimes(2);
+    });
+
+    it('should pass on other database errors', async () => {
+      repository.create = jest.fn((fields: object) => fields);
+      repository.save.mockRejectedValueOnce(
+        new QueryFailedError('INSERT', [], new Error('connection lost'))
+      );
+
+      await expect(
+        service.create('kavishka@gmail.com', 'kavishka@456')
+      ).rejects.toThrow(QueryFailedError);
+    });
+  });
+
+  describe('email change', () => {
+    it('should store the confirmed address as verified', async () => {
+      repository.exists = jest.fn(() => Promise.resolve(false));
+      repository.update = jest.fn();
+
+      await service.changeEmail(user.id, 'new@gmail.com');
+
+      expect(repository.update).toHaveBeenCalledWith(
+        user.id,
+        expect.objectContaining({ email: 'new@gmail.com', emailVerified: true })
+      );
+      expect(emittedEvents()).toEqual([
+        UserEventType.EMAIL_CHANGED,
+        UserEventType.UPDATED,
+      ]);
+    });
+
+    it('should reject an address another account took meanwhile', async () => {
+      repository.exists = jest.fn(() => Promise.resolve(true));
+
+      await expect(
+        service.changeEmail(user.id, 'new@gmail.com')
+      ).rejects.toThrow(ConflictException);
+      expect(emittedEvents()).toEqual([]);
+    });
+  });
+
+  describe('account deletion', () => {
+    it('should soft delete the account and revoke its sessions', async () => {
+      await service.delete(user.id, actor(user.id));
+
+      expect(repository.softDelete).toHaveBeenCalledWith(user.id);
+      expect(repository.delete).not.toHaveBeenCalled();
+      expect(sessionsService.revokeAllForUser).toHaveBeenCalledWith(user.id);
+      expect(emittedEvents()).toEqual([UserEventType.DEACTIVATED]);
+      expect(userEventsService.publish).toHaveBeenCalledWith(
+        expect.anything(),
+        UserEventType.DEACTIVATED,
+        { userId: user.id, reason: 'deletion-scheduled' }
+      );
+    });
+
+    it('should not let users delete someone else', async () => {
+      await expect(service.delete(2, actor(user.id))).rejects.toThrow(
+        ForbiddenException
+      );
+      expect(repository.softDelete).not.toHaveBeenCalled();
+      expect(auditService.recordFailure).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditAction.DELETE,
+          actorId: user.id,
+          targetId: 2,
+        }),
+        expect.any(ForbiddenException)
+      );
+    });
+
+    it('should let users who may delete any account delete someone else', async () => {
+      repository.findOne.mockResolvedValueOnce({ ...user, id: 2 });
+      await service.delete(2, actor(user.id, [Permission.USERS_DELETE_ANY]));
+
+      expect(repository.softDelete).toHaveBeenCalledWith(2);
+    });
+
+    it('should only restore accounts within the grace period', async () => {
+      repository.findOne.mockResolvedValueOnce({
+        ...user,
+        deletedAt: new Date(Date.now() - 31 * 24 * 60 * 60 * 1000),
+      });
+      await expect(service.findRestorable(user.email)).resolves.toBeUndefined();
+
+      repository.findOne.mockResolvedValueOnce({
+        ...user,
+        deletedAt: new Date(),
+      });
+      await expect(service.findRestorable(user.email)).resolves.toMatchObject({
+        id: user.id,
+      });
+    });
+
+    it('should erase every account past the grace period', async () => {
+      repository.find.mockResolvedValueOnce([
+        { ...user, deletedAt: new Date(0) },
+        { ...user, id: 2, deletedAt: new Date(0) },
+      ]);
+
+      await expect(service.purgeDeleted()).resolves.toBe(2);
+      expect(repository.delete).not.toHaveBeenCalled();
+      expect(privacyService.erase).toHaveBeenCalledTimes(2);
+      expect(privacyService.erase).toHaveBeenCalledWith(2, {
+        reason: 'purged',
+        requestedAt: new Date(0),
+      });
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditAction.DELETE,
+          outcome: AuditOutcome.SUCCESS,
+          actorType: AuditActorType.SYSTEM,
+          targetId: 2,
+        })
+      );
+    });
+  });
 });
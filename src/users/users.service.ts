@@ -1,68 +1,457 @@
 import {
+  BadRequestException,
+  ConflictException,
   ForbiddenException,
-  Inject,
   Injectable,
   NotFoundException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
 import { User } from './users.entity';
-import { Repository } from 'typeorm';
-import { hashPassword } from 'src/auth/utils/bycrypt';
-import { ClientKafka } from '@nestjs/microservices';
+import {
+  ArrayContains,
+  Between,
+  FindOptionsWhere,
+  ILike,
+  In,
+  IsNull,
+  LessThan,
+  LessThanOrEqual,
+  MoreThan,
+  MoreThanOrEqual,
+  Not,
+  Raw,
+  Repository,
+} from 'typeorm';
+import { isDeepStrictEqual } from 'util';
+import { comparePasswords, hashPassword } from 'src/auth/utils/bycrypt';
+import {
+  Connection,
+  ListUsersQueryDto,
+  Paginated,
+  PROFILE_FIELDS,
+  Role,
+  UpdateUserDto,
+  UserFilters,
+  UserProfile,
+} from './types/users.type';
+import { SessionsService } from 'src/sessions/sessions.service';
+import { AuthUser } from 'src/auth/types/auth.type';
+import { enforcePolicy } from 'src/auth/policies/ownership.policy';
+import { canDeleteUser, canUpdateUser } from './policies/user.policy';
+import { SessionClient } from 'src/sessions/types/sessions.type';
+import { AuditService } from 'src/audit/audit.service';
+import { PasswordPolicyService } from 'src/password-policy/password-policy.service';
+import { UserAttributesService } from 'src/user-attributes/user-attributes.service';
+import { UserAttributes } from 'src/user-attributes/types/user-attributes.type';
+import { PrivacyService } from 'src/privacy/privacy.service';
+import { isUniqueViolation } from 'src/database/utils/unique-violation';
+import {
+  AuditAction,
+  AuditActorType,
+  AuditOutcome,
+} from 'src/audit/types/audit.type';
+import { UserEventsService } from 'src/events/user-events.service';
+import {
+  UserEventType,
+  UserUpdatedField,
+  UserUpdatedPayload,
+} from 'src/events/types/user-events.type';
 
-export type IUser = {
+export type IUser = Partial<UserProfile> & {
   id: number;
   email: string;
   password: string;
-  role: string;
+  roles: string[];
   isActive?: boolean;
+  emailVerified?: boolean;
+  failedLoginCount?: number;
+  lockedUntil?: Date | null;
+  mfaEnabled?: boolean;
+  customAttributes?: UserAttributes;
   createdAt: Date;
   updatedAt: Date;
+  deletedAt?: Date | null;
+  erasedAt?: Date | null;
 };
 
+// A user as returned to callers, without the password hash and MFA secrets
+export type SafeUser = Omit<IUser, 'password'>;
+
+// Matches an email address ignoring case, like the unique index on lower(email)
+const sameEmail = (email: string) =>
+  Raw((column) => `lower(${column}) = lower(:email)`, { email });
+
 @Injectable()
 export class UsersService {
   constructor(
     @InjectRepository(User)
     private _usersRepository: Repository<User>,
-    @Inject('USER_SERVICE') private readonly kafkaClient: ClientKafka
+    private _sessionsService: SessionsService,
+    private _configService: ConfigService,
+    private _userEventsService: UserEventsService,
+    private _auditService: AuditService,
+    private _passwordPolicyService: PasswordPolicyService,
+    private _userAttributesService: UserAttributesService,
+    private _privacyService: PrivacyService
   ) {}
 
   async findOne(email: string): Promise<IUser | undefined> {
-    const user = await this._usersRepository.findOne({ where: { email } });
+    const user = await this._usersRepository.findOne({
+      where: { email: sameEmail(email) },
+    });
     return user ?? undefined;
   }
 
+  /**
+   * Checks whether an email address belongs to any account, including accounts that are
+   * scheduled for deletion and can still be restored. Addresses are compared ignoring case.
+   */
+  async isEmailTaken(email: string): Promise<boolean> {
+    return await this._usersRepository.exists({
+      where: {
+        email: sameEmail(email),
+      },
+      withDeleted: true,
+    });
+  }
+
+  /**
+   * Creates a user with the default role.
+   *
+   * @throws {ConflictException} Throws if a concurrent sign up took the email address first.
+   */
   async create(email: string, password: string): Promise<IUser> {
     const hashedPassword = await hashPassword(password);
-    const user = this._usersRepository.create({
-      email,
-      password: hashedPassword,
-      createdAt: new Date(),
-      updatedAt: new Date(),
+    return await this.withUniqueEmail(
+      this._usersRepository.manager.transaction(async (manager) => {
+        const repository = manager.getRepository(User);
+        const user = repository.create({
+          email,
+          password: hashedPassword,
+          roles: [Role.USER],
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        });
+        await repository.save(user);
+        await this._passwordPolicyService.remember(
+          manager,
+          user.id,
+          hashedPassword
+        );
+        await this._userEventsService.publish(manager, UserEventType.CREATED, {
+          userId: user.id,
+          email: user.email,
+          roles: user.roles,
+          isActive: user.isActive,
+          emailVerified: user.emailVerified,
+        });
+        return user;
+      })
+    );
+  }
+
+  async findByIds(ids: number[]): Promise<SafeUser[]> {
+    const users = await this._usersRepository.find({
+      where: { id: In(ids) },
     });
-    await this._usersRepository.save(user);
-    return user;
+    return users.map((user) => this.withoutSecrets(user));
   }
 
-  async findById(id: number): Promise<IUser | undefined> {
+  async findById(id: number): Promise<SafeUser | undefined> {
     const user = await this._usersRepository.findOne({ where: { id } });
     if (!user) return undefined;
-    // Exclude password from returned object
-    const { password, ...userWithoutPassword } = user;
-    return userWithoutPassword as IUser;
+    return this.withoutSecrets(user);
   }
 
-  async update(
+  /**
+   * Lists users page by page, optionally filtered by role, active state, creation
+   * date and a case-insensitive email search.
+   *
+   * @param {ListUsersQueryDto} query - The pagination, sorting and filter options.
+   *
+   * @returns {Promise<Paginated<SafeUser>>} Resolves with the requested page, without passwords.
+   */
+  async findAll(query: ListUsersQueryDto): Promise<Paginated<SafeUser>> {
+    const [users, total] = await this._usersRepository.findAndCount({
+      where: this.buildFilters(query),
+      order: { [query.sort]: query.order },
+      skip: (query.page - 1) * query.limit,
+      take: query.limit,
+    });
+    return {
+      data: users.map((user) => this.withoutSecrets(user)),
+      total,
+      page: query.page,
+      limit: query.limit,
+    };
+  }
+
+  /**
+   * Lists users with cursor pagination, ordered by id so cursors stay stable while
+   * users are added.
+   *
+   * @param {number} first - The maximum number of users to return.
+   * @param {string} after - The cursor of the last user of the previous page.
+   * @param {UserFilters} filters - The role, active state, creation date and email filters.
+   *
+   * @returns {Promise<Connection<SafeUser>>} Resolves with the page of users and the page info.
+   *
+   * @throws {BadRequestException} Throws if the cursor is malformed.
+   */
+  async findConnection(
+    first: number,
+    after?: string,
+    filters: UserFilters = {}
+  ): Promise<Connection<SafeUser>> {
+    const where = this.buildFilters(filters);
+    const [users, totalCount] = await Promise.all([
+      this._usersRepository.find({
+        where: after
+          ? { ...where, id: MoreThan(this.decodeCursor(after)) }
+          : where,
+        order: { id: 'ASC' },
+        take: first + 1,
+      }),
+      this._usersRepository.count({ where }),
+    ]);
+    const edges = users.slice(0, first).map((user) => ({
+      cursor: this.encodeCursor(user.id),
+      node: this.withoutSecrets(user),
+    }));
+    return {
+      edges,
+      pageInfo: {
+        hasNextPage: users.length > first,
+        endCursor: edges.length ? edges[edges.length - 1].cursor : null,
+      },
+      totalCount,
+    };
+  }
+
+  /**
+   * Replaces the roles of a user. Outstanding access tokens stop working because they
+   * carry the previous roles.
+   */
+  async updateRoles(id: number, roles: string[]): Promise<SafeUser> {
+    return await this._usersRepository.manager.transaction(async (manager) => {
+      const repository = manager.getRepository(User);
+      const user = await repository.findOne({ where: { id } });
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+      const previousRoles = user.roles;
+      user.roles = roles;
+      user.updatedAt = new Date();
+      await repository.save(user);
+      await this._userEventsService.publish(
+        manager,
+        UserEventType.ROLE_CHANGED,
+        { userId: user.id, previousRoles, roles }
+      );
+      return this.withoutSecrets(user);
+    });
+  }
+
+  async setActive(id: number, isActive: boolean): Promise<SafeUser> {
+    return await this._usersRepository.manager.transaction(async (manager) => {
+      const repository = manager.getRepository(User);
+      const user = await repository.findOne({ where: { id } });
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+      user.isActive = isActive;
+      user.updatedAt = new Date();
+      await repository.save(user);
+      if (isActive) {
+        await this._userEventsService.publish(manager, UserEventType.UPDATED, {
+          userId: user.id,
+          changedFields: ['isActive'],
+          reason: 'activated',
+        });
+      } else {
+        await this._userEventsService.publish(
+          manager,
+          UserEventType.DEACTIVATED,
+          { userId: user.id, reason: 'admin' }
+        );
+      }
+      return this.withoutSecrets(user);
+    });
+  }
+
+  async markEmailVerified(id: number): Promise<void> {
+    await this._usersRepository.manager.transaction(async (manager) => {
+      await manager.getRepository(User).update(id, {
+        emailVerified: true,
+        updatedAt: new Date(),
+      });
+      await this._userEventsService.publish(manager, UserEventType.UPDATED, {
+        userId: id,
+        changedFields: ['emailVerified'],
+      });
+    });
+  }
+
+  /**
+   * Replaces the user's password. The reason tells consumers whether the user or an
+   * admin triggered the change. The password policy is checked by the callers, forced
+   * resets set a random password that does not go into the history.
+   */
+  async updatePassword(
     id: number,
-    email: string,
     password: string,
-    user: any
-  ): Promise<IUser | undefined> {
+    reason?: UserUpdatedPayload['reason']
+  ): Promise<void> {
+    const hashedPassword = await hashPassword(password);
+    await this._usersRepository.manager.transaction(async (manager) => {
+      await manager.getRepository(User).update(id, {
+        password: hashedPassword,
+        updatedAt: new Date(),
+      });
+      if (reason !== 'password-reset-forced') {
+        await this._passwordPolicyService.remember(manager, id, hashedPassword);
+      }
+      await this._userEventsService.publish(manager, UserEventType.UPDATED, {
+        userId: id,
+        changedFields: ['password'],
+        reason,
+      });
+    });
+  }
+
+  async incrementFailedLogins(id: number): Promise<number> {
+    const result = await this._usersRepository
+      .createQueryBuilder()
+      .update(User)
+      .set({ failedLoginCount: () => '"failedLoginCount" + 1' })
+      .where('id = :id', { id })
+      .returning('"failedLoginCount"')
+      .execute();
+    const [row] = result.raw as { failedLoginCount: number }[];
+    return row?.failedLoginCount ?? 0;
+  }
+
+  async lockUntil(id: number, lockedUntil: Date): Promise<void> {
+    await this._usersRepository.update(id, { lockedUntil });
+  }
+
+  async resetFailedLogins(id: number): Promise<void> {
+    await this._usersRepository.update(id, {
+      failedLoginCount: 0,
+      lockedUntil: null,
+    });
+  }
+
+  async unlock(id: number): Promise<void> {
+    const user = await this._usersRepository.findOne({ where: { id } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    await this.resetFailedLogins(id);
+  }
+
+  async findTotpState(
+    id: number
+  ): Promise<{ mfaEnabled: boolean; totpSecret: string | null }> {
+    const user = await this._usersRepository.findOne({
+      where: { id },
+      select: { id: true, mfaEnabled: true, totpSecret: true },
+    });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return { mfaEnabled: user.mfaEnabled, totpSecret: user.totpSecret };
+  }
+
+  async setTotpSecret(id: number, totpSecret: string): Promise<void> {
+    await this._usersRepository.update(id, {
+      totpSecret,
+      updatedAt: new Date(),
+    });
+  }
+
+  async enableMfa(id: number, totpStep: number): Promise<void> {
+    await this._usersRepository.manager.transaction(async (manager) => {
+      await manager.getRepository(User).update(id, {
+        mfaEnabled: true,
+        totpLastUsedStep: totpStep,
+        updatedAt: new Date(),
+      });
+      await this._userEventsService.publish(manager, UserEventType.UPDATED, {
+        userId: id,
+        changedFields: ['mfaEnabled'],
+      });
+    });
+  }
+
+  /**
+   * Records the TOTP step a code was accepted for. Returns false if that step, or a
+   * later one, was already used, so the same code cannot be replayed.
+   */
+  async markTotpStepUsed(id: number, totpStep: number): Promise<boolean> {
+    const result = await this._usersRepository
+      .createQueryBuilder()
+      .update(User)
+      .set({ totpLastUsedStep: totpStep })
+      .where('id = :id', { id })
+      .andWhere(
+        '("totpLastUsedStep" IS NULL OR "totpLastUsedStep" < :totpStep)',
+        { totpStep }
+      )
+      .execute();
+    return !!result.affected;
+  }
+
+  /**
+   * Applies a partial update to a user; only the given fields change, custom attributes
+   * are merged into the stored ones. Users change
+   * their own email and password through `POST /users/me/email` and `POST /users/me/password`,
+   * so here those fields are reserved for callers who may update any user. An email set
+   * this way counts as verified, like one confirmed through `POST /users/me/email/confirm`,
+   * since no link is sent to it; a new password signs the user out everywhere.
+   *
+   * @param {number} id - The id of the user to update.
+   * @param {UpdateUserDto} changes - The fields to change.
+   * @param {AuthUser} user - The authenticated user, who must own the account unless they may update any.
+   * @param {SessionClient} client - The user agent and IP address of the caller, for the audit trail.
+   *
+   * @returns {Promise<SafeUser>} Resolves with the updated user, without secrets.
+   *
+   * @throws {ForbiddenException} Throws if the user may not update this account or the email is taken.
+   * @throws {ConflictException} Throws if another account took the email in the meantime.
+   * @throws {BadRequestException} Throws if users try to change their own email or password here.
+   * @throws {NotFoundException} Throws if the user does not exist.
+   * @throws {PasswordPolicyException} Throws if the new password violates the password policy.
+   * @throws {UserAttributesException} Throws if the custom attributes do not match the attribute schema.
+   */
+  async update(
+    id: number,
+    changes: UpdateUserDto,
+    user: AuthUser,
+    client?: SessionClient
+  ): Promise<SafeUser> {
+    const audit = {
+      action: AuditAction.PROFILE_UPDATE,
+      actorId: user.userId,
+      targetId: Number(id),
+      client,
+    };
     try {
-      // Check if the user is trying to update their own profile
-      if (Number(id) !== Number(user.userId)) {
-        throw new ForbiddenException('You are not allowed to update this user');
+      enforcePolicy(
+        canUpdateUser,
+        user,
+        id,
+        'You are not allowed to update this user'
+      );
+      const { email, password } = changes;
+      if (
+        user.userId === Number(id) &&
+        (email !== undefined || password !== undefined)
+      ) {
+        throw new BadRequestException(
+          'Use POST /users/me/email or POST /users/me/password to change your own email or password'
+        );
       }
 
       const fetchedUser = await this._usersRepository.findOne({
@@ -72,29 +461,202 @@ export class UsersService {
         throw new NotFoundException('User not found');
       }
 
-      // Check if already account with this email
-      const existingUser = await this._usersRepository.findOne({
-        where: { email },
-      });
-      if (existingUser && existingUser.id !== id) {
-        throw new ForbiddenException("You can't use this email");
+      const { email: previousEmail, emailVerified: wasVerified } = fetchedUser;
+      const emailChanged = email !== undefined && email !== previousEmail;
+      if (emailChanged) {
+        // Check if already account with this email
+        const existingUser = await this._usersRepository.findOne({
+          where: { email: sameEmail(email) },
+          withDeleted: true,
+        });
+        if (existingUser && existingUser.id !== fetchedUser.id) {
+          throw new ForbiddenException("You can't use this email");
+        }
+        fetchedUser.email = email;
+        fetchedUser.emailVerified = true;
+      }
+      if (password !== undefined) {
+        await this._passwordPolicyService.assertValid(password, {
+          email: fetchedUser.email,
+          userId: fetchedUser.id,
+        });
+        fetchedUser.password = await hashPassword(password);
+      }
+
+      const changedFields: UserUpdatedField[] = [];
+      if (emailChanged && !wasVerified) {
+        changedFields.push('emailVerified');
+      }
+      if (password !== undefined) {
+        changedFields.push('password');
+      }
+      for (const field of PROFILE_FIELDS) {
+        const value = changes[field];
+        if (value !== undefined && value !== fetchedUser[field]) {
+          fetchedUser[field] = value;
+          changedFields.push(field);
+        }
+      }
+      if (changes.customAttributes !== undefined) {
+        const customAttributes = this._userAttributesService.merge(
+          this._userAttributesService.toReadable(fetchedUser.customAttributes),
+          changes.customAttributes
+        );
+        if (
+          !isDeepStrictEqual(customAttributes, fetchedUser.customAttributes)
+        ) {
+          fetchedUser.customAttributes = customAttributes;
+          changedFields.push('customAttributes');
+        }
+      }
+      if (!emailChanged && !changedFields.length) {
+        return this.withoutSecrets(fetchedUser);
       }
 
-      fetchedUser.email = email;
-      fetchedUser.password = await hashPassword(password);
       fetchedUser.updatedAt = new Date();
-      await this._usersRepository.save(fetchedUser);
-      return fetchedUser;
+      await this.withUniqueEmail(
+        this._usersRepository.manager.transaction(async (manager) => {
+          await manager.getRepository(User).save(fetchedUser);
+          if (password !== undefined) {
+            await this._passwordPolicyService.remember(
+              manager,
+              fetchedUser.id,
+              fetchedUser.password
+            );
+          }
+          if (emailChanged) {
+            await this._userEventsService.publish(
+              manager,
+              UserEventType.EMAIL_CHANGED,
+              {
+                userId: fetchedUser.id,
+                previousEmail,
+                email: fetchedUser.email,
+              }
+            );
+          }
+          if (changedFields.length) {
+            await this._userEventsService.publish(
+              manager,
+              UserEventType.UPDATED,
+              { userId: fetchedUser.id, changedFields }
+            );
+          }
+        })
+      );
+      if (password !== undefined) {
+        await this._sessionsService.revokeAllForUser(fetchedUser.id);
+      }
+      await this._auditService.record({
+        ...audit,
+        outcome: AuditOutcome.SUCCESS,
+        details: {
+          changedFields: [
+            ...(emailChanged ? ['email'] : []),
+            ...changedFields.filter((field) => field !== 'emailVerified'),
+          ],
+        },
+      });
+      return this.withoutSecrets(fetchedUser);
     } catch (error) {
+      await this._auditService.recordFailure(audit, error);
       throw error;
     }
   }
-  async delete(id: number, user: any): Promise<void> {
+
+  /**
+   * Checks a plaintext password against the one stored for the user.
+   *
+   * @returns {Promise<boolean>} Resolves with false if the password is wrong or the user does not exist.
+   */
+  async checkPassword(id: number, password: string): Promise<boolean> {
+    const user = await this._usersRepository.findOne({ where: { id } });
+    return !!user && (await comparePasswords(password, user.password));
+  }
+
+  /**
+   * Moves a user to an email address they confirmed. The new address counts as
+   * verified, since the user followed a link sent to it.
+   *
+   * @param {number} id - The id of the user.
+   * @param {string} email - The confirmed email address.
+   *
+   * @returns {Promise<void>} Resolves once the email has been changed.
+   *
+   * @throws {NotFoundException} Throws if the user does not exist.
+   * @throws {ConflictException} Throws if another account took the address in the meantime.
+   */
+  async changeEmail(id: number, email: string): Promise<void> {
+    await this.withUniqueEmail(
+      this._usersRepository.manager.transaction(async (manager) => {
+        const repository = manager.getRepository(User);
+        const user = await repository.findOne({ where: { id } });
+        if (!user) {
+          throw new NotFoundException('User not found');
+        }
+        const taken = await repository.exists({
+          where: { email: sameEmail(email), id: Not(id) },
+          withDeleted: true,
+        });
+        if (taken) {
+          throw new ConflictException('Provided email address cannot be used.');
+        }
+        await repository.update(id, {
+          email,
+          emailVerified: true,
+          updatedAt: new Date(),
+        });
+        await this._userEventsService.publish(
+          manager,
+          UserEventType.EMAIL_CHANGED,
+          { userId: id, previousEmail: user.email, email }
+        );
+        if (!user.emailVerified) {
+          await this._userEventsService.publish(
+            manager,
+            UserEventType.UPDATED,
+            {
+              userId: id,
+              changedFields: ['emailVerified'],
+            }
+          );
+        }
+      })
+    );
+  }
+
+  /**
+   * Schedules the user's own account for deletion. The account is soft deleted and signed out
+   * everywhere; it can be restored until the grace period ends and is erased afterwards.
+   *
+   * @param {number} id - The id of the account to delete.
+   * @param {AuthUser} user - The authenticated user, who must own the account unless they may delete any.
+   * @param {SessionClient} client - The user agent and IP address of the caller, for the audit trail.
+   *
+   * @returns {Promise<void>} Resolves once the account has been scheduled for deletion.
+   *
+   * @throws {ForbiddenException} Throws if the user may not delete this account.
+   * @throws {NotFoundException} Throws if the user does not exist.
+   */
+  async delete(
+    id: number,
+    user: AuthUser,
+    client?: SessionClient
+  ): Promise<void> {
+    const audit = {
+      action: AuditAction.DELETE,
+      actorId: user.userId,
+      targetId: Number(id),
+      client,
+      details: { reason: 'deletion-scheduled' },
+    };
     try {
-      // Check if the user is trying to update their own profile
-      if (Number(id) !== Number(user.userId)) {
-        throw new ForbiddenException('You are not allowed to update this user');
-      }
+      enforcePolicy(
+        canDeleteUser,
+        user,
+        id,
+        'You are not allowed to delete this user'
+      );
 
       const fetchedUser = await this._usersRepository.findOne({
         where: { id },
@@ -103,18 +665,155 @@ export class UsersService {
         throw new NotFoundException('User not found');
       }
 
-      await this._usersRepository.remove(fetchedUser);
-      const eventValues = {
-        id: Number(id),
-        role: fetchedUser.role,
-        isActive: false,
-      };
-      this.kafkaClient.emit('user-topic', {
-        key: String(user.id),
-        value: JSON.stringify(eventValues),
+      await this._usersRepository.manager.transaction(async (manager) => {
+        await manager.getRepository(User).softDelete(fetchedUser.id);
+        await this._userEventsService.publish(
+          manager,
+          UserEventType.DEACTIVATED,
+          { userId: fetchedUser.id, reason: 'deletion-scheduled' }
+        );
+      });
+      await this._sessionsService.revokeAllForUser(fetchedUser.id);
+      await this._auditService.record({
+        ...audit,
+        outcome: AuditOutcome.SUCCESS,
       });
     } catch (error) {
+      await this._auditService.recordFailure(audit, error);
       throw error;
     }
   }
+
+  /**
+   * Finds an account scheduled for deletion whose grace period has not ended yet.
+   */
+  async findRestorable(email: string): Promise<IUser | undefined> {
+    const user = await this._usersRepository.findOne({
+      where: { email: sameEmail(email), deletedAt: Not(IsNull()) },
+      withDeleted: true,
+    });
+    if (!user || user.deletedAt! <= this.getDeletionCutoff()) {
+      return undefined;
+    }
+    return user;
+  }
+
+  async restore(id: number): Promise<SafeUser> {
+    return await this._usersRepository.manager.transaction(async (manager) => {
+      const repository = manager.getRepository(User);
+      await repository.restore(id);
+      const user = await repository.findOne({ where: { id } });
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+      await this._userEventsService.publish(manager, UserEventType.UPDATED, {
+        userId: user.id,
+        changedFields: ['deletedAt'],
+        reason: 'restored',
+      });
+      return this.withoutSecrets(user);
+    });
+  }
+
+  /**
+   * Erases the accounts whose deletion grace period has ended, see PrivacyService.erase.
+   *
+   * @returns {Promise<number>} Resolves with the number of erased accounts.
+   */
+  async purgeDeleted(): Promise<number> {
+    const users = await this._usersRepository.find({
+      where: {
+        deletedAt: LessThan(this.getDeletionCutoff()),
+        erasedAt: IsNull(),
+      },
+      withDeleted: true,
+    });
+    for (const user of users) {
+      await this._privacyService.erase(user.id, {
+        reason: 'purged',
+        requestedAt: user.deletedAt!,
+      });
+      await this._auditService.record({
+        action: AuditAction.DELETE,
+        outcome: AuditOutcome.SUCCESS,
+        actorType: AuditActorType.SYSTEM,
+        targetId: user.id,
+        details: { reason: 'purged' },
+      });
+    }
+    return users.length;
+  }
+
+  // The unique indexes on the email catch what the checks before a write can miss
+  private async withUniqueEmail<T>(write: Promise<T>): Promise<T> {
+    try {
+      return await write;
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictException('Provided email address cannot be used.');
+      }
+      throw error;
+    }
+  }
+
+  private getDeletionCutoff(): Date {
+    const graceDays =
+      this._configService.get<number>('ACCOUNT_DELETION_GRACE_DAYS') ?? 30;
+    return new Date(Date.now() - graceDays * 24 * 60 * 60 * 1000);
+  }
+
+  private buildFilters(filters: UserFilters): FindOptionsWhere<User> {
+    const where: FindOptionsWhere<User> = {};
+    if (filters.search) {
+      where.email = ILike(`%${filters.search.replace(/[%_\\]/g, '\\$&')}%`);
+    }
+    if (filters.role) {
+      where.roles = ArrayContains([filters.role]);
+    }
+    if (filters.isActive !== undefined) {
+      where.isActive = filters.isActive;
+    }
+    if (filters.attributes) {
+      this._userAttributesService.assertSearchable(filters.attributes);
+      const attributes = JSON.stringify(filters.attributes);
+      where.customAttributes = Raw((column) => `${column} @> :attributes`, {
+        attributes,
+      });
+    }
+    if (filters.createdFrom && filters.createdTo) {
+      where.createdAt = Between(filters.createdFrom, filters.createdTo);
+    } else if (filters.createdFrom) {
+      where.createdAt = MoreThanOrEqual(filters.createdFrom);
+    } else if (filters.createdTo) {
+      where.createdAt = LessThanOrEqual(filters.createdTo);
+    }
+    return where;
+  }
+
+  private encodeCursor(id: number): string {
+    return Buffer.from(`user:${id}`).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string): number {
+    const [prefix, id] = Buffer.from(cursor, 'base64url').toString().split(':');
+    if (prefix !== 'user' || !/^\d+$/.test(id ?? '')) {
+      throw new BadRequestException('Invalid cursor');
+    }
+    return Number(id);
+  }
+
+  private withoutSecrets(user: User): SafeUser {
+    // Exclude password and MFA secrets from returned object
+    const userWithoutSecrets: SafeUser &
+      Partial<Pick<User, 'password' | 'totpSecret' | 'totpLastUsedStep'>> = {
+      ...user,
+      customAttributes: this._userAttributesService.toReadable(
+        user.customAttributes
+      ),
+    };
+    delete userWithoutSecrets.password;
+    delete userWithoutSecrets.totpSecret;
+    delete userWithoutSecrets.totpLastUsedStep;
+    return userWithoutSecrets;
+  }
 }
@@ -0,0 +1,24 @@
+import { SafeUser } from '../users.service';
+import { PublicUser } from '../types/users.type';
+
+/**
+ * Picks the fields other services may see. Anything not listed here, like the password
+ * hash or lockout counters, never leaves the service.
+ */
+export const toPublicUser = (user: SafeUser): PublicUser => ({
+  id: user.id,
+  email: user.email,
+  roles: user.roles,
+  isActive: user.isActive ?? true,
+  emailVerified: user.emailVerified ?? false,
+  mfaEnabled: user.mfaEnabled ?? false,
+  displayName: user.displayName ?? null,
+  givenName: user.givenName ?? null,
+  familyName: user.familyName ?? null,
+  avatarUrl: user.avatarUrl ?? null,
+  locale: user.locale ?? null,
+  timeZone: user.timeZone ?? null,
+  customAttributes: user.customAttributes ?? {},
+  createdAt: user.createdAt,
+  updatedAt: user.updatedAt,
+});
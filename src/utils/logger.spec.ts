@@ -0,0 +1,73 @@
+import { JsonLogger, redact } from './logger';
+import { runWithRequestId } from 'src/request-context/request-context';
+
+describe('JsonLogger', () => {
+  let write: jest.SpyInstance;
+
+  const lines = () =>
+    write.mock.calls.map(
+      ([line]: [string]) => JSON.parse(line) as Record<string, unknown>
+    );
+
+  beforeEach(() => {
+    write = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    write.mockRestore();
+  });
+
+  it('should write one JSON object per line with the request id', () => {
+    const logger = new JsonLogger();
+
+    runWithRequestId('request-1', () =>
+      logger.log('Signing in user: kavishka@gmail.com', 'AuthService')
+    );
+
+    expect(lines()).toEqual([
+      expect.objectContaining({
+        level: 'log',
+        context: 'AuthService',
+        message: 'Signing in user: ***@gmail.com',
+        requestId: 'request-1',
+      }),
+    ]);
+  });
+
+  it('should only write the configured levels', () => {
+    const logger = new JsonLogger('warn');
+
+    logger.debug('hidden');
+    logger.log('hidden');
+    logger.warn('shown');
+
+    expect(lines()).toEqual([expect.objectContaining({ message: 'shown' })]);
+  });
+});
+
+describe('redact', () => {
+  it('should mask tokens and API key secrets', () => {
+    expect(
+      redact(
+        'Bearer abc.def eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOjF9.c2lnbmF0dXJl usk_1a2b3c4d.c2VjcmV0'
+      )
+    ).toBe('Bearer [REDACTED] [REDACTED] usk_1a2b3c4d.[REDACTED]');
+  });
+
+  it('should drop secret values of objects without changing the original', () => {
+    const message = {
+      email: 'kavishka@gmail.com',
+      password: 'kavishka@123',
+      tokens: { refresh_token: 'token' },
+      roles: ['user'],
+    };
+
+    expect(redact(message)).toEqual({
+      email: '***@gmail.com',
+      password: '[REDACTED]',
+      tokens: '[REDACTED]',
+      roles: ['user'],
+    });
+    expect(message.password).toBe('kavishka@123');
+  });
+});
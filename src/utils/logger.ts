@@ -0,0 +1,89 @@
+import { ConsoleLogger, LogLevel } from '@nestjs/common';
+import { getRequestId } from 'src/request-context/request-context';
+
+// From the most to the least verbose; LOG_LEVEL enables its level and all after it
+export const LOG_LEVELS: LogLevel[] = [
+  'verbose',
+  'debug',
+  'log',
+  'warn',
+  'error',
+  'fatal',
+];
+
+const REDACTED = '[REDACTED]';
+// Values under these keys are never logged, e.g. `password` or `refresh_token`
+const SECRET_KEY = /password|secret|token|authorization|cookie|^code$/i;
+const EMAIL = /[\w.%+-]+@([a-z\d-]+(?:\.[a-z\d-]+)+)/gi;
+const JWT = /\beyJ[\w-]*\.[\w-]+\.[\w-]*/g;
+// Keeps the public prefix of API keys, which identifies the key
+const API_KEY = /\b(usk_[\da-f]+)\.[\w-]+/g;
+const CREDENTIALS = /\b(Bearer|Basic)\s+[\w.~+/=-]+/gi;
+// Nested values below this depth are left out instead of walked
+const MAX_DEPTH = 5;
+
+type JsonLogOptions = {
+  context: string;
+  logLevel: LogLevel;
+  writeStreamType?: 'stdout' | 'stderr';
+  errorStack?: unknown;
+};
+
+/**
+ * Masks personal data and credentials in a log message: email addresses keep only their
+ * domain, tokens and API key secrets are replaced and values of secret keys are dropped.
+ *
+ * @param {unknown} value - A message, or an object or array to copy with masked values.
+ *
+ * @returns {unknown} The masked copy.
+ */
+export const redact = (value: unknown, depth = 0): unknown => {
+  if (typeof value === 'string') {
+    return value
+      .replace(JWT, REDACTED)
+      .replace(API_KEY, `$1.${REDACTED}`)
+      .replace(CREDENTIALS, `$1 ${REDACTED}`)
+      .replace(EMAIL, '***@$1');
+  }
+  if (value instanceof Error) {
+    return redact(value.stack ?? value.message, depth);
+  }
+  if (typeof value !== 'object' || value === null || value instanceof Date) {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[Object]';
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SECRET_KEY.test(key) ? REDACTED : redact(item, depth + 1),
+    ])
+  );
+};
+
+/**
+ * Writes every log line as one JSON object with the id of the request being handled.
+ * Installed with `app.useLogger`, so the `Logger` instances of every class write through
+ * it and messages are redacted in one place.
+ */
+export class JsonLogger extends ConsoleLogger {
+  constructor(level: LogLevel = 'log') {
+    super({
+      json: true,
+      logLevels: LOG_LEVELS.slice(LOG_LEVELS.indexOf(level)),
+    });
+  }
+
+  protected getJsonLogObject(message: unknown, options: JsonLogOptions) {
+    const logObject = super.getJsonLogObject(redact(message), {
+      ...options,
+      errorStack: redact(options.errorStack),
+    });
+    const requestId = getRequestId();
+    return requestId ? { ...logObject, requestId } : logObject;
+  }
+}
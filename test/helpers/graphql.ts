@@ -0,0 +1,83 @@
+import { INestApplication } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { GraphQLModule } from '@nestjs/graphql';
+import { ApolloDriver, ApolloDriverConfig } from '@nestjs/apollo';
+import { generateKeyPairSync } from 'crypto';
+import { Request, Response } from 'express';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { JwtStrategy } from 'src/auth/strategy/jwt.strategy';
+import { SigningKeysService } from 'src/signing-keys/signing-keys.service';
+import { SigningAlgorithm } from 'src/signing-keys/types/signing-keys.type';
+import { JwtPayload } from 'src/auth/types/auth.type';
+
+// Configured like the GraphQL module of AppModule
+export const TestGraphQLModule = GraphQLModule.forRoot<ApolloDriverConfig>({
+  driver: ApolloDriver,
+  autoSchemaFile: true,
+  context: ({ req, res }: { req: Request; res: Response }) => ({ req, res }),
+});
+
+/**
+ * Signs access tokens with a throwaway key and provides the real `JwtStrategy` verifying
+ * them, so resolvers are exercised through `JwtAuthGuard` in a GraphQL execution
+ * context. The strategy resolves the token's principal with `validateUserRole` of the
+ * `AuthService` provided by the spec.
+ */
+export class TestAccessTokens {
+  private readonly keys = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  });
+
+  readonly providers = [
+    JwtStrategy,
+    { provide: ConfigService, useValue: new ConfigService({}) },
+    {
+      provide: SigningKeysService,
+      useValue: {
+        getVerificationKey: () =>
+          Promise.resolve({
+            kid: 'test',
+            algorithm: SigningAlgorithm.RS256,
+            publicKey: this.keys.publicKey,
+          }),
+      },
+    },
+  ];
+
+  sign(payload: JwtPayload): string {
+    return new JwtService().sign(payload, {
+      algorithm: 'RS256',
+      privateKey: this.keys.privateKey,
+      keyid: 'test',
+    });
+  }
+}
+
+export type GraphQLResponse = {
+  data: Record<string, unknown> | null;
+  errors?: { message: string; extensions: { code: string } }[];
+};
+
+/**
+ * Posts a GraphQL operation, authenticated with the access token if one is given.
+ */
+export const graphql = async (
+  app: INestApplication<App>,
+  query: string,
+  variables: Record<string, unknown> = {},
+  token?: string
+): Promise<{ body: GraphQLResponse; headers: Record<string, string> }> => {
+  const req = request(app.getHttpServer()).post('/graphql');
+  if (token) {
+    req.set('Authorization', `Bearer ${token}`);
+  }
+  const res = await req.send({ query, variables });
+  return {
+    body: res.body as GraphQLResponse,
+    headers: res.headers,
+  };
+};
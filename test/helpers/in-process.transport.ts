@@ -0,0 +1,122 @@
+import {
+  ClientProxy,
+  CustomTransportStrategy,
+  KafkaContext,
+  ReadPacket,
+  Server,
+  WritePacket,
+} from '@nestjs/microservices';
+import { NO_MESSAGE_HANDLER } from '@nestjs/microservices/constants';
+import { BaseRpcContext } from '@nestjs/microservices/ctx-host/base-rpc.context';
+import { KafkaMessage } from '@nestjs/microservices/external/kafka.interface';
+
+/**
+ * Connects an `InProcessClient` to an `InProcessServer` without a broker, so message
+ * handlers can be exercised end to end in tests. Like with `ClientKafka`, requests sent
+ * as `{ headers, value }` reach the handler as `value`, with the headers on its
+ * `KafkaContext`.
+ */
+export class InProcessBroker {
+  server?: InProcessServer;
+}
+
+// Packets are copied through JSON like a real broker would, so handlers cannot leak
+// class instances, dates or functions to the caller.
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T;
+
+const toKafkaMessage = (data: unknown) =>
+  typeof data === 'object' && data !== null && 'value' in data
+    ? (data as { headers?: KafkaMessage['headers']; value: unknown })
+    : { headers: {}, value: data };
+
+export class InProcessServer extends Server implements CustomTransportStrategy {
+  constructor(private readonly broker: InProcessBroker) {
+    super();
+  }
+
+  listen(callback: () => void): void {
+    this.broker.server = this;
+    callback();
+  }
+
+  close(): void {
+    if (this.broker.server === this) {
+      this.broker.server = undefined;
+    }
+  }
+
+  on(): void {}
+
+  unwrap<T>(): T {
+    return this.broker as T;
+  }
+
+  async dispatchMessage(
+    packet: ReadPacket & { id: string },
+    respond: (packet: WritePacket) => void
+  ): Promise<void> {
+    const pattern = this.getPatternAsString(packet.pattern);
+    const handler = this.getHandlerByPattern(pattern);
+    if (!handler) {
+      respond({ err: NO_MESSAGE_HANDLER, isDisposed: true });
+      return;
+    }
+    const { headers, value } = toKafkaMessage(copy(packet.data));
+    const context = new KafkaContext([
+      { headers } as KafkaMessage,
+      0,
+      pattern,
+    ] as unknown as ConstructorParameters<typeof KafkaContext>[0]);
+    const response$ = this.transformToObservable(await handler(value, context));
+    this.send(response$, (response) => respond(copy(response)));
+  }
+
+  async dispatchEvent(packet: ReadPacket): Promise<void> {
+    const pattern = this.getPatternAsString(packet.pattern);
+    await this.handleEvent(
+      pattern,
+      { pattern, data: copy<unknown>(packet.data) },
+      new BaseRpcContext([pattern])
+    );
+  }
+}
+
+export class InProcessClient extends ClientProxy {
+  constructor(private readonly broker: InProcessBroker) {
+    super();
+  }
+
+  connect(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  close(): void {}
+
+  unwrap<T>(): T {
+    return this.broker as T;
+  }
+
+  protected publish(
+    packet: ReadPacket,
+    callback: (packet: WritePacket) => void
+  ): () => void {
+    const server = this.getServer();
+    const message = this.assignPacketId(packet);
+    server
+      .dispatchMessage(message, callback)
+      .catch((err: unknown) => callback({ err, isDisposed: true }));
+    return () => {};
+  }
+
+  protected async dispatchEvent<T = void>(packet: ReadPacket): Promise<T> {
+    await this.getServer().dispatchEvent(packet);
+    return undefined as T;
+  }
+
+  private getServer(): InProcessServer {
+    if (!this.broker.server) {
+      throw new Error('No in-process server is listening');
+    }
+    return this.broker.server;
+  }
+}
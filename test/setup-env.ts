@@ -0,0 +1,3 @@
+// e2e tests run without a broker or mail server unless told otherwise
+process.env.EVENT_BUS ??= 'memory';
+process.env.MAIL_TRANSPORT ??= 'memory';